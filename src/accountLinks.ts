@@ -0,0 +1,157 @@
+import { randomInt } from "node:crypto";
+import { JsonStore } from "./jsonStore.js";
+import type { Logger } from "./logger.js";
+
+export interface AccountLink {
+  discordId: string;
+  cubyzName: string;
+  linkedAt: Date;
+}
+
+interface LinkRecord {
+  cubyzName: string;
+  linkedAt: number;
+}
+
+interface LinkData {
+  version: 1;
+  /** Links keyed by Discord user ID. */
+  links: Record<string, LinkRecord>;
+}
+
+interface PendingLink {
+  discordId: string;
+  cubyzName: string;
+  expiresAt: number;
+}
+
+// Unambiguous characters, so codes are easy to type in game.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+const toKey = (name: string): string => name.trim().toLowerCase();
+
+const toLink = (discordId: string, record: LinkRecord): AccountLink => ({
+  discordId,
+  cubyzName: record.cubyzName,
+  linkedAt: new Date(record.linkedAt),
+});
+
+/**
+ * Persists links between Discord users and Cubyz players. A link is created
+ * by handing out a one-time code that the player then types in game; pending
+ * codes live only in memory.
+ */
+export class AccountLinkStore {
+  private readonly store: JsonStore<LinkData>;
+  private readonly pending = new Map<string, PendingLink>();
+
+  constructor(filePath: string, log: Logger) {
+    this.store = new JsonStore<LinkData>(
+      filePath,
+      () => ({ version: 1, links: {} }),
+      (error) => log("error", "[Links] Failed to save account links:", error),
+    );
+  }
+
+  async load(): Promise<void> {
+    await this.store.load();
+  }
+
+  /**
+   * Issues a code that links the Discord user to the player once typed in
+   * game by that player. Replaces any code the user requested before.
+   */
+  createCode(
+    discordId: string,
+    cubyzName: string,
+    ttlMs: number,
+    now = Date.now(),
+  ): string {
+    this.pruneExpired(now);
+    for (const [code, entry] of this.pending) {
+      if (entry.discordId === discordId) {
+        this.pending.delete(code);
+      }
+    }
+
+    let code: string;
+    do {
+      code = Array.from(
+        { length: CODE_LENGTH },
+        () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)],
+      ).join("");
+    } while (this.pending.has(code));
+
+    this.pending.set(code, { discordId, cubyzName, expiresAt: now + ttlMs });
+    return code;
+  }
+
+  /**
+   * Completes a pending link when `username` says its code in chat. Returns
+   * the new link, or null when the message is not a valid code from the
+   * player it was issued for.
+   */
+  confirm(
+    username: string,
+    message: string,
+    now = Date.now(),
+  ): AccountLink | null {
+    this.pruneExpired(now);
+    const code = message.trim().toUpperCase();
+    const entry = this.pending.get(code);
+    if (!entry || toKey(entry.cubyzName) !== toKey(username)) {
+      return null;
+    }
+
+    this.pending.delete(code);
+    // A player can only be linked to one Discord user at a time.
+    for (const [discordId, record] of Object.entries(this.store.data.links)) {
+      if (toKey(record.cubyzName) === toKey(username)) {
+        delete this.store.data.links[discordId];
+      }
+    }
+
+    const record = { cubyzName: username, linkedAt: now };
+    this.store.data.links[entry.discordId] = record;
+    this.store.scheduleSave();
+    return toLink(entry.discordId, record);
+  }
+
+  /**
+   * Tells whether the message is an outstanding link code, so it can be kept
+   * out of relayed chat.
+   */
+  isPendingCode(message: string, now = Date.now()): boolean {
+    this.pruneExpired(now);
+    return this.pending.has(message.trim().toUpperCase());
+  }
+
+  getByDiscordId(discordId: string): AccountLink | null {
+    const record = this.store.data.links[discordId];
+    return record ? toLink(discordId, record) : null;
+  }
+
+  getByCubyzName(name: string): AccountLink | null {
+    const entry = Object.entries(this.store.data.links).find(
+      ([, record]) => toKey(record.cubyzName) === toKey(name),
+    );
+    return entry ? toLink(entry[0], entry[1]) : null;
+  }
+
+  async close(): Promise<void> {
+    await this.store.save();
+  }
+
+  closeSync(): void {
+    this.store.saveSync();
+  }
+
+  private pruneExpired(now: number): void {
+    for (const [code, entry] of this.pending) {
+      if (entry.expiresAt <= now) {
+        this.pending.delete(code);
+      }
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import type { BotConnectionManager } from "./botConnection.js";
+import type { AdminCommandName, DiscordAdminConfig } from "./types.js";
+
+export const ADMIN_COMMAND_NAMES: readonly AdminCommandName[] = [
+  "kick",
+  "ban",
+  "tp",
+  "time",
+  "cmd",
+];
+
+const REPLY_LIMIT = 2000;
+
+export type AdminCommandOptions = Record<string, string | null | undefined>;
+
+const singleLine = (value: string | null | undefined): string =>
+  (value ?? "").replace(/\s+/g, " ").trim();
+
+/**
+ * Tells whether a member with the given roles may run the command. Roles for
+ * a single command replace the shared `roleIds`.
+ */
+export function hasAdminRole(
+  memberRoleIds: readonly string[],
+  command: AdminCommandName,
+  admin: DiscordAdminConfig,
+): boolean {
+  const allowed = admin.commandRoleIds[command] ?? admin.roleIds;
+  return allowed.some((roleId) => memberRoleIds.includes(roleId));
+}
+
+/**
+ * Builds the server command an admin slash command sends, or throws when a
+ * required option is missing. Options are flattened to a single line so they
+ * cannot smuggle in further commands.
+ */
+export function buildServerCommand(
+  command: AdminCommandName,
+  options: AdminCommandOptions,
+): string {
+  const require = (name: string): string => {
+    const value = singleLine(options[name]);
+    if (value.length === 0) {
+      throw new Error(`Missing ${name}.`);
+    }
+    return value;
+  };
+  const withOptional = (...parts: string[]) =>
+    parts.filter((part) => part.length > 0).join(" ");
+
+  switch (command) {
+    case "kick":
+    case "ban":
+      return withOptional(
+        `/${command}`,
+        require("player"),
+        singleLine(options.reason),
+      );
+    case "tp":
+      return withOptional("/tp", require("player"), require("destination"));
+    case "time":
+      return withOptional("/time", require("value"));
+    case "cmd": {
+      const raw = require("command");
+      return raw.startsWith("/") ? raw : `/${raw}`;
+    }
+  }
+}
+
+/**
+ * Runs `send` and collects the server lines that arrive within the window
+ * afterwards. Command feedback reaches the bot as unrecognized `system` lines,
+ * so player chat and other events are not included.
+ */
+export async function captureServerResponses(
+  bot: Pick<BotConnectionManager, "on" | "off">,
+  windowMs: number,
+  send: () => Promise<unknown>,
+): Promise<string[]> {
+  const lines: string[] = [];
+  const listener = (chatMessage: { type: string; message?: string }) => {
+    if (chatMessage.type === "system" && chatMessage.message) {
+      lines.push(chatMessage.message);
+    }
+  };
+
+  bot.on("chat", listener);
+  try {
+    await send();
+    await sleep(windowMs);
+  } finally {
+    bot.off("chat", listener);
+  }
+  return lines;
+}
+
+/**
+ * Formats the interaction reply for a command and the server's response,
+ * leaving out the last lines when they do not fit in one Discord message.
+ */
+export function formatAdminReply(
+  serverCommand: string,
+  lines: readonly string[],
+  windowMs: number,
+): string {
+  const heading = `🛡️ Sent \`${serverCommand.replaceAll("`", "'")}\``;
+  if (lines.length === 0) {
+    return `${heading}\nNo response from the server within ${windowMs / 1000}s.`;
+  }
+
+  const sanitized = lines.map((line) => line.replaceAll("```", "'''"));
+  let count = sanitized.length;
+  const render = () => {
+    const shown =
+      count < sanitized.length
+        ? [...sanitized.slice(0, count), "…"]
+        : sanitized;
+    return `${heading}\n\`\`\`\n${shown.join("\n")}\n\`\`\``;
+  };
+  while (count > 1 && render().length > REPLY_LIMIT) {
+    count -= 1;
+  }
+
+  const reply = render();
+  return reply.length > REPLY_LIMIT
+    ? `${reply.slice(0, REPLY_LIMIT - 4)}\n\`\`\``
+    : reply;
+}
@@ -0,0 +1,297 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { SendChatResult } from "./botConnection.js";
+import { type HttpRequestHandler, sendJson } from "./httpServer.js";
+import type { Logger } from "./logger.js";
+import type { ApiTokenConfig, HttpApiConfig } from "./types.js";
+
+const MAX_BODY_BYTES = 16 * 1024;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export interface RelaySnapshot {
+  status: "online" | "offline";
+  players: string[];
+  gamemode: string | null;
+}
+
+/**
+ * What the API needs from one running relay.
+ */
+export interface ApiRelay {
+  server: string;
+  sendChat(message: string): Promise<SendChatResult>;
+  notify(message: string): Promise<void>;
+  /** Writes to the relay's audit log, e.g. the Discord admin audit channel. */
+  audit(message: string): Promise<void>;
+  getSnapshot(): RelaySnapshot;
+}
+
+class ApiError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string,
+    readonly headers: Record<string, string> = {},
+  ) {
+    super(message);
+  }
+}
+
+const digest = (value: string): Buffer =>
+  createHash("sha256").update(value).digest();
+
+/**
+ * Fixed-window request counter per token.
+ */
+class RateLimiter {
+  private readonly windows = new Map<
+    string,
+    { startedAt: number; count: number }
+  >();
+
+  /**
+   * Returns the milliseconds until the next request is allowed, or 0 if the
+   * request may proceed.
+   */
+  take(key: string, limit: number, now = Date.now()): number {
+    const window = this.windows.get(key);
+    if (!window || now - window.startedAt >= RATE_LIMIT_WINDOW_MS) {
+      this.windows.set(key, { startedAt: now, count: 1 });
+      return 0;
+    }
+
+    if (window.count >= limit) {
+      return window.startedAt + RATE_LIMIT_WINDOW_MS - now;
+    }
+
+    window.count += 1;
+    return 0;
+  }
+}
+
+async function readJsonBody(
+  request: IncomingMessage,
+): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ApiError(413, "Request body is too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new ApiError(400, "Request body must be valid JSON");
+  }
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ApiError(400, "Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+const requireMessage = (body: Record<string, unknown>): string => {
+  const message = typeof body.message === "string" ? body.message.trim() : "";
+  if (message.length === 0) {
+    throw new ApiError(400, '"message" must be a non-empty string');
+  }
+  return message;
+};
+
+/**
+ * Creates the handler for the authenticated REST API:
+ *
+ * - `POST /chat` sends `{ message }` into Cubyz chat; server commands are
+ *   refused since they belong to the role-gated Discord admin commands, and
+ *   every attempt is audit-logged
+ * - `POST /notify` sends `{ message }` through every integration
+ * - `GET /players`, `GET /status` and `GET /gamemode` report relay state
+ *
+ * Requests target every server unless `server` is given in the query string
+ * (or the JSON body for POST requests). Each token is limited to its own
+ * `requestsPerMinute`.
+ */
+export function createApiHandler(
+  config: HttpApiConfig,
+  getRelays: () => ApiRelay[],
+  log: Logger,
+): HttpRequestHandler {
+  const limiter = new RateLimiter();
+  const tokens = config.tokens.map((token) => ({
+    ...token,
+    digest: digest(token.token),
+  }));
+
+  const authenticate = (request: IncomingMessage): ApiTokenConfig => {
+    const header = request.headers.authorization ?? "";
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match) {
+      throw new ApiError(401, "Missing bearer token", {
+        "WWW-Authenticate": "Bearer",
+      });
+    }
+
+    // Compare digests so the comparison time does not depend on the token.
+    const candidate = digest(match[1].trim());
+    const token = tokens.find((entry) =>
+      timingSafeEqual(entry.digest, candidate),
+    );
+    if (!token) {
+      throw new ApiError(401, "Invalid token", {
+        "WWW-Authenticate": "Bearer",
+      });
+    }
+    return token;
+  };
+
+  const selectRelays = (server: unknown): ApiRelay[] => {
+    const relays = getRelays();
+    if (server === undefined || server === null || server === "") {
+      return relays;
+    }
+
+    const name = String(server).toLowerCase();
+    const selected = relays.filter(
+      (relay) => relay.server.toLowerCase() === name,
+    );
+    if (selected.length === 0) {
+      throw new ApiError(404, `Unknown server "${server}"`);
+    }
+    return selected;
+  };
+
+  const routes: Record<
+    string,
+    (
+      request: IncomingMessage,
+      url: URL,
+      token: ApiTokenConfig,
+    ) => Promise<{ statusCode: number; body: unknown }>
+  > = {
+    "POST /chat": async (request, url, token) => {
+      const body = await readJsonBody(request);
+      const message = requireMessage(body);
+      const relays = selectRelays(
+        body.server ?? url.searchParams.get("server"),
+      );
+      const quoted = `\`${message.replaceAll("`", "'")}\``;
+
+      if (message.startsWith("/")) {
+        await Promise.all(
+          relays.map((relay) =>
+            relay.audit(`API token **${token.name}** was denied ${quoted}`),
+          ),
+        );
+        throw new ApiError(
+          403,
+          "Server commands cannot be sent through the API",
+        );
+      }
+
+      const results = await Promise.all(
+        relays.map(async (relay) => {
+          try {
+            return {
+              server: relay.server,
+              result: await relay.sendChat(message),
+            };
+          } catch (error) {
+            return {
+              server: relay.server,
+              error: error instanceof Error ? error.message : String(error),
+            };
+          }
+        }),
+      );
+      await Promise.all(
+        relays.map((relay) =>
+          relay.audit(`API token **${token.name}** sent ${quoted}`),
+        ),
+      );
+      const failed = results.every((result) => "error" in result);
+      return { statusCode: failed ? 503 : 200, body: { results } };
+    },
+    "POST /notify": async (request, url) => {
+      const body = await readJsonBody(request);
+      const message = requireMessage(body);
+      const relays = selectRelays(
+        body.server ?? url.searchParams.get("server"),
+      );
+      await Promise.all(relays.map((relay) => relay.notify(message)));
+      return {
+        statusCode: 200,
+        body: { servers: relays.map((relay) => relay.server) },
+      };
+    },
+    "GET /players": async (_request, url) => ({
+      statusCode: 200,
+      body: {
+        servers: selectRelays(url.searchParams.get("server")).map((relay) => ({
+          server: relay.server,
+          players: relay.getSnapshot().players,
+        })),
+      },
+    }),
+    "GET /status": async (_request, url) => ({
+      statusCode: 200,
+      body: {
+        servers: selectRelays(url.searchParams.get("server")).map((relay) => {
+          const { status, players } = relay.getSnapshot();
+          return { server: relay.server, status, playerCount: players.length };
+        }),
+      },
+    }),
+    "GET /gamemode": async (_request, url) => ({
+      statusCode: 200,
+      body: {
+        servers: selectRelays(url.searchParams.get("server")).map((relay) => ({
+          server: relay.server,
+          gamemode: relay.getSnapshot().gamemode,
+        })),
+      },
+    }),
+  };
+
+  return async (
+    request: IncomingMessage,
+    response: ServerResponse,
+    url: URL,
+  ): Promise<boolean> => {
+    const route = routes[`${request.method} ${url.pathname}`];
+    if (!route) {
+      return false;
+    }
+
+    try {
+      const token = authenticate(request);
+      const retryAfterMs = limiter.take(token.name, token.requestsPerMinute);
+      if (retryAfterMs > 0) {
+        throw new ApiError(429, "Rate limit exceeded", {
+          "Retry-After": String(Math.ceil(retryAfterMs / 1000)),
+        });
+      }
+
+      const { statusCode, body } = await route(request, url, token);
+      log(
+        "debug",
+        `[API] ${token.name}: ${request.method} ${url.pathname} -> ${statusCode}`,
+      );
+      sendJson(response, statusCode, body);
+    } catch (error) {
+      if (!(error instanceof ApiError)) {
+        throw error;
+      }
+      sendJson(
+        response,
+        error.statusCode,
+        { error: error.message },
+        error.headers,
+      );
+    }
+    return true;
+  };
+}
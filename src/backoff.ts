@@ -0,0 +1,74 @@
+import type { ConnectionRetryConfig } from "./types.js";
+
+export type BackoffConfig = Pick<
+  ConnectionRetryConfig,
+  "maxRetries" | "retryDelayMs" | "backoffMultiplier" | "maxDelayMs" | "jitter"
+>;
+
+export interface BackoffStep {
+  attempt: number;
+  maxRetries: number | null;
+  delayMs: number;
+}
+
+/**
+ * Computes the delay before reconnect attempt `attempt` (starting at 1):
+ * `retryDelayMs * backoffMultiplier^(attempt - 1)`, capped at `maxDelayMs`
+ * and spread by up to `jitter` (a ratio) in either direction.
+ */
+export function computeBackoffDelay(
+  config: BackoffConfig,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const base = Math.min(
+    config.retryDelayMs * config.backoffMultiplier ** exponent,
+    config.maxDelayMs,
+  );
+  const spread = base * config.jitter * (random() * 2 - 1);
+  return Math.round(Math.min(Math.max(0, base + spread), config.maxDelayMs));
+}
+
+/**
+ * Tracks reconnect attempts for one connection.
+ */
+export class ReconnectBackoff {
+  private attempt = 0;
+
+  constructor(
+    private config: BackoffConfig,
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  get attempts(): number {
+    return this.attempt;
+  }
+
+  configure(config: BackoffConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Advances to the next attempt, or returns null once `maxRetries` attempts
+   * have been used (`0` means unlimited).
+   */
+  next(): BackoffStep | null {
+    const maxRetries =
+      this.config.maxRetries > 0 ? this.config.maxRetries : null;
+    if (maxRetries !== null && this.attempt >= maxRetries) {
+      return null;
+    }
+
+    this.attempt += 1;
+    return {
+      attempt: this.attempt,
+      maxRetries,
+      delayMs: computeBackoffDelay(this.config, this.attempt, this.random),
+    };
+  }
+
+  reset(): void {
+    this.attempt = 0;
+  }
+}
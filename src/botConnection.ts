@@ -9,10 +9,23 @@ import type {
   GenericUpdate,
   PlayersEvent,
 } from "cubyz-node-client/dist/connection.js";
-import { parseChatMessage } from "./chatParser.js";
+import { ReconnectBackoff } from "./backoff.js";
+import {
+  type ChatParsingConfig,
+  type CompiledParseRule,
+  compileIgnorePatterns,
+  compileParseRules,
+  createSystemMessage,
+  parseChatMessage,
+} from "./chatParser.js";
 import { createLogger, type Logger } from "./logger.js";
 import { cleanUsername } from "./messageFormatter.js";
+import {
+  type OutboundMessageCallbacks,
+  OutboundQueue,
+} from "./outboundQueue.js";
 import type {
+  BuiltInEventType,
   ChatMessage,
   ConnectionRetryConfig,
   CubyzConnectionConfig,
@@ -46,34 +59,67 @@ type BotConnectionEvents = {
   gamemode: [Gamemode];
 };
 
-type ConnectionState = "stopped" | "connecting" | "connected";
+export type ConnectionState = "stopped" | "connecting" | "connected";
+
+export type SendChatResult = "sent" | "queued";
+
+export interface SendChatOptions extends OutboundMessageCallbacks {
+  /**
+   * Sends ahead of queued messages and never queues, e.g. for startup
+   * commands that must run before the backlog is delivered.
+   */
+  immediate?: boolean;
+}
 
 const toNormalized = (value: string): string => value.toLowerCase();
 
+const PLAYER_EVENT_TYPES: ReadonlySet<string> = new Set<BuiltInEventType>([
+  "chat",
+  "join",
+  "leave",
+  "death",
+]);
+
 export class BotConnectionManager extends EventEmitter {
   private connection: CubyzConnection | null = null;
   private state: ConnectionState = "stopped";
   private reconnectTimer: NodeJS.Timeout | null = null;
-  private retryAttempt = 0;
+  private readonly backoff: ReconnectBackoff;
   private requestedStop = false;
-  private readonly botNormalizedName: string;
-  private readonly excludedNormalizedNames: Set<string>;
+  private botNormalizedName: string;
+  private excludedNormalizedNames: Set<string>;
+  private parseRules: CompiledParseRule[];
+  private systemIgnorePatterns: RegExp[];
+  private readonly outboundQueue: OutboundQueue;
+  /** Set on connect until `flushQueue` runs, so new messages keep their order. */
+  private awaitingFlush = false;
   private readonly log: Logger;
 
   constructor(
-    private readonly connectionConfig: CubyzConnectionConfig,
-    private readonly retryConfig: ConnectionRetryConfig,
+    private connectionConfig: CubyzConnectionConfig,
+    private retryConfig: ConnectionRetryConfig,
     private readonly logLevel: LogLevel,
-    private readonly excludeBotFromCount: boolean,
+    private excludeBotFromCount: boolean,
     excludedUsernames: readonly string[],
+    private serverName?: string,
+    chatParsing: ChatParsingConfig = {
+      parseRules: [],
+      systemIgnorePatterns: [],
+    },
   ) {
     super();
+    this.parseRules = compileParseRules(chatParsing.parseRules);
+    this.systemIgnorePatterns = compileIgnorePatterns(
+      chatParsing.systemIgnorePatterns,
+    );
     this.botNormalizedName = toNormalized(
       cleanUsername(this.connectionConfig.botName ?? ""),
     );
     this.excludedNormalizedNames = new Set(
       excludedUsernames.map((name) => toNormalized(cleanUsername(name))),
     );
+    this.backoff = new ReconnectBackoff(this.retryConfig);
+    this.outboundQueue = new OutboundQueue(this.retryConfig.queue);
     this.log = createLogger(logLevel);
   }
 
@@ -110,7 +156,7 @@ export class BotConnectionManager extends EventEmitter {
       return;
     }
     this.requestedStop = false;
-    this.retryAttempt = 0;
+    this.backoff.reset();
     this.state = "connecting";
     await this.tryConnect();
   }
@@ -118,7 +164,7 @@ export class BotConnectionManager extends EventEmitter {
   async stop(): Promise<void> {
     this.requestedStop = true;
     this.clearReconnectTimer();
-    this.retryAttempt = 0;
+    this.backoff.reset();
     const connection = this.connection;
     if (connection) {
       this.detachListeners(connection);
@@ -129,17 +175,113 @@ export class BotConnectionManager extends EventEmitter {
     this.emit("disconnected", { reason: "stopped" });
   }
 
-  async sendChat(message: string): Promise<void> {
+  /**
+   * Applies settings from a reloaded configuration. Roster filters, parse
+   * rules and retry settings take effect immediately; only a changed Cubyz
+   * connection causes a reconnect.
+   */
+  async reconfigure(
+    connectionConfig: CubyzConnectionConfig,
+    retryConfig: ConnectionRetryConfig,
+    excludeBotFromCount: boolean,
+    excludedUsernames: readonly string[],
+    serverName?: string,
+    chatParsing: ChatParsingConfig = {
+      parseRules: [],
+      systemIgnorePatterns: [],
+    },
+  ): Promise<void> {
+    const connectionChanged =
+      JSON.stringify(connectionConfig) !==
+      JSON.stringify(this.connectionConfig);
+
+    this.connectionConfig = connectionConfig;
+    this.retryConfig = retryConfig;
+    this.backoff.configure(retryConfig);
+    this.outboundQueue.configure(retryConfig.queue);
+    this.excludeBotFromCount = excludeBotFromCount;
+    this.serverName = serverName;
+    this.parseRules = compileParseRules(chatParsing.parseRules);
+    this.systemIgnorePatterns = compileIgnorePatterns(
+      chatParsing.systemIgnorePatterns,
+    );
+    this.botNormalizedName = toNormalized(
+      cleanUsername(connectionConfig.botName ?? ""),
+    );
+    this.excludedNormalizedNames = new Set(
+      excludedUsernames.map((name) => toNormalized(cleanUsername(name))),
+    );
+
+    if (connectionChanged) {
+      this.log("info", "Cubyz connection settings changed, reconnecting...");
+      await this.stop();
+      await this.start();
+    }
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Sends a chat message, or queues it while the server is unreachable.
+   * Queued messages are delivered by `flushQueue` once the connection is
+   * back; the callbacks report whether that happened.
+   */
+  async sendChat(
+    message: string,
+    options: SendChatOptions = {},
+  ): Promise<SendChatResult> {
     const trimmed = message.trim();
     if (trimmed.length === 0) {
-      return;
+      return "sent";
     }
 
-    if (this.state !== "connected" || !this.connection) {
+    const connected = this.state === "connected" && this.connection !== null;
+    const mustWait =
+      !connected || (this.awaitingFlush && this.outboundQueue.size > 0);
+
+    if (!mustWait || options.immediate) {
+      if (!connected || !this.connection) {
+        throw new Error("Cannot send chat: not connected to Cubyz server.");
+      }
+      this.connection.sendChat(trimmed);
+      return "sent";
+    }
+
+    if (!this.outboundQueue.enabled) {
       throw new Error("Cannot send chat: not connected to Cubyz server.");
     }
 
-    this.connection.sendChat(trimmed);
+    if (!this.outboundQueue.enqueue(trimmed, options)) {
+      throw new Error("Cannot send chat: outbound queue is full.");
+    }
+
+    this.log(
+      "debug",
+      `Queued chat message (${this.outboundQueue.size} waiting for delivery).`,
+    );
+    return "queued";
+  }
+
+  /**
+   * Delivers messages queued while disconnected, in order. Called after the
+   * startup messages so server commands run before the backlog.
+   */
+  flushQueue(): number {
+    this.awaitingFlush = false;
+    const connection = this.connection;
+    if (this.state !== "connected" || !connection) {
+      return 0;
+    }
+
+    const delivered = this.outboundQueue.drain((text) =>
+      connection.sendChat(text),
+    );
+    if (delivered > 0) {
+      this.log("info", `Delivered ${delivered} queued chat message(s).`);
+    }
+    return delivered;
   }
 
   private async tryConnect(): Promise<void> {
@@ -184,7 +326,8 @@ export class BotConnectionManager extends EventEmitter {
 
   private readonly handleConnected = (): void => {
     this.state = "connected";
-    this.retryAttempt = 0;
+    this.awaitingFlush = true;
+    this.backoff.reset();
     this.log(
       "debug",
       `Connected to ${this.connectionConfig.host}:${this.connectionConfig.port}`,
@@ -198,8 +341,13 @@ export class BotConnectionManager extends EventEmitter {
       return;
     }
 
-    const chatMessage = parseChatMessage(trimmed);
+    const chatMessage =
+      parseChatMessage(trimmed, this.parseRules) ??
+      createSystemMessage(trimmed, this.systemIgnorePatterns);
     if (chatMessage) {
+      if (this.serverName) {
+        chatMessage.server = this.serverName;
+      }
       this.emitChatMessage(chatMessage);
     }
   };
@@ -274,7 +422,12 @@ export class BotConnectionManager extends EventEmitter {
   }
 
   private emitChatMessage(chatMessage: ChatMessage): void {
-    if (chatMessage.username.length === 0) {
+    // Player events need a name; system lines and custom rule events may not
+    // have one.
+    if (
+      PLAYER_EVENT_TYPES.has(chatMessage.type) &&
+      chatMessage.username.length === 0
+    ) {
       return;
     }
     this.emit("chat", chatMessage);
@@ -282,28 +435,20 @@ export class BotConnectionManager extends EventEmitter {
 
   private scheduleReconnect(): void {
     this.clearReconnectTimer();
-    this.retryAttempt += 1;
-    const maxRetries =
-      this.retryConfig.maxRetries > 0 ? this.retryConfig.maxRetries : null;
-    if (maxRetries !== null && this.retryAttempt > maxRetries) {
-      this.log(
-        "error",
-        `Failed to reconnect after ${this.retryAttempt - 1} attempts`,
-      );
+    const step = this.backoff.next();
+    if (!step) {
+      const attempts = this.backoff.attempts;
+      this.log("error", `Failed to reconnect after ${attempts} attempts`);
       this.emit("disconnected", {
         reason: "retries-exhausted",
-        attempts: this.retryAttempt - 1,
+        attempts,
       });
       this.state = "stopped";
       return;
     }
 
-    const delayMs = Math.round(this.retryConfig.retryDelayMs);
-    this.emit("reconnecting", {
-      attempt: this.retryAttempt,
-      maxRetries,
-      delayMs,
-    });
+    const { delayMs } = step;
+    this.emit("reconnecting", step);
 
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
@@ -0,0 +1,177 @@
+import type { CensorRule } from "./types.js";
+
+export const DEFAULT_CENSOR_REPLACEMENT = "||beep||";
+
+const LEETSPEAK: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "8": "b",
+  "@": "a",
+  $: "s",
+};
+
+// Cyrillic and Greek letters that render like Latin ones, keyed by their
+// lowercase form.
+const HOMOGLYPHS: Record<string, string> = {
+  а: "a",
+  в: "b",
+  е: "e",
+  і: "i",
+  ј: "j",
+  к: "k",
+  м: "m",
+  н: "h",
+  о: "o",
+  р: "p",
+  с: "c",
+  ѕ: "s",
+  т: "t",
+  у: "y",
+  х: "x",
+  α: "a",
+  ε: "e",
+  ι: "i",
+  κ: "k",
+  ν: "v",
+  ο: "o",
+  ρ: "p",
+  τ: "t",
+  υ: "u",
+};
+
+const COMBINING_MARKS = /\p{M}/gu;
+const REGEX_SPECIAL_CHARACTERS = /[.*+?^${}()|[\]\\]/g;
+
+interface NormalizedText {
+  text: string;
+  /** Offset in the original text of each UTF-16 unit in `text`. */
+  starts: number[];
+  /** End offset in the original text of each UTF-16 unit in `text`. */
+  ends: number[];
+}
+
+const foldCharacter = (character: string): string =>
+  Array.from(
+    character.toLowerCase().normalize("NFKD").replace(COMBINING_MARKS, ""),
+    (folded) => LEETSPEAK[folded] ?? HOMOGLYPHS[folded] ?? folded,
+  ).join("");
+
+function normalizeWithOffsets(input: string): NormalizedText {
+  const result: NormalizedText = { text: "", starts: [], ends: [] };
+  let offset = 0;
+  for (const character of input) {
+    const folded = foldCharacter(character);
+    const end = offset + character.length;
+    for (let index = 0; index < folded.length; index += 1) {
+      result.starts.push(offset);
+      result.ends.push(end);
+    }
+    result.text += folded;
+    offset = end;
+  }
+  return result;
+}
+
+/**
+ * Lowercases text and folds accents, leetspeak digits and symbols, and
+ * Cyrillic or Greek look-alikes to plain Latin letters, so "Ѕ3cr3t" and
+ * "secret" compare equal. Censor rules are matched against this form.
+ */
+export function normalizeCensorText(input: string): string {
+  return normalizeWithOffsets(input).text;
+}
+
+/**
+ * Compiles a censor rule into a global regular expression. `word` and
+ * `substring` rules match normalized text, while `regex` rules match the
+ * original text so digits and symbols in the pattern keep their meaning.
+ * Throws if a `regex` rule is not a valid pattern.
+ */
+export function compileCensorRule(rule: CensorRule): RegExp {
+  if (rule.mode === "regex") {
+    return new RegExp(rule.pattern, "giu");
+  }
+
+  const term = normalizeCensorText(rule.pattern.trim()).replace(
+    REGEX_SPECIAL_CHARACTERS,
+    "\\$&",
+  );
+  return rule.mode === "substring"
+    ? new RegExp(term, "gu")
+    : new RegExp(`(?<![\\p{L}\\p{N}])${term}(?![\\p{L}\\p{N}])`, "gu");
+}
+
+interface CompiledRule {
+  regex: RegExp;
+  normalized: boolean;
+}
+
+const compiledRules = new WeakMap<readonly CensorRule[], CompiledRule[]>();
+
+function getCompiledRules(rules: readonly CensorRule[]): CompiledRule[] {
+  let compiled = compiledRules.get(rules);
+  if (!compiled) {
+    compiled = rules.map((rule) => ({
+      regex: compileCensorRule(rule),
+      normalized: rule.mode !== "regex",
+    }));
+    compiledRules.set(rules, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Replaces every span of `input` that matches a censor rule. Word and
+ * substring matches found in the normalized text are mapped back, so the rest
+ * of the message keeps its original spelling.
+ */
+export function censorText(
+  input: string,
+  rules: readonly CensorRule[],
+  replacement = DEFAULT_CENSOR_REPLACEMENT,
+): string {
+  if (!input || rules.length === 0) {
+    return input;
+  }
+
+  const normalized = normalizeWithOffsets(input);
+  const spans: [number, number][] = [];
+  for (const rule of getCompiledRules(rules)) {
+    const text = rule.normalized ? normalized.text : input;
+    for (const match of text.matchAll(rule.regex)) {
+      if (match[0].length === 0) {
+        continue;
+      }
+      spans.push(
+        rule.normalized
+          ? [
+              normalized.starts[match.index],
+              normalized.ends[match.index + match[0].length - 1],
+            ]
+          : [match.index, match.index + match[0].length],
+      );
+    }
+  }
+
+  if (spans.length === 0) {
+    return input;
+  }
+
+  spans.sort((left, right) => left[0] - right[0]);
+  let result = "";
+  let position = 0;
+  for (const [start, end] of spans) {
+    if (end <= position) {
+      continue;
+    }
+    if (start >= position) {
+      result += `${input.slice(position, start)}${replacement}`;
+    }
+    position = end;
+  }
+  return result + input.slice(position);
+}
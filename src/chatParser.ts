@@ -1,9 +1,98 @@
 import { cleanUsername } from "./messageFormatter.js";
-import type { ChatMessage } from "./types.js";
+import type { ChatMessage, ChatParseRule, Config, EventType } from "./types.js";
 
-export function parseChatMessage(message: string): ChatMessage | null {
+export type ChatParsingConfig = Pick<
+  Config,
+  "parseRules" | "systemIgnorePatterns"
+>;
+
+export interface CompiledParseRule {
+  type: EventType;
+  regex: RegExp;
+}
+
+export function compileParseRules(
+  rules: readonly ChatParseRule[],
+): CompiledParseRule[] {
+  return rules.map((rule) => ({
+    type: rule.type,
+    regex: new RegExp(rule.pattern, rule.flags),
+  }));
+}
+
+export function compileIgnorePatterns(patterns: readonly string[]): RegExp[] {
+  return patterns.map((pattern) => new RegExp(pattern, "i"));
+}
+
+/**
+ * Wraps a line no pattern recognized, such as a server broadcast or command
+ * feedback, as a `system` event without a username. Returns null for lines
+ * matching an ignore pattern.
+ */
+export function createSystemMessage(
+  line: string,
+  ignorePatterns: readonly RegExp[] = [],
+): ChatMessage | null {
+  if (ignorePatterns.some((pattern) => pattern.test(line))) {
+    return null;
+  }
+
+  return {
+    type: "system",
+    rawUsername: "",
+    username: "",
+    message: line,
+    timestamp: new Date(),
+  };
+}
+
+function applyParseRule(
+  rule: CompiledParseRule,
+  message: string,
+  timestamp: Date,
+): ChatMessage | null {
+  const match = rule.regex.exec(message);
+  if (!match) {
+    return null;
+  }
+
+  const { username = "", message: text, ...groups } = match.groups ?? {};
+  const metadata: Record<string, string> = {};
+  for (const [key, value] of Object.entries(groups)) {
+    if (value !== undefined && value.trim().length > 0) {
+      metadata[key] = value.trim();
+    }
+  }
+
+  const rawUsername = username.trim();
+  return {
+    type: rule.type,
+    rawUsername,
+    username: cleanUsername(rawUsername),
+    ...(text !== undefined ? { message: text.trim() } : {}),
+    timestamp,
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+  };
+}
+
+/**
+ * Classifies a chat line. Configured parse rules are tried in order before
+ * the built-in patterns, so they can also reclassify lines those would
+ * otherwise misread.
+ */
+export function parseChatMessage(
+  message: string,
+  rules: readonly CompiledParseRule[] = [],
+): ChatMessage | null {
   const timestamp = new Date();
 
+  for (const rule of rules) {
+    const parsed = applyParseRule(rule, message, timestamp);
+    if (parsed) {
+      return parsed;
+    }
+  }
+
   const chatMatch = /^\[(.+?)\]\s*([\s\S]*)$/.exec(message);
   if (chatMatch) {
     const rawUsername = chatMatch[1].trim();
@@ -43,12 +132,14 @@ export function parseChatMessage(message: string): ChatMessage | null {
   if (deathMatch) {
     const rawUsername = deathMatch[1].trim();
     const message = `died${deathMatch[2]}`.trim();
+    const cause = deathMatch[2].trim();
     return {
       type: "death",
       rawUsername,
       username: cleanUsername(rawUsername),
       message,
       timestamp,
+      ...(cause.length > 0 ? { metadata: { cause } } : {}),
     };
   }
 
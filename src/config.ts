@@ -2,21 +2,61 @@ import { access, copyFile, mkdir, readFile } from "node:fs/promises";
 import path from "node:path";
 import process from "node:process";
 import { fileURLToPath } from "node:url";
+import { ADMIN_COMMAND_NAMES } from "./adminCommands.js";
+import { compileCensorRule, DEFAULT_CENSOR_REPLACEMENT } from "./censor.js";
+import { GAME_COMMAND_NAMES } from "./gameCommands.js";
 import { createLogger } from "./logger.js";
+import { MENTION_ALIAS_PATTERN } from "./mentions.js";
+import {
+  DEFAULT_TEMPLATES,
+  TEMPLATE_PLACEHOLDERS,
+  templatePlaceholders,
+} from "./templates.js";
 import type {
+  AdminCommandName,
   AllowedMentionType,
+  ApiTokenConfig,
+  CensorMatchMode,
+  CensorRule,
+  ChatParseRule,
   Config,
   ConnectionRetryConfig,
   CubyzConnectionConfig,
   CubyzListSiteConfig,
+  DiscordAdminConfig,
+  EventChannelMap,
   EventType,
+  GameCommandName,
+  GameCommandsConfig,
+  HttpServerConfig,
   IntegrationConfig,
+  IntegrationPluginConfig,
+  IrcConfig,
   LogLevel,
+  MatrixConfig,
+  MessageTemplates,
+  OutboundQueueConfig,
+  ServerConfig,
+  ServerDiscordConfig,
+  WebhookEndpointConfig,
+  WebhookEventType,
+  WebhooksConfig,
 } from "./types.js";
 
 const DEFAULT_EVENTS: EventType[] = ["join", "leave", "death", "chat"];
-const SUPPORTED_EVENTS: EventType[] = [...DEFAULT_EVENTS];
-const DEFAULT_CENSORLIST: string[] = [];
+// `system` is opt-in: unrecognized lines include a lot of command feedback.
+const SUPPORTED_EVENTS: EventType[] = [...DEFAULT_EVENTS, "system"];
+const PARSE_RULE_TYPE_PATTERN = /^[a-z][a-z0-9_-]*$/;
+const PARSE_RULE_FLAGS_PATTERN = /^[imsu]*$/;
+const DEFAULT_CENSORLIST: CensorRule[] = [];
+const DEFAULT_LINK_CODE_TTL_MS = 10 * 60 * 1000;
+const MAX_LINK_CODE_TTL_MS = 15 * 60 * 1000;
+const DEFAULT_ADMIN_RESPONSE_WINDOW_MS = 2000;
+const MAX_ADMIN_RESPONSE_WINDOW_MS = 10_000;
+const DISCORD_ID_PATTERN = /^\d{17,20}$/;
+const DEFAULT_GAME_COMMAND_COOLDOWN_MS = 10_000;
+const MAX_GAME_COMMAND_PREFIX_LENGTH = 3;
+const CENSOR_MATCH_MODES: CensorMatchMode[] = ["word", "substring", "regex"];
 const DEFAULT_EXCLUDED_USERNAMES: string[] = [];
 const DEFAULT_CUBYZ: CubyzConnectionConfig = {
   host: "127.0.0.1",
@@ -28,11 +68,65 @@ const DEFAULT_CONNECTION: ConnectionRetryConfig = {
   reconnect: true,
   maxRetries: 0,
   retryDelayMs: 30000,
+  backoffMultiplier: 2,
+  maxDelayMs: 5 * 60 * 1000,
+  jitter: 0.2,
+  queue: {
+    enabled: true,
+    maxSize: 50,
+    maxAgeMs: 5 * 60 * 1000,
+  },
 };
 const DEFAULT_ALLOWED_MENTIONS: AllowedMentionType[] = [];
+const DEFAULT_WEBHOOK_NAME = "Cubyz Relay";
 const DEFAULT_EXCLUDE_BOT_FROM_COUNT = true;
 const DEFAULT_STARTUP_MESSAGE_DELAY = 0;
 const DEFAULT_LOG_LEVEL: LogLevel = "info";
+const DEFAULT_DATA_DIRECTORY = "data";
+const DEFAULT_HTTP: HttpServerConfig = {
+  enabled: false,
+  host: "127.0.0.1",
+  port: 9464,
+  api: {
+    enabled: false,
+    tokens: [],
+  },
+};
+const DEFAULT_API_REQUESTS_PER_MINUTE = 60;
+const WEBHOOK_EVENTS: WebhookEventType[] = [
+  ...DEFAULT_EVENTS,
+  "players",
+  "status",
+  "gamemode",
+];
+const DEFAULT_IRC: IrcConfig = {
+  enabled: false,
+  host: "",
+  port: 6697,
+  tls: true,
+  nick: "CubyzRelay",
+  username: "cubyzrelay",
+  realname: "Cubyz Discord Relay",
+  channel: "",
+  reconnectDelayMs: 30000,
+};
+const IRC_NICK_PATTERN = /^[A-Za-z[\]\\`_^{|}][A-Za-z0-9[\]\\`_^{|}-]*$/;
+const DEFAULT_MATRIX: MatrixConfig = {
+  enabled: false,
+  homeserverUrl: "",
+  accessToken: "",
+  roomId: "",
+  enableReplies: true,
+  syncTimeoutMs: 30000,
+};
+const DEFAULT_WEBHOOKS: WebhooksConfig = {
+  enabled: false,
+  endpoints: [],
+  maxRetries: 8,
+  retryDelayMs: 5000,
+  maxQueueSize: 500,
+};
+const MIN_API_TOKEN_LENGTH = 16;
 const ALLOWED_LOG_LEVELS: readonly LogLevel[] = [
   "error",
   "debug",
@@ -117,21 +211,603 @@ function coerceString(value: unknown, fallback: string): string {
     : fallback;
 }
 
+function normalizeCubyz(
+  partial: Partial<CubyzConnectionConfig> | undefined,
+  fallback: CubyzConnectionConfig,
+): CubyzConnectionConfig {
+  return {
+    host: coerceString(partial?.host, fallback.host),
+    port: coercePort(partial?.port, fallback.port),
+    botName:
+      (typeof partial?.botName === "string"
+        ? partial.botName.trim()
+        : fallback.botName) || undefined,
+    version: coerceString(partial?.version, fallback.version),
+  };
+}
+
+type PartialConnectionConfig = Partial<Omit<ConnectionRetryConfig, "queue">> & {
+  queue?: Partial<OutboundQueueConfig>;
+};
+
+function normalizeOutboundQueue(
+  partial: Partial<OutboundQueueConfig> | undefined,
+  fallback: OutboundQueueConfig,
+): OutboundQueueConfig {
+  return {
+    enabled:
+      typeof partial?.enabled === "boolean"
+        ? partial.enabled
+        : fallback.enabled,
+    maxSize:
+      typeof partial?.maxSize === "number" &&
+      Number.isInteger(partial.maxSize) &&
+      partial.maxSize > 0
+        ? partial.maxSize
+        : fallback.maxSize,
+    maxAgeMs:
+      typeof partial?.maxAgeMs === "number" && partial.maxAgeMs > 0
+        ? Math.floor(partial.maxAgeMs)
+        : fallback.maxAgeMs,
+  };
+}
+
+function normalizeConnection(
+  partial: PartialConnectionConfig | undefined,
+  fallback: ConnectionRetryConfig,
+): ConnectionRetryConfig {
+  const retryDelayMs =
+    typeof partial?.retryDelayMs === "number" && partial.retryDelayMs >= 0
+      ? Math.floor(partial.retryDelayMs)
+      : fallback.retryDelayMs;
+
+  return {
+    reconnect:
+      typeof partial?.reconnect === "boolean"
+        ? partial.reconnect
+        : fallback.reconnect,
+    maxRetries:
+      typeof partial?.maxRetries === "number" &&
+      Number.isInteger(partial.maxRetries) &&
+      partial.maxRetries >= 0
+        ? partial.maxRetries
+        : fallback.maxRetries,
+    retryDelayMs,
+    backoffMultiplier:
+      typeof partial?.backoffMultiplier === "number" &&
+      partial.backoffMultiplier >= 1
+        ? partial.backoffMultiplier
+        : fallback.backoffMultiplier,
+    // Without an explicit cap, never cap below the initial delay.
+    maxDelayMs:
+      typeof partial?.maxDelayMs === "number" && partial.maxDelayMs >= 0
+        ? Math.floor(partial.maxDelayMs)
+        : Math.max(fallback.maxDelayMs, retryDelayMs),
+    jitter:
+      typeof partial?.jitter === "number" &&
+      partial.jitter >= 0 &&
+      partial.jitter <= 1
+        ? partial.jitter
+        : fallback.jitter,
+    queue: normalizeOutboundQueue(partial?.queue, fallback.queue),
+  };
+}
+
+function normalizeApiTokens(value: unknown): ApiTokenConfig[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.map((entry: Partial<ApiTokenConfig>) => ({
+    name: typeof entry?.name === "string" ? entry.name.trim() : "",
+    token: typeof entry?.token === "string" ? entry.token.trim() : "",
+    requestsPerMinute:
+      typeof entry?.requestsPerMinute === "number"
+        ? entry.requestsPerMinute
+        : DEFAULT_API_REQUESTS_PER_MINUTE,
+  }));
+}
+
+function normalizeCubyzListSite(
+  partial: Partial<CubyzListSiteConfig> | undefined,
+  fallback: CubyzListSiteConfig,
+): CubyzListSiteConfig {
+  return {
+    enabled:
+      typeof partial?.enabled === "boolean"
+        ? partial.enabled
+        : fallback.enabled,
+    serverName: coerceString(partial?.serverName, fallback.serverName),
+    serverIp: coerceString(partial?.serverIp, fallback.serverIp),
+    description:
+      coerceString(partial?.description, fallback.description ?? "") ||
+      undefined,
+    serverPort: coerceOptionalPort(partial?.serverPort) ?? fallback.serverPort,
+    iconUrl:
+      coerceString(partial?.iconUrl, fallback.iconUrl ?? "") || undefined,
+    discordServer:
+      coerceString(partial?.discordServer, fallback.discordServer ?? "") ||
+      undefined,
+    customClientDownloadUrl:
+      coerceString(
+        partial?.customClientDownloadUrl,
+        fallback.customClientDownloadUrl ?? "",
+      ) || undefined,
+  };
+}
+
+function normalizePlugins(value: unknown): IntegrationPluginConfig[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.map((entry) => {
+    // A bare string is shorthand for a plugin without its own settings.
+    if (typeof entry === "string") {
+      return { module: entry.trim(), enabled: true, config: {} };
+    }
+
+    const partial = (entry ?? {}) as Partial<IntegrationPluginConfig>;
+    return {
+      module: typeof partial.module === "string" ? partial.module.trim() : "",
+      enabled: typeof partial.enabled === "boolean" ? partial.enabled : true,
+      config:
+        partial.config &&
+        typeof partial.config === "object" &&
+        !Array.isArray(partial.config)
+          ? partial.config
+          : {},
+    };
+  });
+}
+
+/**
+ * Makes relative plugin paths absolute against the config file's directory,
+ * so plugins load the same whatever directory the relay is started from.
+ */
+function resolvePluginPaths(config: Config, directory: string): Config {
+  const resolvePlugins = (
+    plugins: IntegrationPluginConfig[],
+  ): IntegrationPluginConfig[] =>
+    plugins.map((plugin) =>
+      plugin.module.startsWith(".")
+        ? { ...plugin, module: path.resolve(directory, plugin.module) }
+        : plugin,
+    );
+
+  return {
+    ...config,
+    integration: {
+      ...config.integration,
+      plugins: resolvePlugins(config.integration.plugins),
+    },
+    servers: config.servers.map((server) => ({
+      ...server,
+      integration: {
+        ...server.integration,
+        plugins: resolvePlugins(server.integration.plugins),
+      },
+    })),
+  };
+}
+
+function normalizeParseRules(value: unknown): ChatParseRule[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.map((entry: Partial<ChatParseRule>) => ({
+    type: typeof entry?.type === "string" ? entry.type.trim() : "",
+    pattern: typeof entry?.pattern === "string" ? entry.pattern : "",
+    flags: typeof entry?.flags === "string" ? entry.flags : "",
+  }));
+}
+
+const normalizeRoleIds = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value
+        .filter((entry): entry is string => typeof entry === "string")
+        .map((entry) => entry.trim())
+    : [];
+
+function normalizeAdmin(
+  partial: Partial<DiscordAdminConfig> | undefined,
+): DiscordAdminConfig {
+  const commandRoleIds: DiscordAdminConfig["commandRoleIds"] = {};
+  if (
+    partial?.commandRoleIds &&
+    typeof partial.commandRoleIds === "object" &&
+    !Array.isArray(partial.commandRoleIds)
+  ) {
+    for (const [command, roleIds] of Object.entries(partial.commandRoleIds)) {
+      commandRoleIds[command.trim() as AdminCommandName] =
+        normalizeRoleIds(roleIds);
+    }
+  }
+
+  return {
+    enabled: typeof partial?.enabled === "boolean" ? partial.enabled : false,
+    roleIds: normalizeRoleIds(partial?.roleIds),
+    commandRoleIds,
+    auditChannelId: coerceString(partial?.auditChannelId, "") || undefined,
+    responseWindowMs:
+      typeof partial?.responseWindowMs === "number"
+        ? Math.floor(partial.responseWindowMs)
+        : DEFAULT_ADMIN_RESPONSE_WINDOW_MS,
+  };
+}
+
+function validateAdminConfig(admin: DiscordAdminConfig): void {
+  if (!admin || typeof admin.enabled !== "boolean") {
+    throw new Error(
+      'Configuration error: "discord.admin.enabled" must be a boolean.',
+    );
+  }
+
+  const validateRoleIds = (roleIds: string[], path: string) => {
+    const invalid = roleIds.filter(
+      (roleId) => !DISCORD_ID_PATTERN.test(roleId),
+    );
+    if (invalid.length > 0) {
+      throw new Error(
+        `Configuration error: "${path}" contains invalid role IDs: ${invalid.join(", ")}.`,
+      );
+    }
+  };
+
+  validateRoleIds(admin.roleIds, "discord.admin.roleIds");
+  for (const [command, roleIds] of Object.entries(admin.commandRoleIds)) {
+    if (!ADMIN_COMMAND_NAMES.includes(command as AdminCommandName)) {
+      throw new Error(
+        `Configuration error: "discord.admin.commandRoleIds.${command}" is not an admin command; use one of: ${ADMIN_COMMAND_NAMES.join(", ")}.`,
+      );
+    }
+    validateRoleIds(roleIds ?? [], `discord.admin.commandRoleIds.${command}`);
+  }
+
+  if (
+    !Number.isInteger(admin.responseWindowMs) ||
+    admin.responseWindowMs < 0 ||
+    admin.responseWindowMs > MAX_ADMIN_RESPONSE_WINDOW_MS
+  ) {
+    throw new Error(
+      `Configuration error: "discord.admin.responseWindowMs" must be between 0 and ${MAX_ADMIN_RESPONSE_WINDOW_MS}.`,
+    );
+  }
+
+  const hasRoles =
+    admin.roleIds.length > 0 ||
+    Object.values(admin.commandRoleIds).some(
+      (roleIds) => (roleIds ?? []).length > 0,
+    );
+  if (admin.enabled && !hasRoles) {
+    throw new Error(
+      'Configuration error: "discord.admin.roleIds" must list at least one role ID when admin commands are enabled.',
+    );
+  }
+}
+
+function normalizeGameCommands(
+  partial: Partial<GameCommandsConfig> | undefined,
+): GameCommandsConfig {
+  return {
+    enabled: typeof partial?.enabled === "boolean" ? partial.enabled : false,
+    prefix: coerceString(partial?.prefix, "!"),
+    commands: Array.isArray(partial?.commands)
+      ? (partial.commands as unknown[])
+          .filter((entry): entry is string => typeof entry === "string")
+          .map((entry) => entry.trim().toLowerCase() as GameCommandName)
+      : [...GAME_COMMAND_NAMES],
+    cooldownMs:
+      typeof partial?.cooldownMs === "number"
+        ? Math.floor(partial.cooldownMs)
+        : DEFAULT_GAME_COMMAND_COOLDOWN_MS,
+    rules: Array.isArray(partial?.rules)
+      ? partial.rules
+          .filter((entry): entry is string => typeof entry === "string")
+          .map((entry) => entry.trim())
+          .filter((entry) => entry.length > 0)
+      : [],
+  };
+}
+
+function validateGameCommands(gameCommands: GameCommandsConfig): void {
+  if (!gameCommands || typeof gameCommands.enabled !== "boolean") {
+    throw new Error(
+      'Configuration error: "gameCommands.enabled" must be a boolean.',
+    );
+  }
+
+  if (
+    gameCommands.prefix.length === 0 ||
+    gameCommands.prefix.length > MAX_GAME_COMMAND_PREFIX_LENGTH ||
+    /\s/.test(gameCommands.prefix)
+  ) {
+    throw new Error(
+      `Configuration error: "gameCommands.prefix" must be 1 to ${MAX_GAME_COMMAND_PREFIX_LENGTH} characters without spaces.`,
+    );
+  }
+
+  const unknown = gameCommands.commands.filter(
+    (command) => !GAME_COMMAND_NAMES.includes(command),
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Configuration error: "gameCommands.commands" contains unknown commands: ${unknown.join(", ")}; use any of: ${GAME_COMMAND_NAMES.join(", ")}.`,
+    );
+  }
+
+  if (
+    !Number.isInteger(gameCommands.cooldownMs) ||
+    gameCommands.cooldownMs < 0
+  ) {
+    throw new Error(
+      'Configuration error: "gameCommands.cooldownMs" must be a non-negative integer.',
+    );
+  }
+}
+
+function normalizeMentionAliases(value: unknown): Record<string, string> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([name, id]) => [
+      name.trim(),
+      typeof id === "string" ? id.trim() : "",
+    ]),
+  );
+}
+
+/**
+ * Plain strings in the censor list are shorthand for whole-word rules.
+ */
+function normalizeCensorlist(value: unknown): CensorRule[] {
+  if (!Array.isArray(value)) {
+    return DEFAULT_CENSORLIST;
+  }
+
+  return value.flatMap((entry: string | Partial<CensorRule>): CensorRule[] => {
+    if (typeof entry === "string") {
+      const pattern = entry.trim();
+      return pattern.length > 0 ? [{ pattern, mode: "word" }] : [];
+    }
+
+    return [
+      {
+        pattern: typeof entry?.pattern === "string" ? entry.pattern : "",
+        mode: typeof entry?.mode === "string" ? entry.mode : "word",
+      },
+    ];
+  });
+}
+
+function normalizeTemplates(
+  partial: Partial<MessageTemplates> | undefined,
+): MessageTemplates {
+  const pick = (value: unknown, fallback: string): string =>
+    typeof value === "string" && value.length > 0 ? value : fallback;
+
+  const events: MessageTemplates["events"] = { ...DEFAULT_TEMPLATES.events };
+  if (
+    partial?.events &&
+    typeof partial.events === "object" &&
+    !Array.isArray(partial.events)
+  ) {
+    for (const [eventType, template] of Object.entries(partial.events)) {
+      if (typeof template === "string" && template.length > 0) {
+        events[eventType.trim()] = template;
+      }
+    }
+  }
+
+  const { status, relay } = DEFAULT_TEMPLATES;
+  return {
+    events,
+    status: {
+      botJoined: pick(partial?.status?.botJoined, status.botJoined),
+      botLeft: pick(partial?.status?.botLeft, status.botLeft),
+      connected: pick(partial?.status?.connected, status.connected),
+      disconnected: pick(partial?.status?.disconnected, status.disconnected),
+      connectionFailed: pick(
+        partial?.status?.connectionFailed,
+        status.connectionFailed,
+      ),
+      reconnectFailed: pick(
+        partial?.status?.reconnectFailed,
+        status.reconnectFailed,
+      ),
+    },
+    relay: {
+      reply: pick(partial?.relay?.reply, relay.reply),
+      reaction: pick(partial?.relay?.reaction, relay.reaction),
+      reactionWithoutContext: pick(
+        partial?.relay?.reactionWithoutContext,
+        relay.reactionWithoutContext,
+      ),
+    },
+    presence: pick(partial?.presence, DEFAULT_TEMPLATES.presence),
+  };
+}
+
+function normalizeWebhooks(
+  partial: Partial<WebhooksConfig> | undefined,
+  fallback: WebhooksConfig,
+): WebhooksConfig {
+  const nonNegativeInteger = (value: unknown, fallbackValue: number) =>
+    typeof value === "number" && Number.isInteger(value) && value >= 0
+      ? value
+      : fallbackValue;
+
+  return {
+    enabled:
+      typeof partial?.enabled === "boolean"
+        ? partial.enabled
+        : fallback.enabled,
+    endpoints: Array.isArray(partial?.endpoints)
+      ? partial.endpoints.map((entry: Partial<WebhookEndpointConfig>) => ({
+          url: typeof entry?.url === "string" ? entry.url.trim() : "",
+          secret: typeof entry?.secret === "string" ? entry.secret : "",
+          events: Array.isArray(entry?.events)
+            ? Array.from(new Set(entry.events))
+            : [...WEBHOOK_EVENTS],
+        }))
+      : fallback.endpoints,
+    maxRetries: nonNegativeInteger(partial?.maxRetries, fallback.maxRetries),
+    retryDelayMs: nonNegativeInteger(
+      partial?.retryDelayMs,
+      fallback.retryDelayMs,
+    ),
+    maxQueueSize: nonNegativeInteger(
+      partial?.maxQueueSize,
+      fallback.maxQueueSize,
+    ),
+  };
+}
+
+function normalizeIrc(
+  partial: Partial<IrcConfig> | undefined,
+  fallback: IrcConfig,
+): IrcConfig {
+  return {
+    enabled:
+      typeof partial?.enabled === "boolean"
+        ? partial.enabled
+        : fallback.enabled,
+    host: coerceString(partial?.host, fallback.host),
+    port: typeof partial?.port === "number" ? partial.port : fallback.port,
+    tls: typeof partial?.tls === "boolean" ? partial.tls : fallback.tls,
+    nick: coerceString(partial?.nick, fallback.nick),
+    username: coerceString(partial?.username, fallback.username),
+    realname: coerceString(partial?.realname, fallback.realname),
+    channel: coerceString(partial?.channel, fallback.channel),
+    password:
+      coerceString(partial?.password, fallback.password ?? "") || undefined,
+    nickservPassword:
+      coerceString(
+        partial?.nickservPassword,
+        fallback.nickservPassword ?? "",
+      ) || undefined,
+    reconnectDelayMs:
+      typeof partial?.reconnectDelayMs === "number" &&
+      partial.reconnectDelayMs >= 0
+        ? Math.floor(partial.reconnectDelayMs)
+        : fallback.reconnectDelayMs,
+  };
+}
+
+function normalizeMatrix(
+  partial: Partial<MatrixConfig> | undefined,
+  fallback: MatrixConfig,
+): MatrixConfig {
+  return {
+    enabled:
+      typeof partial?.enabled === "boolean"
+        ? partial.enabled
+        : fallback.enabled,
+    homeserverUrl: coerceString(
+      partial?.homeserverUrl,
+      fallback.homeserverUrl,
+    ).replace(/\/+$/, ""),
+    accessToken: coerceString(partial?.accessToken, fallback.accessToken),
+    roomId: coerceString(partial?.roomId, fallback.roomId),
+    enableReplies:
+      typeof partial?.enableReplies === "boolean"
+        ? partial.enableReplies
+        : fallback.enableReplies,
+    syncTimeoutMs:
+      typeof partial?.syncTimeoutMs === "number" && partial.syncTimeoutMs >= 0
+        ? Math.floor(partial.syncTimeoutMs)
+        : fallback.syncTimeoutMs,
+  };
+}
+
+function normalizeChannelMap(value: unknown): EventChannelMap {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+
+  const channels: Record<string, string> = {};
+  for (const [eventType, channelId] of Object.entries(value)) {
+    if (typeof channelId === "string" && channelId.trim().length > 0) {
+      channels[eventType] = channelId.trim();
+    }
+  }
+  return channels as EventChannelMap;
+}
+
+/**
+ * Normalizes a `servers` entry. Any field the entry omits is inherited from the
+ * top-level settings so single-server configs only need to list what differs.
+ */
+function normalizeServer(
+  partial: Partial<ServerConfig> | undefined,
+  defaults: {
+    cubyz: CubyzConnectionConfig;
+    connection: ConnectionRetryConfig;
+    discord: ServerDiscordConfig;
+    integration: IntegrationConfig;
+  },
+): ServerConfig {
+  return {
+    name: coerceString(partial?.name, ""),
+    cubyz: normalizeCubyz(partial?.cubyz, defaults.cubyz),
+    connection: normalizeConnection(partial?.connection, defaults.connection),
+    discord: {
+      channelId: coerceString(
+        partial?.discord?.channelId,
+        defaults.discord.channelId,
+      ),
+      channels: {
+        ...defaults.discord.channels,
+        ...normalizeChannelMap(partial?.discord?.channels),
+      },
+      statusChannelId:
+        coerceString(
+          partial?.discord?.statusChannelId,
+          defaults.discord.statusChannelId ?? "",
+        ) || undefined,
+    },
+    integration:
+      partial?.integration?.cubyzlistSite ||
+      partial?.integration?.plugins ||
+      partial?.integration?.webhooks ||
+      partial?.integration?.irc ||
+      partial?.integration?.matrix
+        ? {
+            cubyzlistSite: partial.integration.cubyzlistSite
+              ? normalizeCubyzListSite(
+                  partial.integration.cubyzlistSite,
+                  defaults.integration.cubyzlistSite,
+                )
+              : defaults.integration.cubyzlistSite,
+            plugins: partial.integration.plugins
+              ? normalizePlugins(partial.integration.plugins)
+              : defaults.integration.plugins,
+            webhooks: normalizeWebhooks(
+              partial.integration.webhooks,
+              defaults.integration.webhooks,
+            ),
+            irc: normalizeIrc(
+              partial.integration.irc,
+              defaults.integration.irc,
+            ),
+            matrix: normalizeMatrix(
+              partial.integration.matrix,
+              defaults.integration.matrix,
+            ),
+          }
+        : defaults.integration,
+  };
+}
+
 function applyDefaults(partial: Partial<Config>): Config {
   const events =
     Array.isArray(partial.events) && partial.events.length > 0
       ? [...partial.events]
       : DEFAULT_EVENTS;
 
-  const censorlistSource = Array.isArray(partial.censorlist)
-    ? partial.censorlist
-    : DEFAULT_CENSORLIST;
-
-  const censorlist = censorlistSource
-    .filter((entry): entry is string => typeof entry === "string")
-    .map((entry) => entry.trim())
-    .filter((entry) => entry.length > 0);
-
   const startupMessages = Array.isArray(partial.startupMessages)
     ? partial.startupMessages
         .filter((entry): entry is string => typeof entry === "string")
@@ -148,12 +824,10 @@ function applyDefaults(partial: Partial<Config>): Config {
     .map((entry) => entry.trim())
     .filter((entry) => entry.length > 0);
 
-  const cubyz: CubyzConnectionConfig = {
-    host: coerceString(partial.cubyz?.host, DEFAULT_CUBYZ.host),
-    port: coercePort(partial.cubyz?.port, DEFAULT_CUBYZ.port),
-    botName: partial.cubyz?.botName?.trim() || undefined,
-    version: coerceString(partial.cubyz?.version, DEFAULT_CUBYZ.version),
-  };
+  const cubyz = normalizeCubyz(partial.cubyz, {
+    ...DEFAULT_CUBYZ,
+    botName: undefined,
+  });
 
   const allowedMentionsSource = Array.isArray(partial.discord?.allowedMentions)
     ? partial.discord.allowedMentions
@@ -163,66 +837,53 @@ function applyDefaults(partial: Partial<Config>): Config {
     new Set(allowedMentionsSource.filter(isAllowedMentionType)),
   );
 
-  const connection: ConnectionRetryConfig = {
-    reconnect:
-      typeof partial.connection?.reconnect === "boolean"
-        ? partial.connection.reconnect
-        : DEFAULT_CONNECTION.reconnect,
-    maxRetries:
-      typeof partial.connection?.maxRetries === "number" &&
-      Number.isInteger(partial.connection.maxRetries) &&
-      partial.connection.maxRetries >= 0
-        ? partial.connection.maxRetries
-        : DEFAULT_CONNECTION.maxRetries,
-    retryDelayMs:
-      typeof partial.connection?.retryDelayMs === "number" &&
-      partial.connection.retryDelayMs >= 0
-        ? Math.floor(partial.connection.retryDelayMs)
-        : DEFAULT_CONNECTION.retryDelayMs,
-  };
+  const connection = normalizeConnection(
+    partial.connection,
+    DEFAULT_CONNECTION,
+  );
 
-  const cubyzlistSite: CubyzListSiteConfig = {
-    enabled:
-      typeof partial.integration?.cubyzlistSite?.enabled === "boolean"
-        ? partial.integration.cubyzlistSite.enabled
-        : DEFAULT_CUBYZLIST_SITE.enabled,
-    serverName: coerceString(
-      partial.integration?.cubyzlistSite?.serverName,
-      DEFAULT_CUBYZLIST_SITE.serverName,
-    ),
-    serverIp: coerceString(
-      partial.integration?.cubyzlistSite?.serverIp,
-      DEFAULT_CUBYZLIST_SITE.serverIp,
+  const integration: IntegrationConfig = {
+    cubyzlistSite: normalizeCubyzListSite(
+      partial.integration?.cubyzlistSite,
+      DEFAULT_CUBYZLIST_SITE,
     ),
-    description:
-      coerceString(
-        partial.integration?.cubyzlistSite?.description,
-        DEFAULT_CUBYZLIST_SITE.description ?? "",
-      ) || undefined,
-    serverPort: coerceOptionalPort(
-      partial.integration?.cubyzlistSite?.serverPort,
+    plugins: normalizePlugins(partial.integration?.plugins),
+    webhooks: normalizeWebhooks(
+      partial.integration?.webhooks,
+      DEFAULT_WEBHOOKS,
     ),
-    iconUrl:
-      coerceString(
-        partial.integration?.cubyzlistSite?.iconUrl,
-        DEFAULT_CUBYZLIST_SITE.iconUrl ?? "",
-      ) || undefined,
-    discordServer:
-      coerceString(
-        partial.integration?.cubyzlistSite?.discordServer,
-        DEFAULT_CUBYZLIST_SITE.discordServer ?? "",
-      ) || undefined,
-    customClientDownloadUrl:
-      coerceString(
-        partial.integration?.cubyzlistSite?.customClientDownloadUrl,
-        DEFAULT_CUBYZLIST_SITE.customClientDownloadUrl ?? "",
-      ) || undefined,
+    irc: normalizeIrc(partial.integration?.irc, DEFAULT_IRC),
+    matrix: normalizeMatrix(partial.integration?.matrix, DEFAULT_MATRIX),
   };
 
-  const integration: IntegrationConfig = {
-    cubyzlistSite,
+  const serverName = coerceString(partial.serverName, "") || undefined;
+  const serverDiscord: ServerDiscordConfig = {
+    channelId: coerceString(partial.discord?.channelId, ""),
+    channels: normalizeChannelMap(partial.discord?.channels),
+    statusChannelId:
+      coerceString(partial.discord?.statusChannelId, "") || undefined,
   };
 
+  const servers =
+    Array.isArray(partial.servers) && partial.servers.length > 0
+      ? (partial.servers as Partial<ServerConfig>[]).map((entry) =>
+          normalizeServer(entry, {
+            cubyz,
+            connection,
+            discord: serverDiscord,
+            integration,
+          }),
+        )
+      : [
+          {
+            name: serverName ?? "",
+            cubyz,
+            connection,
+            discord: serverDiscord,
+            integration,
+          },
+        ];
+
   const logLevel = (() => {
     if (typeof partial.logLevel !== "string") {
       return DEFAULT_LOG_LEVEL;
@@ -236,6 +897,37 @@ function applyDefaults(partial: Partial<Config>): Config {
 
   return {
     logLevel,
+    dataDirectory: coerceString(partial.dataDirectory, DEFAULT_DATA_DIRECTORY),
+    stats: {
+      enabled:
+        typeof partial.stats?.enabled === "boolean"
+          ? partial.stats.enabled
+          : true,
+      weeklyDeathSummary:
+        typeof partial.stats?.weeklyDeathSummary === "boolean"
+          ? partial.stats.weeklyDeathSummary
+          : false,
+    },
+    gameCommands: normalizeGameCommands(partial.gameCommands),
+    http: {
+      enabled:
+        typeof partial.http?.enabled === "boolean"
+          ? partial.http.enabled
+          : DEFAULT_HTTP.enabled,
+      host: coerceString(partial.http?.host, DEFAULT_HTTP.host),
+      port:
+        typeof partial.http?.port === "number"
+          ? partial.http.port
+          : DEFAULT_HTTP.port,
+      api: {
+        enabled:
+          typeof partial.http?.api?.enabled === "boolean"
+            ? partial.http.api.enabled
+            : DEFAULT_HTTP.api.enabled,
+        tokens: normalizeApiTokens(partial.http?.api?.tokens),
+      },
+    },
+    serverName,
     cubyz,
     connection,
     discord: {
@@ -244,7 +936,7 @@ function applyDefaults(partial: Partial<Config>): Config {
           ? partial.discord.enabled
           : true,
       token: coerceString(partial.discord?.token, ""),
-      channelId: coerceString(partial.discord?.channelId, ""),
+      ...serverDiscord,
       allowedMentions,
       enableReactions:
         typeof partial.discord?.enableReactions === "boolean"
@@ -254,9 +946,52 @@ function applyDefaults(partial: Partial<Config>): Config {
         typeof partial.discord?.enableReplies === "boolean"
           ? partial.discord.enableReplies
           : true,
+      mentionAliases: normalizeMentionAliases(partial.discord?.mentionAliases),
+      webhook: {
+        enabled:
+          typeof partial.discord?.webhook?.enabled === "boolean"
+            ? partial.discord.webhook.enabled
+            : false,
+        name: coerceString(
+          partial.discord?.webhook?.name,
+          DEFAULT_WEBHOOK_NAME,
+        ),
+        avatarUrlTemplate:
+          coerceString(partial.discord?.webhook?.avatarUrlTemplate, "") ||
+          undefined,
+      },
+      embeds: {
+        enabled:
+          typeof partial.discord?.embeds?.enabled === "boolean"
+            ? partial.discord.embeds.enabled
+            : false,
+      },
+      admin: normalizeAdmin(partial.discord?.admin),
+      linking: {
+        enabled:
+          typeof partial.discord?.linking?.enabled === "boolean"
+            ? partial.discord.linking.enabled
+            : false,
+        codeTtlMs:
+          typeof partial.discord?.linking?.codeTtlMs === "number"
+            ? Math.floor(partial.discord.linking.codeTtlMs)
+            : DEFAULT_LINK_CODE_TTL_MS,
+      },
     },
     events: events as EventType[],
-    censorlist,
+    parseRules: normalizeParseRules(partial.parseRules),
+    systemIgnorePatterns: Array.isArray(partial.systemIgnorePatterns)
+      ? partial.systemIgnorePatterns.filter(
+          (entry): entry is string =>
+            typeof entry === "string" && entry.length > 0,
+        )
+      : [],
+    censorlist: normalizeCensorlist(partial.censorlist),
+    censorReplacement:
+      typeof partial.censorReplacement === "string"
+        ? partial.censorReplacement
+        : DEFAULT_CENSOR_REPLACEMENT,
+    templates: normalizeTemplates(partial.templates),
     startupMessages,
     startupMessageDelay:
       typeof partial.startupMessageDelay === "number" &&
@@ -269,32 +1004,47 @@ function applyDefaults(partial: Partial<Config>): Config {
         : DEFAULT_EXCLUDE_BOT_FROM_COUNT,
     excludedUsernames,
     integration,
+    servers,
   };
 }
 
 function finalizeConfig(config: Config): Config {
-  const cubyzlist = config.integration.cubyzlistSite;
-  if (!cubyzlist.enabled) {
-    return config;
-  }
+  const log = createLogger(config.logLevel);
+  const checked = new Set<CubyzListSiteConfig>();
+  const targets = [
+    { path: "integration.cubyzlistSite", config: config.integration },
+    ...config.servers.map((server, index) => ({
+      path: `servers[${index}].integration.cubyzlistSite`,
+      config: server.integration,
+    })),
+  ];
+
+  for (const target of targets) {
+    const cubyzlist = target.config.cubyzlistSite;
+    if (!cubyzlist.enabled || checked.has(cubyzlist)) {
+      continue;
+    }
+    checked.add(cubyzlist);
 
-  const missingFields: string[] = [];
-  if (cubyzlist.serverName.length === 0) {
-    missingFields.push("integration.cubyzlistSite.serverName");
-  }
-  if (cubyzlist.serverIp.length === 0) {
-    missingFields.push("integration.cubyzlistSite.serverIp");
-  }
+    const missingFields: string[] = [];
+    if (cubyzlist.serverName.length === 0) {
+      missingFields.push(`${target.path}.serverName`);
+    }
+    if (cubyzlist.serverIp.length === 0) {
+      missingFields.push(`${target.path}.serverIp`);
+    }
+
+    if (missingFields.length === 0) {
+      continue;
+    }
 
-  if (missingFields.length === 0) {
-    return config;
+    log(
+      "warn",
+      `[CubyzListSite] Disabled integration because required config field(s) are missing: ${missingFields.join(", ")}`,
+    );
+    cubyzlist.enabled = false;
   }
 
-  createLogger(config.logLevel)(
-    "warn",
-    `[CubyzListSite] Disabled integration because required config field(s) are missing: ${missingFields.join(", ")}`,
-  );
-  cubyzlist.enabled = false;
   return config;
 }
 
@@ -312,210 +1062,344 @@ async function ensureConfigFile(resolvedPath: string): Promise<void> {
   }
 }
 
-export function validateConfig(config: Config): void {
-  if (!config.cubyz || typeof config.cubyz !== "object") {
-    throw new Error('Configuration error: "cubyz" section is required.');
+function validateCubyzConnection(
+  cubyz: CubyzConnectionConfig,
+  path: string,
+): void {
+  if (!cubyz || typeof cubyz !== "object") {
+    throw new Error(`Configuration error: "${path}" section is required.`);
+  }
+
+  if (typeof cubyz.host !== "string" || cubyz.host.trim().length === 0) {
+    throw new Error(
+      `Configuration error: "${path}.host" must be a non-empty string.`,
+    );
   }
 
   if (
-    typeof config.cubyz.host !== "string" ||
-    config.cubyz.host.trim().length === 0
+    typeof cubyz.port !== "number" ||
+    !Number.isInteger(cubyz.port) ||
+    cubyz.port <= 0 ||
+    cubyz.port > 65535
   ) {
     throw new Error(
-      'Configuration error: "cubyz.host" must be a non-empty string.',
+      `Configuration error: "${path}.port" must be an integer between 1 and 65535.`,
+    );
+  }
+
+  if (typeof cubyz.version !== "string" || cubyz.version.trim().length === 0) {
+    throw new Error(
+      `Configuration error: "${path}.version" must be a non-empty string.`,
+    );
+  }
+}
+
+function validateRetryConfig(
+  connection: ConnectionRetryConfig,
+  path: string,
+): void {
+  if (typeof connection?.reconnect !== "boolean") {
+    throw new Error(
+      `Configuration error: "${path}.reconnect" must be a boolean value.`,
     );
   }
 
   if (
-    typeof config.cubyz.port !== "number" ||
-    !Number.isInteger(config.cubyz.port) ||
-    config.cubyz.port <= 0 ||
-    config.cubyz.port > 65535
+    typeof connection.maxRetries !== "number" ||
+    !Number.isInteger(connection.maxRetries) ||
+    connection.maxRetries < 0
   ) {
     throw new Error(
-      'Configuration error: "cubyz.port" must be an integer between 1 and 65535.',
+      `Configuration error: "${path}.maxRetries" must be a non-negative integer.`,
     );
   }
 
   if (
-    typeof config.cubyz.version !== "string" ||
-    config.cubyz.version.trim().length === 0
+    typeof connection.retryDelayMs !== "number" ||
+    connection.retryDelayMs < 0
   ) {
     throw new Error(
-      'Configuration error: "cubyz.version" must be a non-empty string.',
+      `Configuration error: "${path}.retryDelayMs" must be a non-negative number.`,
     );
   }
 
   if (
-    typeof config.logLevel !== "string" ||
-    !(ALLOWED_LOG_LEVELS as readonly string[]).includes(config.logLevel)
+    typeof connection.backoffMultiplier !== "number" ||
+    !Number.isFinite(connection.backoffMultiplier) ||
+    connection.backoffMultiplier < 1
   ) {
     throw new Error(
-      `Configuration error: "logLevel" must be one of: ${ALLOWED_LOG_LEVELS.join(", ")}.`,
+      `Configuration error: "${path}.backoffMultiplier" must be a number of at least 1.`,
     );
   }
 
-  if (typeof !config.discord?.enabled !== "boolean") {
+  if (
+    typeof connection.maxDelayMs !== "number" ||
+    connection.maxDelayMs < connection.retryDelayMs
+  ) {
     throw new Error(
-      'Configuration error: "discord.enabled" must be a boolean.',
+      `Configuration error: "${path}.maxDelayMs" must be a number no smaller than "${path}.retryDelayMs".`,
     );
   }
 
-  if (config.discord?.enabled) {
-    if (!config.discord.token || typeof config.discord.token !== "string") {
-      throw new Error('Configuration error: "discord.token" must be provided.');
-    }
+  if (
+    typeof connection.jitter !== "number" ||
+    connection.jitter < 0 ||
+    connection.jitter > 1
+  ) {
+    throw new Error(
+      `Configuration error: "${path}.jitter" must be a number between 0 and 1.`,
+    );
+  }
 
-    if (
-      !config.discord.channelId ||
-      typeof config.discord.channelId !== "string"
-    ) {
-      throw new Error(
-        'Configuration error: "discord.channelId" must be provided.',
-      );
-    }
+  const queue = connection.queue;
+  if (typeof queue?.enabled !== "boolean") {
+    throw new Error(
+      `Configuration error: "${path}.queue.enabled" must be a boolean value.`,
+    );
   }
 
-  if (!Array.isArray(config.discord.allowedMentions)) {
+  if (
+    typeof queue.maxSize !== "number" ||
+    !Number.isInteger(queue.maxSize) ||
+    queue.maxSize <= 0
+  ) {
     throw new Error(
-      'Configuration error: "discord.allowedMentions" must be an array.',
+      `Configuration error: "${path}.queue.maxSize" must be a positive integer.`,
     );
   }
 
-  const unsupportedAllowedMentions = config.discord.allowedMentions.filter(
-    (entry) => !ALLOWED_MENTION_TYPES.includes(entry),
-  );
-
-  if (unsupportedAllowedMentions.length > 0) {
+  if (typeof queue.maxAgeMs !== "number" || queue.maxAgeMs <= 0) {
     throw new Error(
-      `Configuration error: "discord.allowedMentions" contains unsupported entries: ${unsupportedAllowedMentions.join(", ")}.`,
+      `Configuration error: "${path}.queue.maxAgeMs" must be a positive number.`,
     );
   }
+}
 
-  if (!Array.isArray(config.events) || config.events.length === 0) {
+function validateApiConfig(http: HttpServerConfig): void {
+  const api = http.api;
+  if (typeof api?.enabled !== "boolean") {
     throw new Error(
-      'Configuration error: "events" must include at least one supported event type.',
+      'Configuration error: "http.api.enabled" must be a boolean.',
     );
   }
 
-  const unknownEvents = config.events.filter(
-    (event) => !SUPPORTED_EVENTS.includes(event),
-  );
-  if (unknownEvents.length > 0) {
+  if (!Array.isArray(api.tokens)) {
+    throw new Error('Configuration error: "http.api.tokens" must be an array.');
+  }
+
+  if (!api.enabled) {
+    return;
+  }
+
+  if (!http.enabled) {
     throw new Error(
-      `Configuration error: unsupported event types: ${unknownEvents.join(", ")}.`,
+      'Configuration error: "http.api.enabled" requires "http.enabled".',
     );
   }
 
-  if (!Array.isArray(config.censorlist)) {
+  if (api.tokens.length === 0) {
     throw new Error(
-      'Configuration error: "censorlist" must be an array of non-empty strings.',
+      'Configuration error: "http.api.tokens" must contain at least one token when the API is enabled.',
     );
   }
 
-  const invalidCensorlistEntries = config.censorlist.filter(
-    (entry) => typeof entry !== "string" || entry.trim().length === 0,
-  );
-  if (invalidCensorlistEntries.length > 0) {
+  const names = new Set<string>();
+  const secrets = new Set<string>();
+  api.tokens.forEach((entry, index) => {
+    const path = `http.api.tokens[${index}]`;
+    if (entry.name.length === 0) {
+      throw new Error(
+        `Configuration error: "${path}.name" must be a non-empty string.`,
+      );
+    }
+    if (names.has(entry.name.toLowerCase())) {
+      throw new Error(
+        `Configuration error: duplicate API token name "${entry.name}".`,
+      );
+    }
+    names.add(entry.name.toLowerCase());
+
+    if (entry.token.length < MIN_API_TOKEN_LENGTH) {
+      throw new Error(
+        `Configuration error: "${path}.token" must be at least ${MIN_API_TOKEN_LENGTH} characters long.`,
+      );
+    }
+    if (secrets.has(entry.token)) {
+      throw new Error(
+        `Configuration error: "${path}.token" is used by more than one entry.`,
+      );
+    }
+    secrets.add(entry.token);
+
+    if (
+      !Number.isInteger(entry.requestsPerMinute) ||
+      entry.requestsPerMinute <= 0
+    ) {
+      throw new Error(
+        `Configuration error: "${path}.requestsPerMinute" must be a positive integer.`,
+      );
+    }
+  });
+}
+
+function validateWebhooksConfig(
+  webhooks: WebhooksConfig,
+  path: string,
+  eventTypes: readonly EventType[],
+): void {
+  if (!webhooks || typeof webhooks.enabled !== "boolean") {
     throw new Error(
-      'Configuration error: "censorlist" must contain only non-empty strings.',
+      `Configuration error: "${path}.enabled" must be a boolean.`,
     );
   }
 
-  if (!Array.isArray(config.startupMessages)) {
+  for (const key of ["maxRetries", "retryDelayMs", "maxQueueSize"] as const) {
+    if (!Number.isInteger(webhooks[key]) || webhooks[key] < 0) {
+      throw new Error(
+        `Configuration error: "${path}.${key}" must be a non-negative integer.`,
+      );
+    }
+  }
+
+  if (webhooks.maxQueueSize < 1) {
     throw new Error(
-      'Configuration error: "startupMessages" must be an array of non-empty strings.',
+      `Configuration error: "${path}.maxQueueSize" must be at least 1.`,
     );
   }
 
-  const invalidStartupMessages = config.startupMessages.filter(
-    (entry) => typeof entry !== "string" || entry.trim().length === 0,
-  );
+  if (!webhooks.enabled) {
+    return;
+  }
 
-  if (invalidStartupMessages.length > 0) {
+  if (webhooks.endpoints.length === 0) {
     throw new Error(
-      'Configuration error: "startupMessages" must contain only non-empty strings.',
+      `Configuration error: "${path}.endpoints" must list at least one endpoint when webhooks are enabled.`,
     );
   }
 
-  if (typeof config.excludeBotFromCount !== "boolean") {
+  webhooks.endpoints.forEach((endpoint, index) => {
+    const endpointPath = `${path}.endpoints[${index}]`;
+    if (!/^https?:\/\//i.test(endpoint.url)) {
+      throw new Error(
+        `Configuration error: "${endpointPath}.url" must be an http(s) URL.`,
+      );
+    }
+
+    if (endpoint.secret.length === 0) {
+      throw new Error(
+        `Configuration error: "${endpointPath}.secret" must be a non-empty string.`,
+      );
+    }
+
+    const unsupported = endpoint.events.filter(
+      (event) => !WEBHOOK_EVENTS.includes(event) && !eventTypes.includes(event),
+    );
+    if (unsupported.length > 0) {
+      throw new Error(
+        `Configuration error: "${endpointPath}.events" contains unsupported event types: ${unsupported.join(", ")}.`,
+      );
+    }
+  });
+}
+
+function validateIrcConfig(irc: IrcConfig, path: string): void {
+  if (!irc || typeof irc.enabled !== "boolean") {
     throw new Error(
-      'Configuration error: "excludeBotFromCount" must be a boolean value.',
+      `Configuration error: "${path}.enabled" must be a boolean.`,
     );
   }
 
-  if (!Array.isArray(config.excludedUsernames)) {
+  if (!irc.enabled) {
+    return;
+  }
+
+  if (irc.host.length === 0) {
     throw new Error(
-      'Configuration error: "excludedUsernames" must be an array of non-empty strings.',
+      `Configuration error: "${path}.host" is required when IRC is enabled.`,
     );
   }
 
-  const invalidExcludedUsernames = config.excludedUsernames.filter(
-    (entry) => typeof entry !== "string" || entry.trim().length === 0,
-  );
+  if (!Number.isInteger(irc.port) || irc.port < 1 || irc.port > 65535) {
+    throw new Error(
+      `Configuration error: "${path}.port" must be an integer between 1 and 65535.`,
+    );
+  }
 
-  if (invalidExcludedUsernames.length > 0) {
+  if (!IRC_NICK_PATTERN.test(irc.nick)) {
     throw new Error(
-      'Configuration error: "excludedUsernames" must contain only non-empty strings.',
+      `Configuration error: "${path}.nick" is not a valid IRC nickname.`,
     );
   }
 
-  if (typeof config.connection?.reconnect !== "boolean") {
+  if (!/^[#&][^\s,]+$/.test(irc.channel)) {
     throw new Error(
-      'Configuration error: "connection.reconnect" must be a boolean value.',
+      `Configuration error: "${path}.channel" must be a channel name such as "#cubyz".`,
     );
   }
+}
 
-  if (
-    typeof config.connection.maxRetries !== "number" ||
-    !Number.isInteger(config.connection.maxRetries) ||
-    config.connection.maxRetries < 0
-  ) {
+function validateMatrixConfig(matrix: MatrixConfig, path: string): void {
+  if (!matrix || typeof matrix.enabled !== "boolean") {
     throw new Error(
-      'Configuration error: "connection.maxRetries" must be a non-negative integer.',
+      `Configuration error: "${path}.enabled" must be a boolean.`,
     );
   }
 
-  if (
-    typeof config.connection.retryDelayMs !== "number" ||
-    config.connection.retryDelayMs < 0
-  ) {
+  if (!matrix.enabled) {
+    return;
+  }
+
+  if (!/^https?:\/\//i.test(matrix.homeserverUrl)) {
     throw new Error(
-      'Configuration error: "connection.retryDelayMs" must be a non-negative number.',
+      `Configuration error: "${path}.homeserverUrl" must be an http(s) URL.`,
     );
   }
 
-  // Validate integration section
-  if (!config.integration || typeof config.integration !== "object") {
-    throw new Error('Configuration error: "integration" section is required.');
+  if (matrix.accessToken.length === 0) {
+    throw new Error(
+      `Configuration error: "${path}.accessToken" is required when Matrix is enabled.`,
+    );
   }
 
-  if (
-    !config.integration.cubyzlistSite ||
-    typeof config.integration.cubyzlistSite !== "object"
-  ) {
+  if (!/^[!#][^:\s]+:\S+$/.test(matrix.roomId)) {
     throw new Error(
-      'Configuration error: "integration.cubyzlistSite" section is required.',
+      `Configuration error: "${path}.roomId" must be a room id or alias such as "#cubyz:example.org".`,
     );
   }
+}
+
+function validateIntegrationConfig(
+  integration: IntegrationConfig,
+  path: string,
+  eventTypes: readonly EventType[],
+): void {
+  if (!integration || typeof integration !== "object") {
+    throw new Error(`Configuration error: "${path}" section is required.`);
+  }
 
-  const cubyzlist = config.integration.cubyzlistSite;
+  const cubyzlist = integration.cubyzlistSite;
+  if (!cubyzlist || typeof cubyzlist !== "object") {
+    throw new Error(
+      `Configuration error: "${path}.cubyzlistSite" section is required.`,
+    );
+  }
 
   if (typeof cubyzlist.enabled !== "boolean") {
     throw new Error(
-      'Configuration error: "integration.cubyzlistSite.enabled" must be a boolean.',
+      `Configuration error: "${path}.cubyzlistSite.enabled" must be a boolean.`,
     );
   }
 
   if (typeof cubyzlist.serverName !== "string") {
     throw new Error(
-      'Configuration error: "integration.cubyzlistSite.serverName" must be a string.',
+      `Configuration error: "${path}.cubyzlistSite.serverName" must be a string.`,
     );
   }
 
   if (typeof cubyzlist.serverIp !== "string") {
     throw new Error(
-      'Configuration error: "integration.cubyzlistSite.serverIp" must be a string.',
+      `Configuration error: "${path}.cubyzlistSite.serverIp" must be a string.`,
     );
   }
 
@@ -524,10 +1408,26 @@ export function validateConfig(config: Config): void {
     (typeof cubyzlist.description !== "string" || cubyzlist.description === "")
   ) {
     throw new Error(
-      'Configuration error: "integration.cubyzlistSite.description" must be a non-empty string or undefined.',
+      `Configuration error: "${path}.cubyzlistSite.description" must be a non-empty string or undefined.`,
     );
   }
 
+  if (!Array.isArray(integration.plugins)) {
+    throw new Error(`Configuration error: "${path}.plugins" must be an array.`);
+  }
+
+  integration.plugins.forEach((plugin, index) => {
+    if (typeof plugin.module !== "string" || plugin.module.length === 0) {
+      throw new Error(
+        `Configuration error: "${path}.plugins[${index}].module" must be a non-empty string.`,
+      );
+    }
+  });
+
+  validateWebhooksConfig(integration.webhooks, `${path}.webhooks`, eventTypes);
+  validateIrcConfig(integration.irc, `${path}.irc`);
+  validateMatrixConfig(integration.matrix, `${path}.matrix`);
+
   if (cubyzlist.enabled) {
     if (
       cubyzlist.serverPort !== undefined &&
@@ -537,7 +1437,7 @@ export function validateConfig(config: Config): void {
         cubyzlist.serverPort > 65535)
     ) {
       throw new Error(
-        'Configuration error: "integration.cubyzlistSite.serverPort" must be an integer between 1 and 65535 or undefined.',
+        `Configuration error: "${path}.cubyzlistSite.serverPort" must be an integer between 1 and 65535 or undefined.`,
       );
     }
 
@@ -546,7 +1446,7 @@ export function validateConfig(config: Config): void {
       (typeof cubyzlist.iconUrl !== "string" || cubyzlist.iconUrl === "")
     ) {
       throw new Error(
-        'Configuration error: "integration.cubyzlistSite.iconUrl" must be a non-empty string or undefined.',
+        `Configuration error: "${path}.cubyzlistSite.iconUrl" must be a non-empty string or undefined.`,
       );
     }
 
@@ -556,7 +1456,7 @@ export function validateConfig(config: Config): void {
         cubyzlist.discordServer === "")
     ) {
       throw new Error(
-        'Configuration error: "integration.cubyzlistSite.discordServer" must be a non-empty string or undefined.',
+        `Configuration error: "${path}.cubyzlistSite.discordServer" must be a non-empty string or undefined.`,
       );
     }
 
@@ -566,15 +1466,605 @@ export function validateConfig(config: Config): void {
         cubyzlist.customClientDownloadUrl === "")
     ) {
       throw new Error(
-        'Configuration error: "integration.cubyzlistSite.customClientDownloadUrl" must be a non-empty string or undefined.',
+        `Configuration error: "${path}.cubyzlistSite.customClientDownloadUrl" must be a non-empty string or undefined.`,
+      );
+    }
+  }
+}
+
+function validateChannelMap(
+  channels: EventChannelMap,
+  path: string,
+  eventTypes: readonly EventType[],
+): void {
+  if (!channels || typeof channels !== "object") {
+    throw new Error(`Configuration error: "${path}" must be an object.`);
+  }
+
+  const unknownEvents = Object.keys(channels).filter(
+    (event) => !eventTypes.includes(event),
+  );
+  if (unknownEvents.length > 0) {
+    throw new Error(
+      `Configuration error: "${path}" contains unsupported event types: ${unknownEvents.join(", ")}.`,
+    );
+  }
+}
+
+/**
+ * Lists the built-in event types plus the custom types declared by parse
+ * rules.
+ */
+function supportedEventTypes(config: Config): EventType[] {
+  return Array.from(
+    new Set([
+      ...SUPPORTED_EVENTS,
+      ...config.parseRules.map((rule) => rule.type),
+    ]),
+  );
+}
+
+function validateParseRules(rules: ChatParseRule[], path: string): void {
+  if (!Array.isArray(rules)) {
+    throw new Error(`Configuration error: "${path}" must be an array.`);
+  }
+
+  rules.forEach((rule, index) => {
+    const rulePath = `${path}[${index}]`;
+    if (!PARSE_RULE_TYPE_PATTERN.test(rule.type)) {
+      throw new Error(
+        `Configuration error: "${rulePath}.type" must be a lowercase event type name such as "achievement".`,
+      );
+    }
+
+    if (!PARSE_RULE_FLAGS_PATTERN.test(rule.flags)) {
+      throw new Error(
+        `Configuration error: "${rulePath}.flags" may only contain the flags i, m, s and u.`,
+      );
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(rule.pattern, rule.flags);
+    } catch (error) {
+      throw new Error(
+        `Configuration error: "${rulePath}.pattern" is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (
+      rule.pattern.length === 0 ||
+      !/\(\?<(username|message)>/.test(regex.source)
+    ) {
+      throw new Error(
+        `Configuration error: "${rulePath}.pattern" must capture a "username" or "message" named group.`,
+      );
+    }
+  });
+}
+
+function validateCensorlist(rules: CensorRule[]): void {
+  if (!Array.isArray(rules)) {
+    throw new Error(
+      'Configuration error: "censorlist" must be an array of words or censor rules.',
+    );
+  }
+
+  rules.forEach((rule, index) => {
+    const rulePath = `censorlist[${index}]`;
+    if (!CENSOR_MATCH_MODES.includes(rule.mode)) {
+      throw new Error(
+        `Configuration error: "${rulePath}.mode" must be one of: ${CENSOR_MATCH_MODES.join(", ")}.`,
+      );
+    }
+
+    if (rule.pattern.trim().length === 0) {
+      throw new Error(
+        `Configuration error: "${rulePath}.pattern" must be a non-empty string.`,
+      );
+    }
+
+    try {
+      compileCensorRule(rule);
+    } catch (error) {
+      throw new Error(
+        `Configuration error: "${rulePath}.pattern" is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  });
+}
+
+function validateSystemIgnorePatterns(patterns: string[]): void {
+  if (!Array.isArray(patterns)) {
+    throw new Error(
+      'Configuration error: "systemIgnorePatterns" must be an array of regular expressions.',
+    );
+  }
+
+  patterns.forEach((pattern, index) => {
+    try {
+      new RegExp(pattern, "i");
+    } catch (error) {
+      throw new Error(
+        `Configuration error: "systemIgnorePatterns[${index}]" is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  });
+}
+
+function validateTemplate(
+  template: string,
+  allowed: readonly string[],
+  path: string,
+): void {
+  const unknown = templatePlaceholders(template).filter(
+    (name) => !allowed.includes(name),
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Configuration error: "${path}" uses unknown placeholders: ${unknown
+        .map((name) => `{${name}}`)
+        .join(", ")}. Available: ${
+        allowed.length > 0
+          ? allowed.map((name) => `{${name}}`).join(", ")
+          : "none"
+      }.`,
+    );
+  }
+}
+
+function validateTemplates(
+  templates: MessageTemplates,
+  parseRules: ChatParseRule[],
+  eventTypes: readonly EventType[],
+): void {
+  for (const [eventType, template] of Object.entries(templates.events)) {
+    const path = `templates.events.${eventType}`;
+    if (!eventTypes.includes(eventType)) {
+      throw new Error(
+        `Configuration error: "${path}" is not a supported event type.`,
+      );
+    }
+
+    // Parse rules may capture extra named groups for their event type.
+    const capturedGroups = parseRules
+      .filter((rule) => rule.type === eventType)
+      .flatMap((rule) =>
+        Array.from(
+          rule.pattern.matchAll(/\(\?<([A-Za-z_$][\w$]*)>/g),
+          (match) => match[1],
+        ),
+      );
+    validateTemplate(
+      template ?? "",
+      [
+        ...(eventType === "death"
+          ? TEMPLATE_PLACEHOLDERS.deathEvent
+          : TEMPLATE_PLACEHOLDERS.events),
+        ...capturedGroups,
+      ],
+      path,
+    );
+  }
+
+  for (const [key, allowed] of Object.entries(TEMPLATE_PLACEHOLDERS.status)) {
+    validateTemplate(
+      templates.status[key as keyof MessageTemplates["status"]],
+      allowed,
+      `templates.status.${key}`,
+    );
+  }
+
+  for (const [key, allowed] of Object.entries(TEMPLATE_PLACEHOLDERS.relay)) {
+    validateTemplate(
+      templates.relay[key as keyof MessageTemplates["relay"]],
+      allowed,
+      `templates.relay.${key}`,
+    );
+  }
+
+  validateTemplate(
+    templates.presence,
+    TEMPLATE_PLACEHOLDERS.presence,
+    "templates.presence",
+  );
+}
+
+function validateServers(config: Config): void {
+  const eventTypes = supportedEventTypes(config);
+
+  if (!Array.isArray(config.servers) || config.servers.length === 0) {
+    throw new Error(
+      'Configuration error: "servers" must include at least one server.',
+    );
+  }
+
+  const seenNames = new Set<string>();
+  config.servers.forEach((server, index) => {
+    const path = `servers[${index}]`;
+
+    if (typeof server.name !== "string") {
+      throw new Error(`Configuration error: "${path}.name" must be a string.`);
+    }
+
+    if (config.servers.length > 1 && server.name.length === 0) {
+      throw new Error(
+        `Configuration error: "${path}.name" is required when more than one server is configured.`,
+      );
+    }
+
+    const normalizedName = server.name.toLowerCase();
+    if (seenNames.has(normalizedName)) {
+      throw new Error(
+        `Configuration error: duplicate server name "${server.name}".`,
+      );
+    }
+    seenNames.add(normalizedName);
+
+    validateCubyzConnection(server.cubyz, `${path}.cubyz`);
+    validateRetryConfig(server.connection, `${path}.connection`);
+
+    if (
+      config.discord.enabled &&
+      (typeof server.discord?.channelId !== "string" ||
+        server.discord.channelId.length === 0)
+    ) {
+      throw new Error(
+        server.name.length > 0
+          ? `Configuration error: "discord.channelId" must be provided for server "${server.name}".`
+          : 'Configuration error: "discord.channelId" must be provided.',
+      );
+    }
+
+    validateChannelMap(
+      server.discord.channels,
+      `${path}.discord.channels`,
+      eventTypes,
+    );
+
+    if (server.integration !== config.integration) {
+      validateIntegrationConfig(
+        server.integration,
+        `${path}.integration`,
+        eventTypes,
       );
     }
+  });
+
+  if (config.servers.length < 2) {
+    return;
+  }
+
+  // Each server runs its own integration instances, so a top-level bridge
+  // would connect once per server and post every message several times, and
+  // a top-level list site entry would be overwritten by every server.
+  const { cubyzlistSite, irc, matrix, webhooks, plugins } = config.integration;
+  const shared = [
+    ...(cubyzlistSite.enabled ? ["cubyzlistSite"] : []),
+    ...(irc.enabled ? ["irc"] : []),
+    ...(matrix.enabled ? ["matrix"] : []),
+    ...(webhooks.enabled ? ["webhooks"] : []),
+    ...(plugins.length > 0 ? ["plugins"] : []),
+  ];
+  if (shared.length > 0) {
+    throw new Error(
+      `Configuration error: "integration.${shared[0]}" would run once per server; configure it under "servers[].integration.${shared[0]}" when more than one server is configured.`,
+    );
+  }
+
+  const ircNicks = new Map<string, string>();
+  for (const server of config.servers) {
+    const serverIrc = server.integration.irc;
+    if (!serverIrc.enabled) {
+      continue;
+    }
+
+    const key = `${serverIrc.host.toLowerCase()}:${serverIrc.port}/${serverIrc.nick.toLowerCase()}`;
+    const other = ircNicks.get(key);
+    if (other !== undefined) {
+      throw new Error(
+        `Configuration error: servers "${other}" and "${server.name}" connect to ${serverIrc.host} with the same IRC nick "${serverIrc.nick}".`,
+      );
+    }
+    ircNicks.set(key, server.name);
   }
 }
 
-export async function loadConfig(configPath: string): Promise<Config> {
+/**
+ * Expands the relay configuration into one configuration per entry in
+ * `servers`, each scoped to that server's connection, channel and integrations.
+ */
+export function resolveServerConfigs(config: Config): Config[] {
+  return config.servers.map((server) => ({
+    ...config,
+    serverName: server.name.length > 0 ? server.name : undefined,
+    cubyz: server.cubyz,
+    connection: server.connection,
+    discord: { ...config.discord, ...server.discord },
+    integration: server.integration,
+    servers: [server],
+  }));
+}
+
+export function validateConfig(config: Config): void {
+  validateCubyzConnection(config.cubyz, "cubyz");
+
+  if (
+    typeof config.logLevel !== "string" ||
+    !(ALLOWED_LOG_LEVELS as readonly string[]).includes(config.logLevel)
+  ) {
+    throw new Error(
+      `Configuration error: "logLevel" must be one of: ${ALLOWED_LOG_LEVELS.join(", ")}.`,
+    );
+  }
+
+  if (
+    typeof config.dataDirectory !== "string" ||
+    config.dataDirectory.trim().length === 0
+  ) {
+    throw new Error(
+      'Configuration error: "dataDirectory" must be a non-empty string.',
+    );
+  }
+
+  if (typeof config.stats?.enabled !== "boolean") {
+    throw new Error('Configuration error: "stats.enabled" must be a boolean.');
+  }
+
+  if (typeof config.stats.weeklyDeathSummary !== "boolean") {
+    throw new Error(
+      'Configuration error: "stats.weeklyDeathSummary" must be a boolean.',
+    );
+  }
+
+  validateGameCommands(config.gameCommands);
+
+  if (typeof config.http?.enabled !== "boolean") {
+    throw new Error('Configuration error: "http.enabled" must be a boolean.');
+  }
+
+  if (
+    typeof config.http.host !== "string" ||
+    config.http.host.trim().length === 0
+  ) {
+    throw new Error(
+      'Configuration error: "http.host" must be a non-empty string.',
+    );
+  }
+
+  if (
+    !Number.isInteger(config.http.port) ||
+    config.http.port < 1 ||
+    config.http.port > 65535
+  ) {
+    throw new Error(
+      'Configuration error: "http.port" must be an integer between 1 and 65535.',
+    );
+  }
+
+  validateApiConfig(config.http);
+
+  if (typeof !config.discord?.enabled !== "boolean") {
+    throw new Error(
+      'Configuration error: "discord.enabled" must be a boolean.',
+    );
+  }
+
+  if (config.discord?.enabled) {
+    if (!config.discord.token || typeof config.discord.token !== "string") {
+      throw new Error('Configuration error: "discord.token" must be provided.');
+    }
+  }
+
+  if (!Array.isArray(config.discord.allowedMentions)) {
+    throw new Error(
+      'Configuration error: "discord.allowedMentions" must be an array.',
+    );
+  }
+
+  validateParseRules(config.parseRules, "parseRules");
+  validateSystemIgnorePatterns(config.systemIgnorePatterns);
+  const eventTypes = supportedEventTypes(config);
+
+  validateChannelMap(config.discord.channels, "discord.channels", eventTypes);
+  validateTemplates(config.templates, config.parseRules, eventTypes);
+
+  if (
+    !config.discord.webhook ||
+    typeof config.discord.webhook.enabled !== "boolean"
+  ) {
+    throw new Error(
+      'Configuration error: "discord.webhook.enabled" must be a boolean.',
+    );
+  }
+
+  if (/discord|clyde/i.test(config.discord.webhook.name)) {
+    throw new Error(
+      'Configuration error: "discord.webhook.name" must not contain "discord" or "clyde".',
+    );
+  }
+
+  const avatarUrlTemplate = config.discord.webhook.avatarUrlTemplate;
+  if (
+    avatarUrlTemplate !== undefined &&
+    !/^https?:\/\//.test(avatarUrlTemplate)
+  ) {
+    throw new Error(
+      'Configuration error: "discord.webhook.avatarUrlTemplate" must be an http(s) URL.',
+    );
+  }
+
+  validateAdminConfig(config.discord.admin);
+
+  for (const [name, id] of Object.entries(config.discord.mentionAliases)) {
+    if (!MENTION_ALIAS_PATTERN.test(name)) {
+      throw new Error(
+        `Configuration error: "discord.mentionAliases" contains an invalid name "${name}"; use the name players type after "@".`,
+      );
+    }
+
+    if (!DISCORD_ID_PATTERN.test(id)) {
+      throw new Error(
+        `Configuration error: "discord.mentionAliases.${name}" must be a Discord user ID.`,
+      );
+    }
+  }
+
+  if (
+    !config.discord.embeds ||
+    typeof config.discord.embeds.enabled !== "boolean"
+  ) {
+    throw new Error(
+      'Configuration error: "discord.embeds.enabled" must be a boolean.',
+    );
+  }
+
+  if (
+    !config.discord.linking ||
+    typeof config.discord.linking.enabled !== "boolean"
+  ) {
+    throw new Error(
+      'Configuration error: "discord.linking.enabled" must be a boolean.',
+    );
+  }
+
+  // Confirmations are sent as interaction follow-ups, whose tokens expire
+  // after 15 minutes.
+  if (
+    !Number.isInteger(config.discord.linking.codeTtlMs) ||
+    config.discord.linking.codeTtlMs < 60_000 ||
+    config.discord.linking.codeTtlMs > MAX_LINK_CODE_TTL_MS
+  ) {
+    throw new Error(
+      `Configuration error: "discord.linking.codeTtlMs" must be between 60000 and ${MAX_LINK_CODE_TTL_MS}.`,
+    );
+  }
+
+  const unsupportedAllowedMentions = config.discord.allowedMentions.filter(
+    (entry) => !ALLOWED_MENTION_TYPES.includes(entry),
+  );
+
+  if (unsupportedAllowedMentions.length > 0) {
+    throw new Error(
+      `Configuration error: "discord.allowedMentions" contains unsupported entries: ${unsupportedAllowedMentions.join(", ")}.`,
+    );
+  }
+
+  if (!Array.isArray(config.events) || config.events.length === 0) {
+    throw new Error(
+      'Configuration error: "events" must include at least one supported event type.',
+    );
+  }
+
+  const unknownEvents = config.events.filter(
+    (event) => !eventTypes.includes(event),
+  );
+  if (unknownEvents.length > 0) {
+    throw new Error(
+      `Configuration error: unsupported event types: ${unknownEvents.join(", ")}.`,
+    );
+  }
+
+  validateCensorlist(config.censorlist);
+
+  if (typeof config.censorReplacement !== "string") {
+    throw new Error(
+      'Configuration error: "censorReplacement" must be a string.',
+    );
+  }
+
+  if (!Array.isArray(config.startupMessages)) {
+    throw new Error(
+      'Configuration error: "startupMessages" must be an array of non-empty strings.',
+    );
+  }
+
+  const invalidStartupMessages = config.startupMessages.filter(
+    (entry) => typeof entry !== "string" || entry.trim().length === 0,
+  );
+
+  if (invalidStartupMessages.length > 0) {
+    throw new Error(
+      'Configuration error: "startupMessages" must contain only non-empty strings.',
+    );
+  }
+
+  if (typeof config.excludeBotFromCount !== "boolean") {
+    throw new Error(
+      'Configuration error: "excludeBotFromCount" must be a boolean value.',
+    );
+  }
+
+  if (!Array.isArray(config.excludedUsernames)) {
+    throw new Error(
+      'Configuration error: "excludedUsernames" must be an array of non-empty strings.',
+    );
+  }
+
+  const invalidExcludedUsernames = config.excludedUsernames.filter(
+    (entry) => typeof entry !== "string" || entry.trim().length === 0,
+  );
+
+  if (invalidExcludedUsernames.length > 0) {
+    throw new Error(
+      'Configuration error: "excludedUsernames" must contain only non-empty strings.',
+    );
+  }
+
+  validateRetryConfig(config.connection, "connection");
+
+  validateIntegrationConfig(config.integration, "integration", eventTypes);
+
+  validateServers(config);
+}
+
+/**
+ * Lists the settings that differ between two configurations as dotted paths.
+ * The `discord` and `integration` sections are compared per field since most
+ * of their fields can be applied without a restart.
+ */
+export function diffConfig(previous: Config, next: Config): string[] {
+  const changed: string[] = [];
+  const nestedSections = new Set<keyof Config>(["discord", "integration"]);
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<
+    keyof Config
+  >;
+
+  for (const key of keys) {
+    if (nestedSections.has(key)) {
+      const previousSection = (previous[key] ?? {}) as Record<string, unknown>;
+      const nextSection = (next[key] ?? {}) as Record<string, unknown>;
+      const fields = new Set([
+        ...Object.keys(previousSection),
+        ...Object.keys(nextSection),
+      ]);
+      for (const field of fields) {
+        if (
+          JSON.stringify(previousSection[field]) !==
+          JSON.stringify(nextSection[field])
+        ) {
+          changed.push(`${key}.${field}`);
+        }
+      }
+      continue;
+    }
+
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      changed.push(key);
+    }
+  }
+
+  return changed;
+}
+
+export async function loadConfig(
+  configPath: string,
+  options: { createTemplate?: boolean } = {},
+): Promise<Config> {
   const resolvedPath = path.resolve(process.cwd(), configPath);
-  await ensureConfigFile(resolvedPath);
+  if (options.createTemplate ?? true) {
+    await ensureConfigFile(resolvedPath);
+  }
   const raw = await readFile(resolvedPath, "utf8");
   const parsedUnknown = JSON.parse(raw) as Record<string, unknown>;
   if ("cubyzLogPath" in parsedUnknown) {
@@ -583,7 +2073,10 @@ export async function loadConfig(configPath: string): Promise<Config> {
     );
   }
   const config = finalizeConfig(
-    applyDefaults(parsedUnknown as Partial<Config>),
+    resolvePluginPaths(
+      applyDefaults(parsedUnknown as Partial<Config>),
+      path.dirname(resolvedPath),
+    ),
   );
   validateConfig(config);
   return config;
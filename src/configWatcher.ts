@@ -0,0 +1,58 @@
+import { unwatchFile, watchFile } from "node:fs";
+import path from "node:path";
+import process from "node:process";
+
+const POLL_INTERVAL_MS = 1000;
+const DEBOUNCE_MS = 500;
+
+/**
+ * Invokes `onReload` when the configuration file changes on disk or the
+ * process receives SIGHUP. The file is polled rather than watched with
+ * `fs.watch` so editors that save by replacing the file are picked up too.
+ * Returns a function that stops watching.
+ */
+export function watchConfigFile(
+  configPath: string,
+  onReload: (trigger: "file" | "signal") => void,
+): () => void {
+  const resolvedPath = path.resolve(process.cwd(), configPath);
+  let debounceTimer: NodeJS.Timeout | null = null;
+
+  const schedule = (trigger: "file" | "signal") => {
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      onReload(trigger);
+    }, DEBOUNCE_MS);
+  };
+
+  const fileListener = (
+    current: { mtimeMs: number },
+    previous: { mtimeMs: number },
+  ) => {
+    // A zero mtime means the file is (temporarily) missing.
+    if (current.mtimeMs === 0 || current.mtimeMs === previous.mtimeMs) {
+      return;
+    }
+    schedule("file");
+  };
+  const signalListener = () => schedule("signal");
+
+  watchFile(
+    resolvedPath,
+    { interval: POLL_INTERVAL_MS, persistent: false },
+    fileListener,
+  );
+  process.on("SIGHUP", signalListener);
+
+  return () => {
+    unwatchFile(resolvedPath, fileListener);
+    process.off("SIGHUP", signalListener);
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+      debounceTimer = null;
+    }
+  };
+}
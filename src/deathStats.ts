@@ -0,0 +1,143 @@
+import { JsonStore } from "./jsonStore.js";
+import type { Logger } from "./logger.js";
+
+interface PlayerDeathRecord {
+  name: string;
+  total: number;
+  causes: Record<string, number>;
+}
+
+interface DeathData {
+  version: 1;
+  players: Record<string, PlayerDeathRecord>;
+  /** Deaths per player since the last weekly summary. */
+  weekly: Record<string, number>;
+  weekStartedAt: number;
+}
+
+export interface PlayerDeathStats {
+  name: string;
+  total: number;
+  causes: { cause: string; count: number }[];
+}
+
+export interface DeathTotals {
+  total: number;
+  causes: { cause: string; count: number }[];
+}
+
+export const UNKNOWN_DEATH_CAUSE = "unknown";
+
+const toKey = (name: string): string => name.trim().toLowerCase();
+
+const sortCauses = (
+  causes: Record<string, number>,
+): { cause: string; count: number }[] =>
+  Object.entries(causes)
+    .map(([cause, count]) => ({ cause, count }))
+    .sort((a, b) => b.count - a.count);
+
+/**
+ * Persists death counts per player and per cause, plus a rolling weekly
+ * tally used for the optional "most deaths" summary.
+ */
+export class DeathStatsStore {
+  private readonly store: JsonStore<DeathData>;
+
+  constructor(filePath: string, log: Logger) {
+    this.store = new JsonStore<DeathData>(
+      filePath,
+      () => ({
+        version: 1,
+        players: {},
+        weekly: {},
+        weekStartedAt: Date.now(),
+      }),
+      (error) => log("error", "[Deaths] Failed to save death stats:", error),
+    );
+  }
+
+  async load(): Promise<void> {
+    await this.store.load();
+  }
+
+  recordDeath(name: string, cause?: string): void {
+    const key = toKey(name);
+    if (key.length === 0) {
+      return;
+    }
+
+    const normalizedCause = cause?.trim().toLowerCase() || UNKNOWN_DEATH_CAUSE;
+    const record = this.store.data.players[key] ?? {
+      name,
+      total: 0,
+      causes: {},
+    };
+    record.name = name;
+    record.total += 1;
+    record.causes[normalizedCause] = (record.causes[normalizedCause] ?? 0) + 1;
+    this.store.data.players[key] = record;
+    this.store.data.weekly[key] = (this.store.data.weekly[key] ?? 0) + 1;
+    this.store.scheduleSave();
+  }
+
+  getPlayer(name: string): PlayerDeathStats | null {
+    const record = this.store.data.players[toKey(name)];
+    if (!record) {
+      return null;
+    }
+
+    return {
+      name: record.name,
+      total: record.total,
+      causes: sortCauses(record.causes),
+    };
+  }
+
+  getTotals(): DeathTotals {
+    const causes: Record<string, number> = {};
+    let total = 0;
+    for (const record of Object.values(this.store.data.players)) {
+      total += record.total;
+      for (const [cause, count] of Object.entries(record.causes)) {
+        causes[cause] = (causes[cause] ?? 0) + count;
+      }
+    }
+    return { total, causes: sortCauses(causes) };
+  }
+
+  getTopDeaths(limit: number): { name: string; total: number }[] {
+    return Object.values(this.store.data.players)
+      .map(({ name, total }) => ({ name, total }))
+      .sort((a, b) => b.total - a.total)
+      .slice(0, limit);
+  }
+
+  get weekStartedAt(): Date {
+    return new Date(this.store.data.weekStartedAt);
+  }
+
+  getWeeklyTop(limit: number): { name: string; total: number }[] {
+    return Object.entries(this.store.data.weekly)
+      .map(([key, total]) => ({
+        name: this.store.data.players[key]?.name ?? key,
+        total,
+      }))
+      .sort((a, b) => b.total - a.total)
+      .slice(0, limit);
+  }
+
+  startNewWeek(at = Date.now()): void {
+    this.store.data.weekly = {};
+    this.store.data.weekStartedAt = at;
+    this.store.scheduleSave();
+  }
+
+  async close(): Promise<void> {
+    await this.store.save();
+  }
+
+  closeSync(): void {
+    this.store.saveSync();
+  }
+}
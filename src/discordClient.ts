@@ -1,19 +1,47 @@
 import {
   ActivityType,
+  type APIEmbed,
   Client,
+  type Collection,
   GatewayIntentBits,
   type Message,
   type TextBasedChannel,
+  type Webhook,
 } from "discord.js";
 import { createLogger, type Logger } from "./logger.js";
+import { DEFAULT_TEMPLATES, renderTemplate } from "./templates.js";
 import type { AllowedMentionType, LogLevel } from "./types.js";
 
 type SendableChannel = TextBasedChannel & {
-  send: (content: string) => Promise<Message>;
+  send: (content: string | DiscordMessagePayload) => Promise<Message>;
 };
 
+type WebhookChannel = SendableChannel & {
+  fetchWebhooks: () => Promise<Collection<string, Webhook>>;
+  createWebhook: (options: { name: string }) => Promise<Webhook>;
+};
+
+/**
+ * A channel message with optional embeds, for callers that send more than
+ * plain text.
+ */
+export interface DiscordMessagePayload {
+  content?: string;
+  embeds?: APIEmbed[];
+}
+
+export interface WebhookMessageOptions {
+  content: string;
+  username: string;
+  avatarURL?: string;
+}
+
 const channelCache = new Map<string, SendableChannel>();
+const webhookCache = new Map<string, Webhook>();
 let clientInstance: Client<boolean> | null = null;
+let loginPromise: Promise<Client<boolean>> | null = null;
+let clientUsers = 0;
+const playerCounts = new Map<string, number>();
 let logger: Logger;
 
 function log(level: LogLevel, ...args: unknown[]): void {
@@ -56,17 +84,41 @@ async function getChannel(channelId: string): Promise<SendableChannel> {
   return channel;
 }
 
+/**
+ * Fetches and caches every given channel up front so misconfigured channel IDs
+ * surface at startup instead of on the first relayed event.
+ */
+export async function preloadChannels(
+  channelIds: Iterable<string>,
+): Promise<void> {
+  const results = await Promise.allSettled(
+    Array.from(new Set(channelIds), (channelId) => getChannel(channelId)),
+  );
+
+  for (const result of results) {
+    if (result.status === "rejected") {
+      log("warn", "Failed to load configured channel:", result.reason);
+    }
+  }
+}
+
+/**
+ * Returns the shared Discord client, logging in on first use. Every caller
+ * must balance this with a call to {@link cleanup}; the client is destroyed
+ * once the last user releases it.
+ */
 export async function initializeDiscordClient(
   token: string,
   allowedMentions: readonly AllowedMentionType[],
   logLevel: LogLevel,
 ): Promise<Client<boolean>> {
-  if (clientInstance) {
-    return clientInstance;
+  clientUsers += 1;
+  if (loginPromise) {
+    return loginPromise;
   }
 
   logger = createLogger(logLevel);
-  clientInstance = new Client({
+  const client = new Client({
     intents: [
       GatewayIntentBits.Guilds,
       GatewayIntentBits.GuildMessages,
@@ -76,22 +128,26 @@ export async function initializeDiscordClient(
     allowedMentions: { parse: [...allowedMentions] },
     partials: [],
   });
+  clientInstance = client;
 
-  await clientInstance.login(token);
-  return clientInstance;
+  loginPromise = client
+    .login(token)
+    .then(() => client)
+    .catch((error: unknown) => {
+      clientInstance = null;
+      loginPromise = null;
+      clientUsers = 0;
+      void client.destroy();
+      throw error;
+    });
+  return loginPromise;
 }
 
-export async function sendMessage(
-  channelId: string,
-  message: string,
-): Promise<Message> {
-  const channel = await getChannel(channelId);
-
+async function withRetries<T>(operation: () => Promise<T>): Promise<T> {
   const maxAttempts = 3;
   for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
     try {
-      const sentMessage = await channel.send(message);
-      return sentMessage;
+      return await operation();
     } catch (error) {
       if (attempt === maxAttempts) {
         throw error;
@@ -105,18 +161,100 @@ export async function sendMessage(
   throw new Error("Failed to send message after all retry attempts");
 }
 
+export async function sendMessage(
+  channelId: string,
+  message: string | DiscordMessagePayload,
+): Promise<Message> {
+  const channel = await getChannel(channelId);
+  return withRetries(() => channel.send(message));
+}
+
+/**
+ * Finds the relay's webhook in the channel, creating it on first use. The
+ * webhook is identified by name and owner so it survives restarts.
+ */
+async function getWebhook(channelId: string, name: string): Promise<Webhook> {
+  const cached = webhookCache.get(channelId);
+  if (cached) {
+    return cached;
+  }
+
+  const client = ensureClient();
+  const channel = await getChannel(channelId);
+  if (
+    typeof (channel as WebhookChannel).fetchWebhooks !== "function" ||
+    typeof (channel as WebhookChannel).createWebhook !== "function"
+  ) {
+    throw new Error(`Channel ${channelId} does not support webhooks.`);
+  }
+
+  const webhookChannel = channel as WebhookChannel;
+  const webhooks = await webhookChannel.fetchWebhooks();
+  const existing = webhooks.find(
+    (webhook) =>
+      webhook.name === name &&
+      webhook.owner?.id === client.user?.id &&
+      webhook.token !== null,
+  );
+
+  const webhook = existing ?? (await webhookChannel.createWebhook({ name }));
+  if (!existing) {
+    log("info", `Created webhook "${name}" in channel ${channelId}.`);
+  }
+
+  webhookCache.set(channelId, webhook);
+  return webhook;
+}
+
+export async function sendWebhookMessage(
+  channelId: string,
+  webhookName: string,
+  options: WebhookMessageOptions,
+): Promise<Message> {
+  const webhook = await getWebhook(channelId, webhookName);
+  try {
+    return await withRetries(() => webhook.send(options));
+  } catch (error) {
+    // The webhook may have been deleted; look it up again next time.
+    webhookCache.delete(channelId);
+    throw error;
+  }
+}
+
 export async function cleanup(): Promise<void> {
   if (!clientInstance) {
     return;
   }
 
+  clientUsers = Math.max(0, clientUsers - 1);
+  if (clientUsers > 0) {
+    return;
+  }
+
+  const client = clientInstance;
   channelCache.clear();
-  await clientInstance.destroy();
+  webhookCache.clear();
+  playerCounts.clear();
   clientInstance = null;
+  loginPromise = null;
+  await client.destroy();
 }
 
-export async function updatePlayerCount(playerCount: number): Promise<void> {
+/**
+ * Updates the bot presence. Counts are tracked per source so relays for
+ * several servers sharing one client report their combined total.
+ */
+export async function updatePlayerCount(
+  playerCount: number,
+  source = "",
+  template = DEFAULT_TEMPLATES.presence,
+): Promise<void> {
   const client = ensureClient();
+  playerCounts.set(source, playerCount);
+  const totalPlayers = Array.from(playerCounts.values()).reduce(
+    (total, count) => total + count,
+    0,
+  );
   const user = client.user;
 
   if (!user) {
@@ -127,7 +265,7 @@ export async function updatePlayerCount(playerCount: number): Promise<void> {
   user.setPresence({
     activities: [
       {
-        name: `Players Online: ${playerCount}`,
+        name: renderTemplate(template, { playerCount: totalPlayers }),
         type: ActivityType.Custom,
       },
     ],
@@ -0,0 +1,482 @@
+import {
+  type ApplicationCommandOptionData,
+  ApplicationCommandOptionType,
+  type ApplicationCommandSubCommandData,
+  type AutocompleteInteraction,
+  type ChatInputApplicationCommandData,
+  type ChatInputCommandInteraction,
+  type Guild,
+  type Message,
+  MessageFlags,
+} from "discord.js";
+import type { Logger } from "./logger.js";
+
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+const USER_MENTION_PATTERN = /^<@!?(\d+)>$/;
+
+export interface CommandOption {
+  type: "string" | "user";
+  name: string;
+  description: string;
+  required?: boolean;
+  choices?: readonly string[];
+  /** Suggests values while the user types a slash command. */
+  autocomplete?: (partial: string) => readonly string[];
+}
+
+export interface CommandSubcommand {
+  name: string;
+  description: string;
+  options?: readonly CommandOption[];
+}
+
+export interface CommandResponse {
+  content: string;
+  /** Shown only to the invoking user; text invocations reply publicly. */
+  ephemeral?: boolean;
+}
+
+/**
+ * One invocation of a command, either as a slash command or as a `/name args`
+ * message in the chat channel.
+ */
+export interface CommandContext {
+  source: "slash" | "text";
+  user: { id: string; username: string };
+  memberRoleIds: readonly string[];
+  channelId: string;
+  subcommand: string | null;
+  getString(name: string): string | null;
+  getUserId(name: string): string | null;
+  /** Acknowledges a command that takes longer than Discord's 3 seconds. */
+  defer(): Promise<void>;
+  followUp(response: CommandResponse | string): Promise<void>;
+}
+
+export interface DiscordCommand {
+  name: string;
+  description: string;
+  options?: readonly CommandOption[];
+  subcommands?: readonly CommandSubcommand[];
+  /** Decides whether the invoking member may run the command. */
+  isAllowed?: (context: CommandContext) => boolean;
+  onDenied?: (context: CommandContext) => Promise<void>;
+  /** Reply sent when `execute` throws. */
+  errorMessage?: string;
+  execute(context: CommandContext): Promise<CommandResponse | string>;
+}
+
+export interface TextInvocation {
+  subcommand: string | null;
+  values: Record<string, string>;
+}
+
+interface GuildRegistration {
+  guild: Guild;
+  commands: readonly DiscordCommand[];
+}
+
+// Several relays can share a guild, so registrations are collected here and
+// each guild is synced once with the commands of every relay.
+let pendingRegistrations: Promise<GuildRegistration | null>[] = [];
+
+const toResponse = (response: CommandResponse | string): CommandResponse =>
+  typeof response === "string" ? { content: response } : response;
+
+const commandOptions = (
+  command: DiscordCommand,
+  subcommand: string | null,
+): readonly CommandOption[] =>
+  command.subcommands
+    ? (command.subcommands.find(({ name }) => name === subcommand)?.options ??
+      [])
+    : (command.options ?? []);
+
+type OptionData = NonNullable<
+  ApplicationCommandSubCommandData["options"]
+>[number];
+
+const toOptionData = (option: CommandOption): OptionData =>
+  option.type === "user"
+    ? {
+        type: ApplicationCommandOptionType.User,
+        name: option.name,
+        description: option.description,
+        required: option.required ?? false,
+      }
+    : {
+        type: ApplicationCommandOptionType.String,
+        name: option.name,
+        description: option.description,
+        required: option.required ?? false,
+        ...(option.choices
+          ? {
+              choices: option.choices.map((choice) => ({
+                name: choice,
+                value: choice,
+              })),
+            }
+          : { autocomplete: option.autocomplete !== undefined }),
+      };
+
+/**
+ * Converts a command to the definition registered with Discord.
+ */
+export function toApplicationCommand(
+  command: DiscordCommand,
+): ChatInputApplicationCommandData {
+  const options = command.subcommands
+    ? command.subcommands.map(
+        (subcommand): ApplicationCommandOptionData => ({
+          type: ApplicationCommandOptionType.Subcommand,
+          name: subcommand.name,
+          description: subcommand.description,
+          options: (subcommand.options ?? []).map(toOptionData),
+        }),
+      )
+    : (command.options ?? []).map(toOptionData);
+
+  return {
+    name: command.name,
+    description: command.description,
+    ...(options.length > 0 ? { options } : {}),
+  };
+}
+
+/**
+ * Describes how to type a command as text, e.g. `/kick <player> [reason]`.
+ */
+export function formatUsage(command: DiscordCommand): string {
+  const describe = (options: readonly CommandOption[] = []) =>
+    options.map((option) =>
+      option.required ? `<${option.name}>` : `[${option.name}]`,
+    );
+
+  if (command.subcommands) {
+    return command.subcommands
+      .map((subcommand) =>
+        [`/${command.name}`, subcommand.name, ...describe(subcommand.options)]
+          .filter(Boolean)
+          .join(" "),
+      )
+      .join(" | ");
+  }
+
+  return [`/${command.name}`, ...describe(command.options)].join(" ");
+}
+
+/**
+ * Maps the words after a text command to its options in order; the last
+ * string option takes the rest of the line and user options are `<@id>`
+ * mentions. Returns null when the subcommand or a required option is missing
+ * or a value is not one of the option's choices.
+ */
+export function parseTextInvocation(
+  command: DiscordCommand,
+  args: readonly string[],
+): TextInvocation | null {
+  const remaining = [...args];
+  let subcommand: string | null = null;
+  if (command.subcommands) {
+    const requested = remaining.shift()?.toLowerCase();
+    const match = command.subcommands.find(({ name }) => name === requested);
+    if (!match) {
+      return null;
+    }
+    subcommand = match.name;
+  }
+
+  const options = commandOptions(command, subcommand);
+  const values: Record<string, string> = {};
+  for (const [index, option] of options.entries()) {
+    let value = "";
+    if (option.type === "user") {
+      // Optional user options are skipped unless the next word is a mention.
+      const userId = USER_MENTION_PATTERN.exec(remaining[0] ?? "")?.[1];
+      if (userId) {
+        remaining.shift();
+        value = userId;
+      }
+    } else if (index === options.length - 1) {
+      value = remaining.splice(0).join(" ");
+    } else {
+      value = remaining.shift() ?? "";
+    }
+
+    if (option.choices && value.length > 0 && !option.choices.includes(value)) {
+      return null;
+    }
+    if (value.length > 0) {
+      values[option.name] = value;
+    } else if (option.required) {
+      return null;
+    }
+  }
+
+  return { subcommand, values };
+}
+
+/**
+ * Holds the commands of one Discord integration and dispatches slash
+ * commands, autocomplete requests and `/name args` chat messages to them.
+ */
+export class CommandRegistry {
+  private commands = new Map<string, DiscordCommand>();
+
+  constructor(private readonly log: Logger) {}
+
+  setCommands(commands: readonly DiscordCommand[]): void {
+    this.commands = new Map(commands.map((command) => [command.name, command]));
+  }
+
+  has(name: string): boolean {
+    return this.commands.has(name);
+  }
+
+  /**
+   * Queues this relay's commands for the guild the promise resolves to. They
+   * reach Discord on the next {@link syncRegisteredCommands}.
+   */
+  register(guild: Promise<Guild | null>): void {
+    const commands = [...this.commands.values()];
+    pendingRegistrations.push(
+      guild.then((resolved) =>
+        resolved ? { guild: resolved, commands } : null,
+      ),
+    );
+  }
+
+  async handleInteraction(
+    interaction: ChatInputCommandInteraction,
+  ): Promise<void> {
+    const command = this.commands.get(interaction.commandName);
+    if (!command) {
+      return;
+    }
+
+    const roles = interaction.member?.roles;
+    const context: CommandContext = {
+      source: "slash",
+      user: { id: interaction.user.id, username: interaction.user.username },
+      memberRoleIds: Array.isArray(roles)
+        ? roles
+        : Array.from(roles?.cache.keys() ?? []),
+      channelId: interaction.channelId,
+      subcommand: interaction.options.getSubcommand(false),
+      getString: (name) => interaction.options.getString(name),
+      getUserId: (name) => interaction.options.getUser(name)?.id ?? null,
+      defer: async () => {
+        await interaction.deferReply();
+      },
+      followUp: async (response) => {
+        const { content, ephemeral } = toResponse(response);
+        await interaction.followUp({
+          content,
+          allowedMentions: { parse: [] },
+          ...(ephemeral ? { flags: MessageFlags.Ephemeral } : {}),
+        });
+      },
+    };
+
+    const reply = async (response: CommandResponse) => {
+      if (interaction.deferred) {
+        await interaction.editReply({
+          content: response.content,
+          allowedMentions: { parse: [] },
+        });
+        return;
+      }
+
+      await interaction.reply({
+        content: response.content,
+        allowedMentions: { parse: [] },
+        ...(response.ephemeral ? { flags: MessageFlags.Ephemeral } : {}),
+      });
+    };
+
+    try {
+      await reply(await this.run(command, context));
+    } catch (error) {
+      this.log(
+        "error",
+        `Failed to respond to /${command.name} slash command:`,
+        error,
+      );
+      if (interaction.replied) {
+        return;
+      }
+
+      try {
+        await reply({
+          content: command.errorMessage ?? "Unable to respond right now",
+          ephemeral: true,
+        });
+      } catch (innerError) {
+        this.log(
+          "error",
+          `Failed to send fallback response for /${command.name} command:`,
+          innerError,
+        );
+      }
+    }
+  }
+
+  async handleAutocomplete(
+    interaction: AutocompleteInteraction,
+  ): Promise<void> {
+    const command = this.commands.get(interaction.commandName);
+    const focused = interaction.options.getFocused(true);
+    const option = command
+      ? commandOptions(command, interaction.options.getSubcommand(false)).find(
+          ({ name }) => name === focused.name,
+        )
+      : undefined;
+
+    const partial = String(focused.value).toLowerCase();
+    const suggestions = (option?.autocomplete?.(partial) ?? [])
+      .filter((value) => value.toLowerCase().includes(partial))
+      .slice(0, MAX_AUTOCOMPLETE_CHOICES);
+
+    try {
+      await interaction.respond(
+        suggestions.map((value) => ({ name: value, value })),
+      );
+    } catch (error) {
+      this.log("debug", `Failed to autocomplete /${focused.name}:`, error);
+    }
+  }
+
+  /**
+   * Runs a `/name args` chat message as a command. Returns false when the
+   * message does not name a registered command, so it can be relayed.
+   */
+  async handleText(message: Message): Promise<boolean> {
+    const content = message.content.trim();
+    const [name, ...args] = content.slice(1).split(/\s+/);
+    const command = this.commands.get(name.toLowerCase());
+    if (!content.startsWith("/") || !command) {
+      return false;
+    }
+
+    const reply = async (response: CommandResponse | string) => {
+      await message.reply({
+        content: toResponse(response).content,
+        allowedMentions: { repliedUser: false, parse: [] },
+      });
+    };
+
+    try {
+      const invocation = parseTextInvocation(command, args);
+      if (!invocation) {
+        await reply(`Usage: ${formatUsage(command)}`);
+        return true;
+      }
+
+      const context: CommandContext = {
+        source: "text",
+        user: { id: message.author.id, username: message.author.username },
+        memberRoleIds: Array.from(message.member?.roles.cache.keys() ?? []),
+        channelId: message.channelId,
+        subcommand: invocation.subcommand,
+        getString: (option) => invocation.values[option] ?? null,
+        getUserId: (option) => invocation.values[option] ?? null,
+        defer: async () => {},
+        followUp: reply,
+      };
+      await reply(await this.run(command, context));
+    } catch (error) {
+      this.log(
+        "error",
+        `Failed to respond to /${command.name} command:`,
+        error,
+      );
+      await reply(command.errorMessage ?? "Unable to respond right now").catch(
+        () => {},
+      );
+    }
+    return true;
+  }
+
+  private async run(
+    command: DiscordCommand,
+    context: CommandContext,
+  ): Promise<CommandResponse> {
+    if (command.isAllowed && !command.isAllowed(context)) {
+      await command.onDenied?.(context);
+      return {
+        content: `You are not allowed to use /${command.name}`,
+        ephemeral: true,
+      };
+    }
+
+    return toResponse(await command.execute(context));
+  }
+}
+
+/**
+ * Waits for every queued registration, then creates or updates the commands
+ * of all relays in each guild and deletes the ones no relay registers. When
+ * relays register the same name, the first one's definition is used.
+ */
+export async function syncRegisteredCommands(log: Logger): Promise<void> {
+  const registrations = pendingRegistrations;
+  pendingRegistrations = [];
+
+  const guilds = new Map<
+    string,
+    { guild: Guild; commands: Map<string, DiscordCommand> }
+  >();
+  for (const result of await Promise.allSettled(registrations)) {
+    if (result.status === "rejected") {
+      log("error", "Failed to register slash commands:", result.reason);
+      continue;
+    }
+    if (!result.value) {
+      continue;
+    }
+
+    const { guild, commands } = result.value;
+    const entry = guilds.get(guild.id) ?? { guild, commands: new Map() };
+    for (const command of commands) {
+      if (!entry.commands.has(command.name)) {
+        entry.commands.set(command.name, command);
+      }
+    }
+    guilds.set(guild.id, entry);
+  }
+
+  for (const { guild, commands } of guilds.values()) {
+    try {
+      await syncGuildCommands(guild, commands, log);
+    } catch (error) {
+      log("error", `Failed to sync slash commands in ${guild.name}:`, error);
+    }
+  }
+}
+
+async function syncGuildCommands(
+  guild: Guild,
+  commands: ReadonlyMap<string, DiscordCommand>,
+  log: Logger,
+): Promise<void> {
+  const existingCommands = await guild.commands.fetch();
+  for (const command of commands.values()) {
+    const definition = toApplicationCommand(command);
+    const existing = existingCommands.find(({ name }) => name === command.name);
+
+    if (!existing) {
+      await guild.commands.create(definition);
+      log("info", `Registered /${command.name} slash command.`);
+    } else if (!existing.equals(definition)) {
+      await guild.commands.edit(existing.id, definition);
+      log("info", `Updated /${command.name} slash command.`);
+    }
+  }
+
+  for (const existing of existingCommands.values()) {
+    if (!commands.has(existing.name)) {
+      await guild.commands.delete(existing.id);
+      log("info", `Removed stale /${existing.name} slash command.`);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import type { APIEmbed, APIEmbedField } from "discord.js";
+import type { IntegrationStatusContext } from "./integrations/base.js";
+import { formatMessageBody } from "./messageFormatter.js";
+import type { ChatMessage, Config, StatusTemplates } from "./types.js";
+
+interface EmbedStyle {
+  color: number;
+  icon: string;
+  title: string;
+}
+
+const EVENT_STYLES: Record<string, EmbedStyle> = {
+  join: { color: 0x57f287, icon: "👋", title: "Player joined" },
+  leave: { color: 0x99aab5, icon: "🚪", title: "Player left" },
+  death: { color: 0xed4245, icon: "💀", title: "Player died" },
+  system: { color: 0x5865f2, icon: "📢", title: "Server message" },
+};
+
+const CUSTOM_EVENT_STYLE = { color: 0xfee75c, icon: "✨" };
+
+const STATUS_STYLES: Record<keyof StatusTemplates, EmbedStyle> = {
+  botJoined: { color: 0x5865f2, icon: "🤖", title: "Bot joined chat" },
+  botLeft: { color: 0x99aab5, icon: "🤖", title: "Bot left chat" },
+  connected: { color: 0x57f287, icon: "🟢", title: "Connected" },
+  disconnected: { color: 0xed4245, icon: "🔴", title: "Disconnected" },
+  connectionFailed: { color: 0xe67e22, icon: "⚠️", title: "Connection failed" },
+  reconnectFailed: { color: 0x992d22, icon: "❌", title: "Reconnect failed" },
+};
+
+const STATUS_REASONS: Record<
+  NonNullable<IntegrationStatusContext["reason"]>,
+  string
+> = {
+  connected: "Connected",
+  server: "Closed by server",
+  error: "Connection error",
+  "retries-exhausted": "Retries exhausted",
+  stopped: "Relay stopped",
+};
+
+// Discord rejects embeds whose parts exceed these lengths.
+const DESCRIPTION_LIMIT = 4096;
+const FIELD_VALUE_LIMIT = 1024;
+const FOOTER_LIMIT = 2048;
+
+const truncate = (value: string, limit: number): string =>
+  value.length > limit ? `${value.slice(0, limit - 1)}…` : value;
+
+const capitalize = (value: string): string =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+const field = (name: string, value: string): APIEmbedField => ({
+  name,
+  value: truncate(value, FIELD_VALUE_LIMIT),
+  inline: true,
+});
+
+const footer = (serverName?: string): Pick<APIEmbed, "footer"> =>
+  serverName ? { footer: { text: truncate(serverName, FOOTER_LIMIT) } } : {};
+
+export interface EventEmbedContext {
+  config?: Config;
+  /** Players online once the event has been applied. */
+  playerCount?: number;
+}
+
+/**
+ * Builds the embed announcing a non-chat event. Joins and leaves show the
+ * resulting player count, deaths their cause, and custom events the values
+ * captured by their parse rule.
+ */
+export function buildEventEmbed(
+  chatMessage: ChatMessage,
+  { config, playerCount }: EventEmbedContext = {},
+): APIEmbed {
+  const style = EVENT_STYLES[chatMessage.type] ?? {
+    ...CUSTOM_EVENT_STYLE,
+    title: capitalize(chatMessage.type),
+  };
+
+  const fields: APIEmbedField[] = [];
+  switch (chatMessage.type) {
+    case "join":
+    case "leave":
+      if (playerCount !== undefined) {
+        fields.push(field("Players online", String(playerCount)));
+      }
+      break;
+    case "death":
+      if (chatMessage.metadata?.cause) {
+        fields.push(field("Cause", chatMessage.metadata.cause));
+      }
+      break;
+    case "system":
+      break;
+    default:
+      for (const [name, value] of Object.entries(chatMessage.metadata ?? {})) {
+        if (value.length > 0) {
+          fields.push(field(capitalize(name), value));
+        }
+      }
+  }
+
+  return {
+    color: style.color,
+    title: `${style.icon} ${style.title}`,
+    description: truncate(
+      formatMessageBody(chatMessage, config),
+      DESCRIPTION_LIMIT,
+    ),
+    ...(fields.length > 0 ? { fields } : {}),
+    ...footer(chatMessage.server ?? config?.serverName),
+    timestamp: chatMessage.timestamp.toISOString(),
+  };
+}
+
+/**
+ * Builds the embed for a status message, listing the disconnect reason and
+ * reconnect attempts when known.
+ */
+export function buildStatusEmbed(
+  kind: keyof StatusTemplates,
+  text: string,
+  context: IntegrationStatusContext = {},
+  serverName?: string,
+): APIEmbed {
+  const style = STATUS_STYLES[kind];
+  const fields: APIEmbedField[] = [];
+  if (context.reason && context.reason !== "connected") {
+    fields.push(field("Reason", STATUS_REASONS[context.reason]));
+  }
+  if (context.attempts !== undefined) {
+    fields.push(field("Attempts", String(context.attempts)));
+  }
+
+  return {
+    color: style.color,
+    title: `${style.icon} ${style.title}`,
+    description: truncate(text, DESCRIPTION_LIMIT),
+    ...(fields.length > 0 ? { fields } : {}),
+    ...footer(serverName),
+    timestamp: new Date().toISOString(),
+  };
+}
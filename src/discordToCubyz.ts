@@ -0,0 +1,98 @@
+export interface DiscordAttachmentInfo {
+  name: string;
+  contentType?: string | null;
+}
+
+export interface DiscordMessageContent {
+  /** Message text with mentions already resolved, e.g. `cleanContent`. */
+  content: string;
+  attachments?: readonly DiscordAttachmentInfo[];
+  stickers?: readonly string[];
+}
+
+const URL_DISPLAY_LIMIT = 40;
+const CODE_PATTERN = /(```[\s\S]*?```|`[^`\n]+`)/;
+const CUSTOM_EMOJI_PATTERN = /<a?:(\w+):\d+>/g;
+const MASKED_LINK_PATTERN = /\[([^\]\n]+)\]\(<?(https?:\/\/[^\s)>]+)>?\)/g;
+const URL_PATTERN = /<?(https?:\/\/[^\s<>]+)>?/g;
+const SPOILER_PATTERN = /\|\|(.+?)\|\|/g;
+const UNDERSCORE_ITALIC_PATTERN = /(^|\W)_(?![_\s])(.+?)(?<![_\s])_(?!\w)/g;
+const LINE_PREFIX_PATTERN = /^(?:>>> |> |-# |#{1,3} )/gm;
+
+/**
+ * Shortens long links to their host and path, cut off with an ellipsis when
+ * they still do not fit.
+ */
+export function shortenUrl(url: string, limit = URL_DISPLAY_LIMIT): string {
+  if (url.length <= limit) {
+    return url;
+  }
+
+  let display = url;
+  try {
+    const parsed = new URL(url);
+    display = `${parsed.host.replace(/^www\./, "")}${parsed.pathname === "/" ? "" : parsed.pathname}${parsed.search}`;
+  } catch {
+    // Not a parseable URL; truncate it as is.
+  }
+
+  return display.length > limit ? `${display.slice(0, limit - 1)}…` : display;
+}
+
+const convertText = (text: string): string =>
+  text
+    .replace(LINE_PREFIX_PATTERN, "")
+    .replace(CUSTOM_EMOJI_PATTERN, ":$1:")
+    .replace(
+      MASKED_LINK_PATTERN,
+      (_match, label: string, url: string) => `${label} (${shortenUrl(url)})`,
+    )
+    .replace(URL_PATTERN, (_match, url: string) => shortenUrl(url))
+    .replace(SPOILER_PATTERN, "[spoiler: $1]")
+    .replace(UNDERSCORE_ITALIC_PATTERN, "$1*$2*");
+
+const convertCode = (code: string): string =>
+  code.startsWith("```")
+    ? code
+        .slice(3, -3)
+        .replace(/^\w*\n/, "")
+        .trim()
+    : code.slice(1, -1);
+
+/**
+ * Translates Discord markdown to the Cubyz subset, which shares `**bold**`,
+ * `*italic*`, `__underline__` and `~~strike~~`. Custom emoji become `:name:`,
+ * `_italic_` becomes `*italic*`, spoilers are marked, links are shortened, and
+ * code, quote and heading markers are dropped. Code keeps its content as is.
+ */
+export function convertDiscordMarkdown(content: string): string {
+  return content
+    .split(CODE_PATTERN)
+    .map((segment, index) =>
+      index % 2 === 1 ? convertCode(segment) : convertText(segment),
+    )
+    .join("");
+}
+
+/**
+ * Describes an attachment by kind and file name, e.g. `[image: cat.png]`.
+ */
+export function describeAttachment(attachment: DiscordAttachmentInfo): string {
+  const [kind] = (attachment.contentType ?? "").split("/");
+  const label = ["image", "video", "audio"].includes(kind) ? kind : "file";
+  return `[${label}: ${attachment.name}]`;
+}
+
+/**
+ * Builds the in-game text for a Discord message, followed by a summary of
+ * its attachments and stickers so image-only posts are not lost.
+ */
+export function discordToCubyz(message: DiscordMessageContent): string {
+  return [
+    convertDiscordMarkdown(message.content),
+    ...(message.attachments ?? []).map(describeAttachment),
+    ...(message.stickers ?? []).map((sticker) => `[sticker: ${sticker}]`),
+  ]
+    .filter((part) => part.trim().length > 0)
+    .join(" ");
+}
@@ -0,0 +1,182 @@
+import type { BotConnectionManager } from "./botConnection.js";
+import type { ActiveUsers } from "./integrations/base.js";
+import type { Logger } from "./logger.js";
+import { cleanUsername } from "./messageFormatter.js";
+import type { PlayerSessionStore } from "./playerSessions.js";
+import type { ChatMessage, Config, GameCommandName } from "./types.js";
+import { formatDuration } from "./utils.js";
+
+export const GAME_COMMAND_NAMES: readonly GameCommandName[] = [
+  "discord",
+  "online",
+  "playtime",
+  "rules",
+  "help",
+];
+
+const COMMAND_USAGE: Record<GameCommandName, string> = {
+  discord: "discord",
+  online: "online",
+  playtime: "playtime [player]",
+  rules: "rules",
+  help: "help",
+};
+
+/** Other names a command answers to. */
+const COMMAND_ALIASES: Record<string, GameCommandName> = {
+  active: "online",
+};
+
+export interface GameCommandDependencies {
+  bot: Pick<BotConnectionManager, "sendChat">;
+  sessions?: PlayerSessionStore | null;
+  /** Users who recently wrote on the chat integrations, for `online`. */
+  getActiveUsers: () => ActiveUsers[];
+  log: Logger;
+}
+
+/**
+ * Answers commands players type in game chat, such as `!discord` or
+ * `!playtime`, through the relay bot. Each player can use a command once per
+ * cooldown; repeats within it are ignored.
+ */
+export class GameCommandHandler {
+  private config: Config;
+  private readonly cooldowns = new Map<string, number>();
+  /** Replies are sent one at a time so multi-line answers stay together. */
+  private replyQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    config: Config,
+    private readonly dependencies: GameCommandDependencies,
+  ) {
+    this.config = config;
+  }
+
+  updateConfig(config: Config): void {
+    this.config = config;
+  }
+
+  /**
+   * Runs the command in a chat message. Returns true when the message was a
+   * command, so it is not relayed.
+   */
+  handle(chatMessage: ChatMessage, now = Date.now()): boolean {
+    const { enabled, prefix, commands, cooldownMs } = this.config.gameCommands;
+    const message = chatMessage.message?.trim() ?? "";
+    if (
+      !enabled ||
+      chatMessage.type !== "chat" ||
+      !message.startsWith(prefix) ||
+      this.isBot(chatMessage.username)
+    ) {
+      return false;
+    }
+
+    const [name, ...args] = message.slice(prefix.length).split(/\s+/);
+    const requested = name.toLowerCase();
+    const command = commands.find(
+      (candidate) => candidate === (COMMAND_ALIASES[requested] ?? requested),
+    );
+    if (!command) {
+      return false;
+    }
+
+    const key = `${chatMessage.username.toLowerCase()}\n${command}`;
+    if ((this.cooldowns.get(key) ?? 0) > now) {
+      return true;
+    }
+    this.pruneCooldowns(now);
+    this.cooldowns.set(key, now + cooldownMs);
+
+    const lines = this.respond(command, chatMessage.username, args.join(" "));
+    this.replyQueue = this.replyQueue.then(() => this.send(lines));
+    return true;
+  }
+
+  private respond(
+    command: GameCommandName,
+    username: string,
+    argument: string,
+  ): string[] {
+    const { prefix, commands, rules } = this.config.gameCommands;
+    switch (command) {
+      case "discord": {
+        const invite = this.config.integration.cubyzlistSite.discordServer;
+        return [
+          invite
+            ? `Join us on Discord: ${invite}`
+            : "This server has no Discord invite set up",
+        ];
+      }
+      case "online": {
+        const integrations = this.dependencies.getActiveUsers();
+        const active = integrations.filter(({ users }) => users.length > 0);
+        if (integrations.length === 0) {
+          return ["This server is not bridged to Discord"];
+        }
+        if (active.length === 0) {
+          return [
+            `Nobody has written on ${integrations.map(({ integration }) => integration).join(" or ")} recently`,
+          ];
+        }
+        return active.map(
+          ({ integration, users }) =>
+            `Recently active on ${integration} (${users.length}): ${users.join(", ")}`,
+        );
+      }
+      case "playtime": {
+        const sessions = this.dependencies.sessions;
+        if (!sessions) {
+          return ["Playtime is not tracked on this server"];
+        }
+
+        const player = cleanUsername(argument) || username;
+        const stats = sessions.getPlayer(player);
+        return [
+          stats
+            ? `${stats.name} has played ${formatDuration(stats.totalPlaytimeMs)}`
+            : `No playtime recorded for ${player}`,
+        ];
+      }
+      case "rules":
+        return rules.length > 0
+          ? rules.map((rule, index) => `${index + 1}. ${rule}`)
+          : ["No rules have been set"];
+      case "help":
+        return [
+          `Commands: ${commands.map((name) => `${prefix}${COMMAND_USAGE[name]}`).join(", ")}`,
+        ];
+    }
+  }
+
+  private async send(lines: readonly string[]): Promise<void> {
+    for (const line of lines) {
+      try {
+        await this.dependencies.bot.sendChat(line);
+      } catch (error) {
+        this.dependencies.log(
+          "error",
+          "Failed to answer in-game command:",
+          error,
+        );
+        return;
+      }
+    }
+  }
+
+  private isBot(username: string): boolean {
+    const botName = cleanUsername(this.config.cubyz.botName ?? "");
+    return (
+      botName.length > 0 && username.toLowerCase() === botName.toLowerCase()
+    );
+  }
+
+  private pruneCooldowns(now: number): void {
+    for (const [key, expiresAt] of this.cooldowns) {
+      if (expiresAt <= now) {
+        this.cooldowns.delete(key);
+      }
+    }
+  }
+}
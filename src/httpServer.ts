@@ -0,0 +1,138 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import type { ConnectionState } from "./botConnection.js";
+import type { NamedIntegrationHealth } from "./integrations/base.js";
+import type { Logger } from "./logger.js";
+import type { HttpServerConfig } from "./types.js";
+
+export interface ServerHealth {
+  server: string;
+  cubyz: ConnectionState;
+  integrations: NamedIntegrationHealth[];
+}
+
+export interface HealthReport {
+  status: "ok" | "degraded";
+  servers: ServerHealth[];
+}
+
+export interface HttpServerHandle {
+  /** Port the server is bound to, useful when configured with port 0. */
+  port: number;
+  close(): Promise<void>;
+}
+
+/**
+ * Handles a request the built-in routes do not cover. Resolves to false to
+ * let the server answer 404.
+ */
+export type HttpRequestHandler = (
+  request: IncomingMessage,
+  response: ServerResponse,
+  url: URL,
+) => Promise<boolean>;
+
+export interface HttpServerHandlers {
+  getHealth(): ServerHealth[];
+  renderMetrics(): string;
+  handleRequest?: HttpRequestHandler;
+}
+
+export function buildHealthReport(servers: ServerHealth[]): HealthReport {
+  const healthy = servers.every(
+    (server) =>
+      server.cubyz === "connected" &&
+      server.integrations.every((integration) => integration.healthy),
+  );
+  return { status: healthy ? "ok" : "degraded", servers };
+}
+
+export function sendJson(
+  response: ServerResponse,
+  statusCode: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void {
+  response.writeHead(statusCode, {
+    "Content-Type": "application/json",
+    ...headers,
+  });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Starts the optional HTTP server exposing `/healthz` and `/metrics`, plus
+ * any routes served by `handlers.handleRequest`.
+ * `/healthz` answers 503 while any relay is disconnected or an integration
+ * reports itself unhealthy, so it can drive container health checks.
+ */
+export async function startHttpServer(
+  config: HttpServerConfig,
+  handlers: HttpServerHandlers,
+  log: Logger,
+): Promise<HttpServerHandle> {
+  const handleRequest = async (
+    request: IncomingMessage,
+    response: ServerResponse,
+  ): Promise<void> => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const { pathname } = url;
+    const isRead = request.method === "GET" || request.method === "HEAD";
+
+    if (isRead && pathname === "/healthz") {
+      const report = buildHealthReport(handlers.getHealth());
+      sendJson(response, report.status === "ok" ? 200 : 503, report);
+      return;
+    }
+
+    if (isRead && pathname === "/metrics") {
+      response.writeHead(200, {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      });
+      response.end(handlers.renderMetrics());
+      return;
+    }
+
+    if (await handlers.handleRequest?.(request, response, url)) {
+      return;
+    }
+
+    sendJson(response, 404, { error: "Not found" });
+  };
+
+  const server = createServer((request, response) => {
+    handleRequest(request, response).catch((error) => {
+      log("error", "[HTTP] Request failed:", error);
+      if (!response.headersSent) {
+        sendJson(response, 500, { error: "Internal server error" });
+      } else {
+        response.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(config.port, config.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = server.address();
+  const boundPort =
+    address && typeof address === "object" ? address.port : config.port;
+  log("info", `[HTTP] Listening on http://${config.host}:${boundPort}`);
+
+  return {
+    port: boundPort,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+}
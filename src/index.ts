@@ -2,22 +2,66 @@
 import process from "node:process";
 import type { Key } from "node:readline";
 import readline from "node:readline";
+import type { Gamemode } from "cubyz-node-client";
+import { AccountLinkStore } from "./accountLinks.js";
+import { type ApiRelay, createApiHandler } from "./api.js";
 import { BotConnectionManager } from "./botConnection.js";
-import { ConfigTemplateCreatedError, loadConfig } from "./config.js";
+import {
+  ConfigTemplateCreatedError,
+  diffConfig,
+  loadConfig,
+  resolveServerConfigs,
+} from "./config.js";
+import { watchConfigFile } from "./configWatcher.js";
+import { DeathStatsStore } from "./deathStats.js";
+import { syncRegisteredCommands } from "./discordCommands.js";
+import { GameCommandHandler } from "./gameCommands.js";
+import { type HttpServerHandle, startHttpServer } from "./httpServer.js";
 import type { IntegrationStatusContext } from "./integrations/base.js";
 import { IntegrationManager } from "./integrations/index.js";
 import { createLogger, type Logger } from "./logger.js";
-import { delay } from "./utils.js";
+import { formatServerTag } from "./messageFormatter.js";
+import { metrics, metricsRegistry } from "./metrics.js";
+import { PlayerSessionStore } from "./playerSessions.js";
+import type { Config } from "./types.js";
+import { delay, gamemodeName, resolveDataFile } from "./utils.js";
 
 const DEFAULT_CONFIG_PATH = "config.json";
 
-let bot: BotConnectionManager | null = null;
+interface ServerRelay {
+  config: Config;
+  label: string;
+  bot: BotConnectionManager;
+  integrationManager: IntegrationManager;
+  sessions: PlayerSessionStore | null;
+  deaths: DeathStatsStore | null;
+  links: AccountLinkStore | null;
+  gameCommands: GameCommandHandler;
+  hasActiveConnection: boolean;
+  players: string[];
+  gamemode: Gamemode | null;
+}
+
+let relays: ServerRelay[] = [];
 let log: Logger;
-let integrationManager: IntegrationManager | null = null;
 let keypressHandler: ((str: string, key: Key) => void) | null = null;
+let stopWatchingConfig: (() => void) | null = null;
+let httpServer: HttpServerHandle | null = null;
 let rawModeEnabled = false;
 let isShuttingDown = false;
-let hasActiveConnection = false;
+let reloadInProgress: Promise<void> | null = null;
+let reloadPending = false;
+
+// Settings that are only read at startup; a reload keeps their running value.
+const RESTART_REQUIRED_SETTINGS = [
+  "logLevel",
+  "dataDirectory",
+  "discord.enabled",
+  "discord.token",
+  "discord.allowedMentions",
+  "integration.plugins",
+  "http",
+] as const;
 
 type DisconnectionContext = {
   reason: Exclude<NonNullable<IntegrationStatusContext["reason"]>, "connected">;
@@ -30,14 +74,17 @@ function getConfigPath(): string {
 }
 
 async function handleDisconnectionEvent(
+  relay: ServerRelay,
   payload: DisconnectionContext,
 ): Promise<void> {
-  if (integrationManager) {
-    try {
-      await integrationManager.updateStatus("offline", payload);
-    } catch (error) {
-      log("error", "Failed to update integrations on disconnect:", error);
-    }
+  try {
+    await relay.integrationManager.updateStatus("offline", payload);
+  } catch (error) {
+    log(
+      "error",
+      `${relay.label}Failed to update integrations on disconnect:`,
+      error,
+    );
   }
 }
 
@@ -64,22 +111,47 @@ async function shutdown(): Promise<void> {
 
   process.stdin.pause();
 
-  try {
-    if (bot) {
-      await bot.stop();
-      bot = null;
+  if (stopWatchingConfig) {
+    stopWatchingConfig();
+    stopWatchingConfig = null;
+  }
+
+  if (httpServer) {
+    try {
+      await httpServer.close();
+    } catch (error) {
+      log("error", "Failed to stop HTTP server:", error);
     }
-  } catch (error) {
-    log("error", "Failed to stop bot:", error);
+    httpServer = null;
   }
 
-  try {
-    if (integrationManager) {
-      await integrationManager.stopAll();
-      integrationManager = null;
+  const activeRelays = relays;
+  relays = [];
+
+  await Promise.all(
+    activeRelays.map(async (relay) => {
+      try {
+        await relay.bot.stop();
+      } catch (error) {
+        log("error", `${relay.label}Failed to stop bot:`, error);
+      }
+    }),
+  );
+
+  for (const relay of activeRelays) {
+    try {
+      await relay.integrationManager.stopAll();
+    } catch (error) {
+      log("error", `${relay.label}Failed to stop integrations:`, error);
+    }
+
+    try {
+      await relay.sessions?.close();
+      await relay.deaths?.close();
+      await relay.links?.close();
+    } catch (error) {
+      log("error", `${relay.label}Failed to save player stats:`, error);
     }
-  } catch (error) {
-    log("error", "Failed to stop integrations:", error);
   }
 }
 
@@ -111,102 +183,432 @@ function setupQuitHandler(): void {
     void shutdown();
   });
 
+  // Persist stats if the process exits without a graceful shutdown.
+  process.on("exit", () => {
+    for (const relay of relays) {
+      try {
+        relay.sessions?.closeSync();
+        relay.deaths?.closeSync();
+        relay.links?.closeSync();
+      } catch {
+        // Nothing else can be done while the process is exiting.
+      }
+    }
+  });
+
   log("info", "Press q to quit.");
 }
 
-async function main(): Promise<void> {
-  try {
-    const configPath = getConfigPath();
-    const config = await loadConfig(configPath);
-    log = createLogger(config.logLevel);
+async function createRelay(config: Config): Promise<ServerRelay> {
+  const bot = new BotConnectionManager(
+    config.cubyz,
+    config.connection,
+    config.logLevel,
+    config.excludeBotFromCount,
+    config.excludedUsernames,
+    config.serverName,
+    config,
+  );
+
+  const sessions = config.stats.enabled
+    ? new PlayerSessionStore(
+        resolveDataFile(
+          config.dataDirectory,
+          "sessions.json",
+          config.serverName,
+        ),
+        log,
+      )
+    : null;
+  await sessions?.load();
+
+  const deaths = config.stats.enabled
+    ? new DeathStatsStore(
+        resolveDataFile(config.dataDirectory, "deaths.json", config.serverName),
+        log,
+      )
+    : null;
+  await deaths?.load();
+
+  const links =
+    config.discord.enabled && config.discord.linking.enabled
+      ? new AccountLinkStore(
+          resolveDataFile(
+            config.dataDirectory,
+            "links.json",
+            config.serverName,
+          ),
+          log,
+        )
+      : null;
+  await links?.load();
+
+  const integrationManager = await IntegrationManager.create(config, {
+    bot,
+    sessions: sessions ?? undefined,
+    deaths: deaths ?? undefined,
+    links: links ?? undefined,
+  });
+  const gameCommands = new GameCommandHandler(config, {
+    bot,
+    sessions,
+    getActiveUsers: () => integrationManager.getActiveUsers(),
+    log,
+  });
 
-    bot = new BotConnectionManager(
-      config.cubyz,
-      config.connection,
-      config.logLevel,
-      config.excludeBotFromCount,
-      config.excludedUsernames,
-    );
+  const relay: ServerRelay = {
+    config,
+    label: formatServerTag(config.serverName),
+    bot,
+    integrationManager,
+    sessions,
+    deaths,
+    links,
+    gameCommands,
+    hasActiveConnection: false,
+    players: [],
+    gamemode: null,
+  };
 
-    integrationManager = new IntegrationManager(config, { bot });
+  bot.on("connected", async () => {
+    const { label } = relay;
+    log("info", `${label}Bot connected to Cubyz server.`);
+    relay.hasActiveConnection = true;
 
-    bot.on("connected", async () => {
-      log("info", "Bot connected to Cubyz server.");
-      hasActiveConnection = true;
+    try {
+      await integrationManager.updateStatus("online", {
+        reason: "connected",
+      });
+    } catch (error) {
+      log(
+        "error",
+        `${label}Failed to notify integrations of connection:`,
+        error,
+      );
+    }
 
-      if (integrationManager) {
-        try {
-          await integrationManager.updateStatus("online", {
-            reason: "connected",
-          });
-        } catch (error) {
-          log("error", "Failed to notify integrations of connection:", error);
-        }
+    const { startupMessages, startupMessageDelay } = relay.config;
+    for (const message of startupMessages) {
+      if (startupMessageDelay > 0) {
+        await delay(startupMessageDelay);
       }
-
-      const activeBot = bot;
-      if (activeBot && config.startupMessages.length > 0) {
-        for (const message of config.startupMessages) {
-          if (config.startupMessageDelay > 0) {
-            await delay(config.startupMessageDelay);
-          }
-          try {
-            await activeBot.sendChat(message);
-          } catch (error) {
-            log("error", "Failed to send startup message to Cubyz:", error);
-          }
-        }
+      try {
+        await bot.sendChat(message, { immediate: true });
+      } catch (error) {
+        log("error", `${label}Failed to send startup message to Cubyz:`, error);
       }
-    });
+    }
 
-    bot.on("disconnected", (payload) => {
-      log("debug", "Bot disconnected from Cubyz server.");
-      if (!hasActiveConnection) {
-        return;
-      }
-      hasActiveConnection = false;
-      void handleDisconnectionEvent(payload);
-    });
+    try {
+      bot.flushQueue();
+    } catch (error) {
+      log("error", `${label}Failed to deliver queued chat messages:`, error);
+    }
+  });
 
-    bot.on("chat", (chatMessage) => {
-      if (!integrationManager) {
-        return;
-      }
-      void integrationManager.relayChatMessage(chatMessage);
-    });
+  bot.on("disconnected", (payload) => {
+    log("debug", `${relay.label}Bot disconnected from Cubyz server.`);
+    sessions?.closeAll();
+    relay.players = [];
+    metrics.players.set({ server: relay.config.serverName ?? "" }, 0);
+    if (!relay.hasActiveConnection) {
+      return;
+    }
+    relay.hasActiveConnection = false;
+    void handleDisconnectionEvent(relay, payload);
+  });
 
-    bot.on("players", (payload) => {
-      log(
-        "debug",
-        `Received players update: ${payload.players.length} player(s) online.`,
-      );
-      if (!integrationManager) {
-        return;
-      }
-      void integrationManager.updatePlayers(payload.players);
-    });
+  bot.on("chat", (chatMessage) => {
+    if (chatMessage.type === "join") {
+      sessions?.recordJoin(chatMessage.username);
+    } else if (chatMessage.type === "leave") {
+      sessions?.recordLeave(chatMessage.username);
+    } else if (chatMessage.type === "death") {
+      deaths?.recordDeath(chatMessage.username, chatMessage.metadata?.cause);
+    } else if (gameCommands.handle(chatMessage)) {
+      return;
+    }
+    void integrationManager.relayChatMessage(chatMessage);
+  });
 
-    bot.on("gamemode", (gamemode) => {
-      log("debug", `Received gamemode update: ${gamemode}`);
-      if (!integrationManager) {
-        return;
-      }
-      void integrationManager.updateGamemode(gamemode);
-    });
+  bot.on("players", (payload) => {
+    log(
+      "debug",
+      `${relay.label}Received players update: ${payload.players.length} player(s) online.`,
+    );
+    relay.players = payload.players;
+    sessions?.syncRoster(payload.players);
+    metrics.players.set(
+      { server: relay.config.serverName ?? "" },
+      payload.players.length,
+    );
+    void integrationManager.updatePlayers(payload.players);
+  });
 
-    bot.on("reconnecting", ({ attempt, maxRetries, delayMs }) => {
-      const total = maxRetries === null ? "∞" : maxRetries;
-      log("info", `Reconnecting in ${delayMs}ms (attempt ${attempt}/${total})`);
-    });
+  bot.on("gamemode", (gamemode) => {
+    log("debug", `${relay.label}Received gamemode update: ${gamemode}`);
+    relay.gamemode = gamemode;
+    void integrationManager.updateGamemode(gamemode);
+  });
 
-    bot.on("error", (error) => {
-      log("error", "Bot connection error:", error);
-    });
+  bot.on("reconnecting", ({ attempt, maxRetries, delayMs }) => {
+    const total = maxRetries === null ? "∞" : maxRetries;
+    metrics.reconnectAttempts.inc({ server: relay.config.serverName ?? "" });
+    log(
+      "info",
+      `${relay.label}Reconnecting in ${delayMs}ms (attempt ${attempt}/${total})`,
+    );
+  });
+
+  bot.on("error", (error) => {
+    log("error", `${relay.label}Bot connection error:`, error);
+  });
+
+  return relay;
+}
+
+function toApiRelay(relay: ServerRelay): ApiRelay {
+  return {
+    server: relay.config.serverName ?? "",
+    sendChat: (message) => relay.bot.sendChat(message),
+    notify: (message) => relay.integrationManager.sendMessage(message),
+    audit: (message) => relay.integrationManager.audit(message),
+    getSnapshot: () => ({
+      status: relay.hasActiveConnection ? "online" : "offline",
+      players: [...relay.players],
+      gamemode: relay.gamemode === null ? null : gamemodeName(relay.gamemode),
+    }),
+  };
+}
+
+/**
+ * Builds the configuration to apply to a running relay: everything from the
+ * reloaded file except settings that need a restart, which keep their
+ * current value.
+ */
+function mergeReloadedConfig(current: Config, next: Config): Config {
+  return {
+    ...next,
+    logLevel: current.logLevel,
+    dataDirectory: current.dataDirectory,
+    http: current.http,
+    stats: { ...next.stats, enabled: current.stats.enabled },
+    discord: {
+      ...next.discord,
+      enabled: current.discord.enabled,
+      token: current.discord.token,
+      allowedMentions: current.discord.allowedMentions,
+      linking: {
+        ...next.discord.linking,
+        enabled: current.discord.linking.enabled,
+      },
+    },
+    integration: {
+      ...next.integration,
+      cubyzlistSite: {
+        ...next.integration.cubyzlistSite,
+        enabled: current.integration.cubyzlistSite.enabled,
+      },
+      webhooks: {
+        ...next.integration.webhooks,
+        enabled: current.integration.webhooks.enabled,
+      },
+      irc: {
+        ...next.integration.irc,
+        enabled: current.integration.irc.enabled,
+      },
+      matrix: {
+        ...next.integration.matrix,
+        enabled: current.integration.matrix.enabled,
+      },
+      plugins: current.integration.plugins,
+    },
+  };
+}
+
+async function applyReloadedConfig(
+  relay: ServerRelay,
+  next: Config,
+): Promise<void> {
+  const changes = diffConfig(relay.config, next).filter(
+    (setting) => setting !== "servers",
+  );
+  if (changes.length === 0) {
+    return;
+  }
+
+  const restartRequired = changes.filter(
+    (setting) =>
+      (RESTART_REQUIRED_SETTINGS as readonly string[]).includes(setting) ||
+      (setting === "stats" &&
+        relay.config.stats.enabled !== next.stats.enabled) ||
+      (setting === "discord.linking" &&
+        relay.config.discord.linking.enabled !==
+          next.discord.linking.enabled) ||
+      (setting === "integration.cubyzlistSite" &&
+        relay.config.integration.cubyzlistSite.enabled !==
+          next.integration.cubyzlistSite.enabled) ||
+      (setting === "integration.webhooks" &&
+        relay.config.integration.webhooks.enabled !==
+          next.integration.webhooks.enabled) ||
+      (setting === "integration.irc" &&
+        relay.config.integration.irc.enabled !==
+          next.integration.irc.enabled) ||
+      (setting === "integration.matrix" &&
+        relay.config.integration.matrix.enabled !==
+          next.integration.matrix.enabled),
+  );
+  const applied = mergeReloadedConfig(relay.config, next);
+  const reconnect = changes.includes("cubyz");
+
+  relay.config = applied;
+  relay.label = formatServerTag(applied.serverName);
+  relay.gameCommands.updateConfig(applied);
+  await relay.integrationManager.updateConfig(applied);
+
+  log("info", `${relay.label}Applied config changes: ${changes.join(", ")}`);
+  const lines = [
+    `🔄 **Configuration reloaded**: ${changes.join(", ")}${reconnect ? " (reconnecting to Cubyz)" : ""}`,
+  ];
+  if (restartRequired.length > 0) {
+    log(
+      "warn",
+      `${relay.label}Restart required to apply: ${restartRequired.join(", ")}`,
+    );
+    lines.push(`⚠️ Restart required to apply: ${restartRequired.join(", ")}`);
+  }
+  await relay.integrationManager.sendMessage(
+    `${relay.label}${lines.join("\n")}`,
+  );
+
+  await relay.bot.reconfigure(
+    applied.cubyz,
+    applied.connection,
+    applied.excludeBotFromCount,
+    applied.excludedUsernames,
+    applied.serverName,
+    applied,
+  );
+}
+
+async function reloadConfig(configPath: string): Promise<void> {
+  let nextConfig: Config;
+  try {
+    nextConfig = await loadConfig(configPath, { createTemplate: false });
+  } catch (error) {
+    log(
+      "error",
+      "Config reload failed, keeping the current configuration:",
+      error,
+    );
+    return;
+  }
+
+  const serverConfigs = resolveServerConfigs(nextConfig);
+  const findServerConfig = (relay: ServerRelay): Config | undefined =>
+    relays.length === 1 && serverConfigs.length === 1
+      ? serverConfigs[0]
+      : serverConfigs.find(
+          (candidate) => candidate.serverName === relay.config.serverName,
+        );
+
+  const unmatchedServers = serverConfigs.filter(
+    (candidate) =>
+      !relays.some((relay) => findServerConfig(relay) === candidate),
+  );
+  const removedRelays = relays.filter((relay) => !findServerConfig(relay));
+  if (unmatchedServers.length > 0 || removedRelays.length > 0) {
+    log(
+      "warn",
+      "Adding or removing servers requires a restart; only existing servers were updated.",
+    );
+  }
+
+  for (const relay of relays) {
+    const next = findServerConfig(relay);
+    if (!next) {
+      continue;
+    }
+
+    try {
+      await applyReloadedConfig(relay, next);
+    } catch (error) {
+      log("error", `${relay.label}Failed to apply reloaded config:`, error);
+    }
+  }
+}
+
+function scheduleConfigReload(configPath: string): void {
+  if (isShuttingDown) {
+    return;
+  }
+
+  // Serialize reloads; a change during a reload triggers one more pass.
+  if (reloadInProgress) {
+    reloadPending = true;
+    return;
+  }
+
+  reloadInProgress = reloadConfig(configPath).finally(() => {
+    reloadInProgress = null;
+    if (reloadPending) {
+      reloadPending = false;
+      scheduleConfigReload(configPath);
+    }
+  });
+}
+
+async function main(): Promise<void> {
+  try {
+    const configPath = getConfigPath();
+    const config = await loadConfig(configPath);
+    log = createLogger(config.logLevel);
+
+    for (const serverConfig of resolveServerConfigs(config)) {
+      relays.push(await createRelay(serverConfig));
+    }
 
     setupQuitHandler();
+    stopWatchingConfig = watchConfigFile(configPath, (trigger) => {
+      log(
+        "info",
+        trigger === "signal"
+          ? "Received SIGHUP. Reloading configuration..."
+          : "Configuration file changed. Reloading...",
+      );
+      scheduleConfigReload(configPath);
+    });
 
-    await integrationManager.startAll();
-    await bot.start();
+    if (config.http.enabled) {
+      httpServer = await startHttpServer(
+        config.http,
+        {
+          getHealth: () =>
+            relays.map((relay) => ({
+              server: relay.config.serverName ?? "",
+              cubyz: relay.bot.getState(),
+              integrations: relay.integrationManager.getStatuses(),
+            })),
+          renderMetrics: () => metricsRegistry.render(),
+          handleRequest: config.http.api.enabled
+            ? createApiHandler(
+                config.http.api,
+                () => relays.map(toApiRelay),
+                log,
+              )
+            : undefined,
+        },
+        log,
+      );
+    }
+
+    for (const relay of relays) {
+      await relay.integrationManager.startAll();
+    }
+    // Relays can share a guild, so slash commands are synced once all of them
+    // have registered theirs.
+    void syncRegisteredCommands(log);
+    await Promise.all(relays.map((relay) => relay.bot.start()));
   } catch (error) {
     if (error instanceof ConfigTemplateCreatedError) {
       console.warn(error.message);
@@ -1,12 +1,27 @@
 import type { Gamemode } from "cubyz-node-client";
 import type { BotConnectionManager } from "../botConnection.js";
-import type { ChatMessage } from "../types.js";
+import type { ChatMessage, Config } from "../types.js";
 
 export interface IntegrationStatusContext {
   reason?: "connected" | "server" | "error" | "retries-exhausted" | "stopped";
   attempts?: number;
 }
 
+export interface IntegrationHealth {
+  healthy: boolean;
+  /** Short human-readable explanation, e.g. why the integration is unhealthy. */
+  detail?: string;
+}
+
+export interface NamedIntegrationHealth extends IntegrationHealth {
+  name: string;
+}
+
+export interface ActiveUsers {
+  integration: string;
+  users: string[];
+}
+
 /**
  * Base interface for all integrations.
  * Integrations are modular components that can send updates to external services
@@ -68,4 +83,31 @@ export interface BaseIntegration {
    * @param message - Message content to deliver
    */
   sendMessage(message: string): Promise<void>;
+
+  /**
+   * Apply a reloaded configuration without restarting the integration.
+   * Optional; integrations without it keep the configuration they started with.
+   * @param config - Validated configuration scoped to the integration's server
+   */
+  updateConfig?(config: Config): Promise<void>;
+
+  /**
+   * Report whether the integration is working, for the health endpoint.
+   * Optional; integrations without it are reported as healthy.
+   */
+  getStatus?(): IntegrationHealth;
+
+  /**
+   * List the users recently active on the integration, for the in-game
+   * `online` command.
+   * Optional; integrations without it are left out.
+   */
+  getActiveUsers?(): string[];
+
+  /**
+   * Record a moderation-relevant action, such as chat sent through the API.
+   * Optional; integrations without an audit log ignore it.
+   * @param message - Description of the action and who took it
+   */
+  audit?(message: string): Promise<void>;
 }
@@ -2,13 +2,19 @@ import net from "node:net";
 import type { Gamemode } from "cubyz-node-client";
 import type { BotConnectionManager } from "../botConnection.js";
 import { createLogger, type Logger } from "../logger.js";
+import { recordSendFailure } from "../metrics.js";
 import type {
   ChatMessage,
   Config,
   CubyzListSiteConfig,
   LogLevel,
 } from "../types.js";
-import type { BaseIntegration, IntegrationStatusContext } from "./base.js";
+import { gamemodeName } from "../utils.js";
+import type {
+  BaseIntegration,
+  IntegrationHealth,
+  IntegrationStatusContext,
+} from "./base.js";
 
 /**
  * Integration that sends server status updates to the Cubyz list site
@@ -26,13 +32,16 @@ export class CubyzListSiteIntegration implements BaseIntegration {
   private periodicUpdateInterval: NodeJS.Timeout | null = null;
   private readonly UPDATE_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
   private isReady = false;
-  private readonly config: CubyzListSiteConfig;
-  private readonly version: string;
+  private lastUpdateError: string | null = null;
+  private config: CubyzListSiteConfig;
+  private version: string;
+  private serverName?: string;
   private readonly logger: Logger;
 
   constructor(config: Config) {
     this.config = config.integration.cubyzlistSite;
     this.version = config.cubyz.version;
+    this.serverName = config.serverName;
     this.logger = createLogger(config.logLevel);
   }
 
@@ -75,17 +84,29 @@ export class CubyzListSiteIntegration implements BaseIntegration {
   }
 
   async updateGamemode(gamemode: Gamemode): Promise<void> {
-    switch (gamemode) {
-      case 0:
-        this.gamemode = "survival";
-        break;
-      case 1:
-        this.gamemode = "creative";
-        break;
-    }
+    this.gamemode = gamemodeName(gamemode) ?? this.gamemode;
     await this.sendUpdate();
   }
 
+  async updateConfig(config: Config): Promise<void> {
+    this.config = config.integration.cubyzlistSite;
+    this.version = config.cubyz.version;
+    this.serverName = config.serverName;
+    await this.sendUpdate();
+  }
+
+  getStatus(): IntegrationHealth {
+    if (!this.isReady) {
+      return { healthy: false, detail: "Not started" };
+    }
+    return this.lastUpdateError
+      ? {
+          healthy: false,
+          detail: `Last update failed: ${this.lastUpdateError}`,
+        }
+      : { healthy: true };
+  }
+
   async relayChatMessage(_chatMessage: ChatMessage) {}
 
   async sendMessage(_message: string) {}
@@ -158,17 +179,24 @@ export class CubyzListSiteIntegration implements BaseIntegration {
 
       socket.on("error", (error) => {
         this.log("error", "TCP connection error:", error.message);
+        this.lastUpdateError = error.message;
+        recordSendFailure(this.serverName, this.name);
         reject(error);
       });
 
-      socket.on("close", () => {
+      socket.on("close", (hadError) => {
         this.lastUpdateTime = Date.now();
+        if (!hadError) {
+          this.lastUpdateError = null;
+        }
         resolve();
       });
 
       // Timeout after 5 seconds
       socket.setTimeout(5000, () => {
         socket.destroy();
+        this.lastUpdateError = "Connection timeout";
+        recordSendFailure(this.serverName, this.name);
         reject(new Error("[CubyzListSite] Connection timeout"));
       });
     });
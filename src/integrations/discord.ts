@@ -1,7 +1,8 @@
+import { once } from "node:events";
 import type { Gamemode } from "cubyz-node-client";
 import type {
-  ApplicationCommand,
   Client,
+  Guild,
   Interaction,
   Message,
   MessageReaction,
@@ -9,22 +10,67 @@ import type {
   PartialUser,
   User,
 } from "discord.js";
-import { Events, MessageFlags } from "discord.js";
+import { Events } from "discord.js";
+import type { AccountLinkStore } from "../accountLinks.js";
+import {
+  buildServerCommand,
+  captureServerResponses,
+  formatAdminReply,
+  hasAdminRole,
+} from "../adminCommands.js";
 import type { BotConnectionManager } from "../botConnection.js";
+import type { DeathStatsStore } from "../deathStats.js";
 import {
   cleanup as cleanupDiscordClient,
+  type DiscordMessagePayload,
   initializeDiscordClient,
+  preloadChannels,
   sendMessage,
+  sendWebhookMessage,
   updatePlayerCount as updateDiscordPresence,
 } from "../discordClient.js";
+import {
+  type CommandContext,
+  type CommandOption,
+  CommandRegistry,
+  type CommandResponse,
+  type DiscordCommand,
+} from "../discordCommands.js";
+import { buildEventEmbed, buildStatusEmbed } from "../discordEmbeds.js";
+import { discordToCubyz } from "../discordToCubyz.js";
 import { createLogger, type Logger } from "../logger.js";
 import {
+  extractMentionNames,
+  type MentionCandidate,
+  resolveMentions,
+} from "../mentions.js";
+import {
+  censorMessage,
   cleanUsername,
+  formatChatContent,
   formatMessage,
+  formatServerTag,
+  renderStatusTemplate,
+  resolveStatusTemplate,
   shouldRelayEvent,
 } from "../messageFormatter.js";
-import type { ChatMessage, Config, LogLevel } from "../types.js";
-import type { BaseIntegration, IntegrationStatusContext } from "./base.js";
+import { recordRelayedMessage, recordSendFailure } from "../metrics.js";
+import type { PlayerSessionStore } from "../playerSessions.js";
+import { renderTemplate } from "../templates.js";
+import type {
+  AdminCommandName,
+  ChatMessage,
+  Config,
+  EventType,
+  LogLevel,
+  StatusTemplates,
+} from "../types.js";
+import { formatDuration } from "../utils.js";
+import type {
+  BaseIntegration,
+  IntegrationHealth,
+  IntegrationStatusContext,
+} from "./base.js";
 
 interface CachedMessage {
   rawUsername: string;
@@ -34,31 +80,137 @@ interface CachedMessage {
 }
 
 const MESSAGE_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const ACTIVE_USER_WINDOW_MS = 15 * 60 * 1000;
 const DEFAULT_CUBYZ_COLOR_RESET = "#FFFFFF";
 const DISCORD_MESSAGE_LIMIT = 2000;
 const MAX_PLAYER_LIST_ENTRIES = 50;
+const TOP_PLAYTIME_ENTRIES = 10;
+const QUEUED_REACTION = "⏳";
+const EXPIRED_REACTION = "⌛";
+const FAILED_REACTION = "❌";
+const TOP_DEATH_ENTRIES = 10;
+const TOP_DEATH_CAUSES = 5;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const WEEKLY_SUMMARY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const WEBHOOK_USERNAME_LIMIT = 80;
 
 const collapseWhitespace = (input: string): string =>
   input.replace(/\s+/g, " ").trim();
 
+const toDiscordTimestamp = (date: Date, style: "R" | "f"): string =>
+  `<t:${Math.floor(date.getTime() / 1000)}:${style}>`;
+
+export interface DiscordIntegrationServices {
+  sessions?: PlayerSessionStore;
+  deaths?: DeathStatsStore;
+  links?: AccountLinkStore;
+}
+
+const PLAYER_OPTION: CommandOption = {
+  type: "string",
+  name: "player",
+  description: "Cubyz player name",
+  required: true,
+};
+
+const REASON_OPTION: CommandOption = {
+  type: "string",
+  name: "reason",
+  description: "Reason shown to the player",
+};
+
+const ADMIN_COMMANDS: {
+  name: AdminCommandName;
+  description: string;
+  options: CommandOption[];
+}[] = [
+  {
+    name: "kick",
+    description: "Kick a player from the Cubyz server.",
+    options: [PLAYER_OPTION, REASON_OPTION],
+  },
+  {
+    name: "ban",
+    description: "Ban a player from the Cubyz server.",
+    options: [PLAYER_OPTION, REASON_OPTION],
+  },
+  {
+    name: "tp",
+    description: "Teleport a player.",
+    options: [
+      PLAYER_OPTION,
+      {
+        type: "string",
+        name: "destination",
+        description: "Target player or coordinates",
+        required: true,
+      },
+    ],
+  },
+  {
+    name: "time",
+    description: "Set the time of day on the Cubyz server.",
+    options: [
+      {
+        type: "string",
+        name: "value",
+        description: "Time to set, e.g. day, night or a number",
+        required: true,
+      },
+    ],
+  },
+  {
+    name: "cmd",
+    description: "Run a server command through the relay bot.",
+    options: [
+      {
+        type: "string",
+        name: "command",
+        description: "Command to run, e.g. /gamemode creative",
+        required: true,
+      },
+    ],
+  },
+];
+
 export class DiscordIntegration implements BaseIntegration {
   readonly name = "Discord";
 
-  private readonly config: Config;
+  private config: Config;
   private readonly messageCache = new Map<string, CachedMessage>();
-  private readonly botNormalizedName: string;
+  /** Display names and last message time of chat channel users, by user ID. */
+  private readonly activeUsers = new Map<
+    string,
+    { name: string; lastActiveAt: number }
+  >();
+  private botNormalizedName: string;
   private client: Client<boolean> | null = null;
   private bot: BotConnectionManager | null = null;
   private isReady = false;
   private currentPlayers: string[] = [];
   private readonly logger: Logger;
-
-  constructor(config: Config) {
+  private readonly sessions: PlayerSessionStore | null;
+  private readonly deaths: DeathStatsStore | null;
+  private readonly links: AccountLinkStore | null;
+  private readonly commands: CommandRegistry;
+  /** `/link` invocations awaiting their code, keyed by Discord user ID. */
+  private readonly pendingLinks = new Map<string, CommandContext>();
+  private weeklySummaryTimer: NodeJS.Timeout | null = null;
+  /** Admin commands run one at a time so their responses don't mix. */
+  private adminCommandQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(config: Config, services: DiscordIntegrationServices = {}) {
     this.config = config;
+    this.sessions = services.sessions ?? null;
+    this.deaths = services.deaths ?? null;
+    this.links = services.links ?? null;
     this.botNormalizedName = cleanUsername(
       config.cubyz.botName ?? "",
     ).toLowerCase();
     this.logger = createLogger(config.logLevel);
+    this.commands = new CommandRegistry((level, ...args) =>
+      this.log(level, ...args),
+    );
   }
 
   private log(level: LogLevel, ...args: unknown[]) {
@@ -87,17 +239,15 @@ export class DiscordIntegration implements BaseIntegration {
     client.on("messageReactionAdd", this.handleReactionAdd);
     client.on("interactionCreate", this.handleInteractionCreate);
 
-    if (client.isReady()) {
-      await this.registerSlashCommands();
-    } else {
-      client.once(Events.ClientReady, () => {
-        void this.registerSlashCommands();
-      });
-    }
+    this.commands.setCommands(this.buildCommands());
+    this.commands.register(this.resolveCommandGuild(client));
+
+    await preloadChannels(this.configuredChannelIds());
 
     this.isReady = true;
-    await this.sendMessage("**🤖 Bot has joined chat**");
+    await this.sendStatusMessage("botJoined");
     await this.updatePresence(0);
+    this.startWeeklySummary();
   }
 
   async stop(): Promise<void> {
@@ -105,9 +255,10 @@ export class DiscordIntegration implements BaseIntegration {
       return;
     }
 
-    await this.sendMessage("**🤖 Bot has left chat**");
+    await this.sendStatusMessage("botLeft");
 
     this.isReady = false;
+    this.stopWeeklySummary();
     const client = this.client;
     if (client) {
       client.off("messageCreate", this.handleMessageCreate);
@@ -116,6 +267,8 @@ export class DiscordIntegration implements BaseIntegration {
     }
 
     this.messageCache.clear();
+    this.activeUsers.clear();
+    this.pendingLinks.clear();
     this.client = null;
     await cleanupDiscordClient();
   }
@@ -142,9 +295,9 @@ export class DiscordIntegration implements BaseIntegration {
       await this.updatePresence(0);
     }
 
-    const statusMessage = this.resolveStatusMessage(status, context);
-    if (statusMessage) {
-      await this.sendMessage(statusMessage);
+    const statusTemplate = resolveStatusTemplate(status, context);
+    if (statusTemplate) {
+      await this.sendStatusMessage(statusTemplate, context);
     }
   }
 
@@ -155,6 +308,10 @@ export class DiscordIntegration implements BaseIntegration {
       return;
     }
 
+    if (chatMessage.type === "chat" && this.handleLinkCode(chatMessage)) {
+      return;
+    }
+
     if (!shouldRelayEvent(chatMessage.type, this.config)) {
       return;
     }
@@ -168,10 +325,18 @@ export class DiscordIntegration implements BaseIntegration {
     }
 
     try {
-      const payload = formatMessage(chatMessage, this.config);
-      const sentMessage = await sendMessage(
-        this.config.discord.channelId,
-        payload,
+      const channelId = this.resolveEventChannelId(chatMessage.type);
+      const sentMessage =
+        chatMessage.type === "chat" && this.config.discord.webhook.enabled
+          ? await this.sendChatViaWebhook(channelId, chatMessage)
+          : await sendMessage(
+              channelId,
+              await this.buildEventMessage(channelId, chatMessage),
+            );
+      recordRelayedMessage(
+        this.config.serverName,
+        chatMessage.type,
+        "from_cubyz",
       );
 
       if (chatMessage.type === "chat" && chatMessage.message) {
@@ -188,6 +353,45 @@ export class DiscordIntegration implements BaseIntegration {
       }
     } catch (error) {
       this.log("error", "Failed to send message to Discord:", error);
+      recordSendFailure(this.config.serverName, this.name);
+    }
+  }
+
+  getStatus(): IntegrationHealth {
+    if (!this.isReady) {
+      return { healthy: false, detail: "Not started" };
+    }
+    if (!this.client?.isReady()) {
+      return { healthy: false, detail: "Discord client is not ready" };
+    }
+    return { healthy: true };
+  }
+
+  /**
+   * Lists who wrote in the chat channel recently, most recent first. Online
+   * status would need the privileged presence intent.
+   */
+  getActiveUsers(): string[] {
+    const cutoff = Date.now() - ACTIVE_USER_WINDOW_MS;
+    for (const [id, entry] of this.activeUsers) {
+      if (entry.lastActiveAt < cutoff) {
+        this.activeUsers.delete(id);
+      }
+    }
+
+    return Array.from(this.activeUsers.values())
+      .sort((a, b) => b.lastActiveAt - a.lastActiveAt)
+      .map(({ name }) => name);
+  }
+
+  async updateConfig(config: Config): Promise<void> {
+    this.config = config;
+    this.botNormalizedName = cleanUsername(
+      config.cubyz.botName ?? "",
+    ).toLowerCase();
+
+    if (this.isActive()) {
+      await preloadChannels(this.configuredChannelIds());
     }
   }
 
@@ -200,9 +404,213 @@ export class DiscordIntegration implements BaseIntegration {
       await sendMessage(this.config.discord.channelId, message);
     } catch (error) {
       this.log("error", "Failed to send notification to Discord:", error);
+      recordSendFailure(this.config.serverName, this.name);
+    }
+  }
+
+  /**
+   * Posts a chat line through the channel webhook so it shows under the
+   * player's name, falling back to a regular bot message if that fails.
+   */
+  private async sendChatViaWebhook(
+    channelId: string,
+    chatMessage: ChatMessage,
+  ): Promise<Message> {
+    const { name, avatarUrlTemplate } = this.config.discord.webhook;
+    const content = await this.resolveMentions(
+      channelId,
+      formatChatContent(chatMessage, this.config),
+    );
+
+    try {
+      return await sendWebhookMessage(channelId, name, {
+        content: content.length > 0 ? content : "\u200b",
+        username: `${this.serverTag()}${chatMessage.username}`.slice(
+          0,
+          WEBHOOK_USERNAME_LIMIT,
+        ),
+        avatarURL: avatarUrlTemplate?.replaceAll(
+          "{username}",
+          encodeURIComponent(chatMessage.username),
+        ),
+      });
+    } catch (error) {
+      this.log(
+        "warn",
+        "Failed to send chat message via webhook, falling back to bot message:",
+        error,
+      );
+      return sendMessage(
+        channelId,
+        await this.buildEventMessage(channelId, chatMessage),
+      );
+    }
+  }
+
+  /**
+   * Renders a relayed event as plain text, or as an embed when embeds are
+   * enabled. Chat lines always stay plain text, with `@name` mentions
+   * resolved.
+   */
+  private async buildEventMessage(
+    channelId: string,
+    chatMessage: ChatMessage,
+  ): Promise<string | DiscordMessagePayload> {
+    if (chatMessage.type === "chat") {
+      return this.resolveMentions(
+        channelId,
+        formatMessage(chatMessage, this.config),
+      );
+    }
+
+    if (!this.config.discord.embeds.enabled) {
+      return formatMessage(chatMessage, this.config);
+    }
+
+    return {
+      embeds: [
+        buildEventEmbed(chatMessage, {
+          config: this.config,
+          playerCount: this.playerCountAfter(chatMessage),
+        }),
+      ],
+    };
+  }
+
+  /**
+   * Turns `@name` tokens in a chat line into mentions of the matching
+   * members of the channel's guild.
+   */
+  private async resolveMentions(
+    channelId: string,
+    text: string,
+  ): Promise<string> {
+    const { allowedMentions, mentionAliases } = this.config.discord;
+    const names = allowedMentions.includes("users")
+      ? extractMentionNames(text).filter(
+          (name) =>
+            !Object.keys(mentionAliases).some(
+              (alias) => alias.toLowerCase() === name.toLowerCase(),
+            ),
+        )
+      : [];
+
+    const candidates =
+      names.length > 0
+        ? await this.findMentionCandidates(channelId, names)
+        : [];
+    return resolveMentions(text, candidates, {
+      allowedMentions,
+      aliases: mentionAliases,
+    });
+  }
+
+  private async findMentionCandidates(
+    channelId: string,
+    names: readonly string[],
+  ): Promise<MentionCandidate[]> {
+    const channel = await this.client?.channels
+      .fetch(channelId)
+      .catch(() => null);
+    if (!channel || !("guild" in channel) || !channel.guild) {
+      return [];
+    }
+
+    const guild = channel.guild;
+    const lookups = await Promise.all(
+      names.map((name) =>
+        // Searching by name works without the privileged members intent.
+        guild.members
+          .fetch({ query: name, limit: 10 })
+          .catch((error) => {
+            this.log(
+              "debug",
+              `Failed to look up members named ${name}:`,
+              error,
+            );
+            return null;
+          }),
+      ),
+    );
+
+    return lookups.flatMap((members) =>
+      members
+        ? members.map((member) => ({
+            id: member.id,
+            names: [
+              member.displayName,
+              member.user.globalName,
+              member.user.username,
+            ],
+          }))
+        : [],
+    );
+  }
+
+  /**
+   * Estimates the player count once a join or leave has been applied, since
+   * the player list update may arrive before or after the event itself.
+   */
+  private playerCountAfter(chatMessage: ChatMessage): number | undefined {
+    const listed = this.currentPlayers.some(
+      (player) =>
+        cleanUsername(player).toLowerCase() ===
+        chatMessage.username.toLowerCase(),
+    );
+    const count = this.currentPlayers.length;
+    switch (chatMessage.type) {
+      case "join":
+        return listed ? count : count + 1;
+      case "leave":
+        return listed ? Math.max(0, count - 1) : count;
+      default:
+        return undefined;
     }
   }
 
+  private async sendStatusMessage(
+    kind: keyof StatusTemplates,
+    context?: IntegrationStatusContext,
+  ): Promise<void> {
+    if (!this.isActive()) {
+      return;
+    }
+
+    const text = renderStatusTemplate(kind, context, this.config);
+    const message = this.config.discord.embeds.enabled
+      ? {
+          embeds: [
+            buildStatusEmbed(kind, text, context, this.config.serverName),
+          ],
+        }
+      : `${this.serverTag()}${text}`;
+
+    try {
+      await sendMessage(
+        this.config.discord.statusChannelId ?? this.config.discord.channelId,
+        message,
+      );
+    } catch (error) {
+      this.log("error", "Failed to send status message to Discord:", error);
+    }
+  }
+
+  private resolveEventChannelId(eventType: EventType): string {
+    return (
+      this.config.discord.channels[eventType] ?? this.config.discord.channelId
+    );
+  }
+
+  private configuredChannelIds(): string[] {
+    const { channelId, channels, statusChannelId, admin } = this.config.discord;
+    return [
+      channelId,
+      ...Object.values(channels),
+      ...(statusChannelId ? [statusChannelId] : []),
+      ...(admin.auditChannelId ? [admin.auditChannelId] : []),
+    ].filter((id): id is string => typeof id === "string");
+  }
+
   private cleanMessageCache(): void {
     const now = Date.now();
     for (const [id, entry] of this.messageCache.entries()) {
@@ -218,7 +626,11 @@ export class DiscordIntegration implements BaseIntegration {
     }
 
     try {
-      await updateDiscordPresence(playerCount);
+      await updateDiscordPresence(
+        playerCount,
+        this.config.serverName,
+        this.config.templates.presence,
+      );
     } catch (error) {
       this.log("error", "Failed to update Discord presence:", error);
     }
@@ -231,7 +643,8 @@ export class DiscordIntegration implements BaseIntegration {
       return;
     }
 
-    if (message.channelId !== this.config.discord.channelId) {
+    // Only the chat channel is bidirectional; event-only channels are read-only.
+    if (message.channelId !== this.resolveEventChannelId("chat")) {
       return;
     }
 
@@ -239,16 +652,27 @@ export class DiscordIntegration implements BaseIntegration {
       return;
     }
 
-    const normalizedContent = collapseWhitespace(message.cleanContent);
-    if (normalizedContent.length === 0) {
+    this.activeUsers.set(message.author.id, {
+      name: this.resolveDiscordDisplayName(message),
+      lastActiveAt: Date.now(),
+    });
+
+    if (await this.commands.handleText(message)) {
       return;
     }
 
-    if (normalizedContent.startsWith("/")) {
-      const handled = await this.handleCommand(normalizedContent, message);
-      if (handled) {
-        return;
-      }
+    const normalizedContent = collapseWhitespace(
+      discordToCubyz({
+        content: message.cleanContent,
+        attachments: message.attachments.map(({ name, contentType }) => ({
+          name,
+          contentType,
+        })),
+        stickers: message.stickers.map((sticker) => sticker.name),
+      }),
+    );
+    if (normalizedContent.length === 0) {
+      return;
     }
 
     if (!this.bot) {
@@ -262,113 +686,245 @@ export class DiscordIntegration implements BaseIntegration {
     const name = this.resolveDiscordDisplayName(message);
     const color = this.resolveDiscordHexColor(message);
 
-    let payload =
-      color && color !== "#FFFFFF"
-        ? `${color}${name}${DEFAULT_CUBYZ_COLOR_RESET}: ${normalizedContent}`
-        : `${name}: ${normalizedContent}`;
-
+    let text = normalizedContent;
     if (this.config.discord.enableReplies && message.reference?.messageId) {
       const referencedMsg = this.messageCache.get(message.reference.messageId);
       if (referencedMsg) {
-        const replyPrefix = `replying to ${referencedMsg.rawUsername}: *"${referencedMsg.content}"*`;
-        const fullMessage = `${replyPrefix} - ${normalizedContent}`;
-        payload =
-          color && color !== "#FFFFFF"
-            ? `${color}${name}${DEFAULT_CUBYZ_COLOR_RESET}: ${fullMessage}`
-            : `${name}: ${fullMessage}`;
+        text = renderTemplate(this.config.templates.relay.reply, {
+          username: name,
+          target: referencedMsg.rawUsername,
+          quote: referencedMsg.content,
+          message: normalizedContent,
+        });
       }
     }
 
+    // Only the name and text are censored, so a rule cannot match the color.
+    const censoredName = censorMessage(name, this.config);
+    const censoredText = censorMessage(text, this.config);
+    const payload =
+      color && color !== "#FFFFFF"
+        ? `${color}${censoredName}${DEFAULT_CUBYZ_COLOR_RESET}: ${censoredText}`
+        : `${censoredName}: ${censoredText}`;
+
     try {
-      await this.bot.sendChat(payload);
+      const result = await this.bot.sendChat(payload, {
+        onDelivered: () => {
+          void this.removeOwnReaction(message, QUEUED_REACTION);
+        },
+        onExpired: () => {
+          void this.removeOwnReaction(message, QUEUED_REACTION);
+          void this.addReaction(message, EXPIRED_REACTION);
+        },
+      });
+      recordRelayedMessage(this.config.serverName, "chat", "to_cubyz");
+      if (result === "queued") {
+        await this.addReaction(message, QUEUED_REACTION);
+      }
     } catch (error) {
       this.log("error", "Failed to relay Discord message to Cubyz:", error);
+      await this.addReaction(message, FAILED_REACTION);
     }
   };
 
-  private async registerSlashCommands(): Promise<void> {
-    if (!this.client) {
+  private async addReaction(message: Message, emoji: string): Promise<void> {
+    try {
+      await message.react(emoji);
+    } catch (error) {
+      this.log("debug", `Failed to add ${emoji} reaction:`, error);
+    }
+  }
+
+  private async removeOwnReaction(
+    message: Message,
+    emoji: string,
+  ): Promise<void> {
+    const userId = this.client?.user?.id;
+    if (!userId) {
       return;
     }
 
     try {
-      const channel = await this.client.channels.fetch(
+      await message.reactions.cache.get(emoji)?.users.remove(userId);
+    } catch (error) {
+      this.log("debug", `Failed to remove ${emoji} reaction:`, error);
+    }
+  }
+
+  /**
+   * Finds the guild of the relay channel once the client is ready, so the
+   * commands can be registered there.
+   */
+  private async resolveCommandGuild(client: Client): Promise<Guild | null> {
+    if (!client.isReady()) {
+      await once(client, Events.ClientReady);
+    }
+
+    try {
+      const channel = await client.channels.fetch(
         this.config.discord.channelId,
       );
       if (!channel || !channel.isTextBased()) {
         this.log(
           "warn",
-          "Cannot register slash command: configured channel is not text-based.",
+          "Cannot register slash commands: configured channel is not text-based.",
         );
-        return;
+        return null;
       }
 
       if (!("guild" in channel) || !channel.guild) {
         this.log(
           "warn",
-          "Cannot register slash command: configured channel is not in a guild.",
+          "Cannot register slash commands: configured channel is not in a guild.",
         );
-        return;
+        return null;
       }
 
-      const guild = channel.guild;
+      return channel.guild;
+    } catch (error) {
+      this.log("error", "Failed to register slash commands:", error);
+      return null;
+    }
+  }
 
-      const commandDefinition = {
+  /**
+   * Lists the commands this relay offers. The registry registers each one as
+   * a slash command and also runs it when typed as `/name args` in chat.
+   */
+  private buildCommands(): DiscordCommand[] {
+    const player: CommandOption = {
+      ...PLAYER_OPTION,
+      autocomplete: () => this.currentPlayers,
+    };
+    const commands: DiscordCommand[] = [
+      {
         name: "list",
         description: "Show the players currently online in Cubyz.",
-      } as const;
-
-      const existingCommands = await guild.commands.fetch();
-      const existing = existingCommands.find(
-        (command: ApplicationCommand) =>
-          command.name === commandDefinition.name,
+        errorMessage: "Unable to display player list right now",
+        execute: async () => this.formatPlayerListResponse(this.currentPlayers),
+      },
+    ];
+
+    if (this.sessions) {
+      commands.push(
+        {
+          name: "playtime",
+          description: "Show how long a player has played on the server.",
+          options: [player],
+          execute: async (context) =>
+            this.formatPlaytimeResponse(context.getString("player") ?? ""),
+        },
+        {
+          name: "seen",
+          description: "Show when a player was last online.",
+          options: [player],
+          execute: async (context) =>
+            this.formatSeenResponse(context.getString("player") ?? ""),
+        },
+        {
+          name: "top",
+          description: "Show the server leaderboards.",
+          options: [
+            {
+              type: "string",
+              name: "category",
+              description: "Leaderboard to show",
+              required: true,
+              choices: ["playtime", "deaths"],
+            },
+          ],
+          execute: async (context) =>
+            context.getString("category") === "deaths"
+              ? this.formatTopDeathsResponse()
+              : this.formatTopPlaytimeResponse(),
+        },
       );
-
-      if (!existing) {
-        await guild.commands.create(commandDefinition);
-        this.log("info", "Registered /list slash command.");
-      } else if (existing.description !== commandDefinition.description) {
-        await guild.commands.edit(existing.id, commandDefinition);
-        this.log("info", "Updated /list slash command.");
-      }
-    } catch (error) {
-      this.log("error", "Failed to register slash command:", error);
     }
-  }
 
-  private async handleCommand(
-    content: string,
-    message: Message,
-  ): Promise<boolean> {
-    const [command] = content.split(/\s+/, 1);
-    if (command.toLowerCase() === "/list") {
-      await this.handleListCommand(message);
-      return true;
+    if (this.deaths) {
+      commands.push({
+        name: "deaths",
+        description: "Show death statistics.",
+        options: [
+          {
+            ...player,
+            description:
+              "Player, or top for the leaderboard; server totals if left out",
+            required: false,
+            autocomplete: () => ["top", ...this.currentPlayers],
+          },
+        ],
+        execute: async (context) => {
+          const target = context.getString("player");
+          return target?.toLowerCase() === "top"
+            ? this.formatTopDeathsResponse()
+            : this.formatDeathsResponse(target);
+        },
+      });
     }
 
-    return false;
-  }
-
-  private async handleListCommand(message: Message): Promise<void> {
-    const response = this.formatPlayerListResponse(this.currentPlayers);
+    if (this.links) {
+      commands.push(
+        {
+          name: "link",
+          description: "Link your Discord account to your Cubyz player.",
+          options: [player],
+          execute: (context) => this.handleLinkCommand(context),
+        },
+        {
+          name: "whois",
+          description: "Show which Cubyz player a Discord user is linked to.",
+          options: [
+            { type: "user", name: "user", description: "Discord user" },
+            { ...player, required: false },
+          ],
+          execute: async (context) =>
+            this.formatWhoisResponse(
+              context.getUserId("user"),
+              context.getString("player"),
+              context.user.id,
+            ),
+        },
+      );
+    }
 
-    try {
-      await message.reply({
-        content: response,
-        allowedMentions: { repliedUser: false },
-      });
-    } catch (error) {
-      this.log("error", "Failed to respond to /list command:", error);
+    if (this.config.discord.admin.enabled) {
+      for (const { name, description, options } of ADMIN_COMMANDS) {
+        commands.push({
+          name,
+          description,
+          options: options.map((option) =>
+            option.name === "player" ? player : option,
+          ),
+          isAllowed: (context) =>
+            hasAdminRole(
+              context.memberRoleIds,
+              name,
+              this.config.discord.admin,
+            ),
+          onDenied: (context) =>
+            this.auditAdminCommand(context, `was denied \`/${name}\``),
+          execute: (context) => this.handleAdminCommand(context, name),
+        });
+      }
     }
+
+    return commands;
   }
 
   private formatPlayerListResponse(players: readonly string[]): string {
+    const serverName = this.config.serverName;
     if (players.length === 0) {
-      return "No players are currently connected";
+      return serverName
+        ? `No players are currently connected to ${serverName}`
+        : "No players are currently connected";
     }
 
+    const heading = serverName
+      ? `Players online on ${serverName} (${players.length}):`
+      : `Players online (${players.length}):`;
     const displayedPlayers = players.slice(0, MAX_PLAYER_LIST_ENTRIES);
-    let response = `Players online (${players.length}): ${displayedPlayers.join(", ")}`;
+    let response = `${heading} ${displayedPlayers.join(", ")}`;
 
     if (players.length > displayedPlayers.length) {
       response = `${response}, ...and ${players.length - displayedPlayers.length} more`;
@@ -381,7 +937,7 @@ export class DiscordIntegration implements BaseIntegration {
     const numberedLines = displayedPlayers.map(
       (player, index) => `${index + 1}. ${player}`,
     );
-    const lines = [`Players online (${players.length}):`, ...numberedLines];
+    const lines = [heading, ...numberedLines];
     response = lines.join("\n");
 
     if (players.length > displayedPlayers.length) {
@@ -398,38 +954,344 @@ export class DiscordIntegration implements BaseIntegration {
   private readonly handleInteractionCreate = async (
     interaction: Interaction,
   ): Promise<void> => {
-    if (!interaction.isChatInputCommand()) {
+    if (!interaction.isChatInputCommand() && !interaction.isAutocomplete()) {
       return;
     }
 
-    if (interaction.commandName !== "list") {
+    if (!this.commands.has(interaction.commandName)) {
       return;
     }
 
-    const response = this.formatPlayerListResponse(this.currentPlayers);
+    // Relays for several servers share one client and may share status or
+    // event channels, so each answers only in its own chat channel.
+    if (
+      this.config.serverName &&
+      interaction.channelId !== this.config.discord.channelId
+    ) {
+      return;
+    }
+
+    if (interaction.isAutocomplete()) {
+      await this.commands.handleAutocomplete(interaction);
+    } else {
+      await this.commands.handleInteraction(interaction);
+    }
+  };
+
+  private formatPlaytimeResponse(player: string): string {
+    const stats = this.sessions?.getPlayer(cleanUsername(player));
+    if (!stats) {
+      return `No sessions recorded for ${cleanUsername(player) || player}`;
+    }
+
+    const sessionLabel = stats.sessionCount === 1 ? "session" : "sessions";
+    const onlineSuffix = stats.online ? " (online now)" : "";
+    return `⏱️ **${stats.name}** has played ${formatDuration(stats.totalPlaytimeMs)} over ${stats.sessionCount} ${sessionLabel}${this.serverSuffix()}${onlineSuffix}`;
+  }
+
+  private formatSeenResponse(player: string): string {
+    const stats = this.sessions?.getPlayer(cleanUsername(player));
+    if (!stats) {
+      return `${cleanUsername(player) || player} has never been seen${this.serverSuffix()}`;
+    }
+
+    if (stats.online) {
+      return `🟢 **${stats.name}** is online right now${this.serverSuffix()}`;
+    }
+
+    return `👀 **${stats.name}** was last seen${this.serverSuffix()} ${toDiscordTimestamp(stats.lastSeen, "R")} (${toDiscordTimestamp(stats.lastSeen, "f")})`;
+  }
+
+  private formatTopPlaytimeResponse(): string {
+    const leaders =
+      this.sessions
+        ?.getTopPlaytime(TOP_PLAYTIME_ENTRIES)
+        .filter((stats) => stats.totalPlaytimeMs > 0) ?? [];
+    if (leaders.length === 0) {
+      return `No playtime recorded${this.serverSuffix()} yet`;
+    }
+
+    const lines = leaders.map(
+      (stats, index) =>
+        `${index + 1}. **${stats.name}** – ${formatDuration(stats.totalPlaytimeMs)}`,
+    );
+    return [`🏆 Top playtime${this.serverSuffix()}:`, ...lines].join("\n");
+  }
+
+  private formatDeathsResponse(player: string | null): string {
+    if (!this.deaths) {
+      return "Death statistics are disabled";
+    }
+
+    const formatCauses = (causes: { cause: string; count: number }[]) =>
+      causes
+        .slice(0, TOP_DEATH_CAUSES)
+        .map(({ cause, count }) => `${cause} (${count})`)
+        .join(", ");
+
+    if (!player) {
+      const totals = this.deaths.getTotals();
+      if (totals.total === 0) {
+        return `No deaths recorded${this.serverSuffix()} yet`;
+      }
+      return `💀 ${totals.total} deaths recorded${this.serverSuffix()}. Top causes: ${formatCauses(totals.causes)}`;
+    }
+
+    const stats = this.deaths.getPlayer(cleanUsername(player));
+    if (!stats) {
+      return `No deaths recorded for ${cleanUsername(player) || player}${this.serverSuffix()}`;
+    }
+
+    const deathLabel = stats.total === 1 ? "time" : "times";
+    return `💀 **${stats.name}** died ${stats.total} ${deathLabel}${this.serverSuffix()}. Causes: ${formatCauses(stats.causes)}`;
+  }
+
+  private formatTopDeathsResponse(): string {
+    const leaders =
+      this.deaths
+        ?.getTopDeaths(TOP_DEATH_ENTRIES)
+        .filter((entry) => entry.total > 0) ?? [];
+    if (leaders.length === 0) {
+      return `No deaths recorded${this.serverSuffix()} yet`;
+    }
+
+    const lines = leaders.map(
+      (entry, index) => `${index + 1}. **${entry.name}** – ${entry.total}`,
+    );
+    return [`🪦 Most deaths${this.serverSuffix()}:`, ...lines].join("\n");
+  }
+
+  /**
+   * Hands out a one-time code the player confirms by typing it in game. The
+   * invocation is kept so the confirmation can be sent as a follow-up.
+   */
+  private async handleLinkCommand(
+    context: CommandContext,
+  ): Promise<CommandResponse> {
+    // Text replies are public, so the code is only handed out privately.
+    if (context.source === "text") {
+      return { content: "Use the /link slash command to get your code" };
+    }
+
+    const requested = context.getString("player") ?? "";
+    const player = cleanUsername(requested);
+    if (!this.links || player.length === 0) {
+      return {
+        content: `${requested} is not a valid Cubyz player name`,
+        ephemeral: true,
+      };
+    }
+
+    const { codeTtlMs } = this.config.discord.linking;
+    const code = this.links.createCode(context.user.id, player, codeTtlMs);
+    this.pendingLinks.set(context.user.id, context);
+    return {
+      content: `🔗 Type \`${code}\` in the Cubyz chat${this.serverSuffix()} as **${player}** within ${formatDuration(codeTtlMs)} to link your account.`,
+      ephemeral: true,
+    };
+  }
+
+  /**
+   * Completes a pending `/link` when a player types its code in chat. Returns
+   * true for link codes, which are never relayed.
+   */
+  private handleLinkCode(chatMessage: ChatMessage): boolean {
+    const message = chatMessage.message ?? "";
+    if (!this.links?.isPendingCode(message)) {
+      return false;
+    }
+
+    const link = this.links.confirm(chatMessage.username, message);
+    if (!link) {
+      return true;
+    }
+
+    this.log(
+      "info",
+      `Linked Discord user ${link.discordId} to ${link.cubyzName}.`,
+    );
+    const context = this.pendingLinks.get(link.discordId);
+    this.pendingLinks.delete(link.discordId);
+    void context
+      ?.followUp({
+        content: `✅ Your Discord account is now linked to **${link.cubyzName}**${this.serverSuffix()}.`,
+        ephemeral: true,
+      })
+      .catch((error: unknown) => {
+        this.log("debug", "Failed to confirm account link:", error);
+      });
+    void this.bot
+      ?.sendChat(`${link.cubyzName} is now linked to Discord.`)
+      .catch((error: unknown) => {
+        this.log("debug", "Failed to confirm account link in game:", error);
+      });
+    return true;
+  }
 
+  /**
+   * Runs an admin command as a server command through the bot, replying with
+   * the server's response. Every attempt, allowed or not, is audit-logged.
+   */
+  private async handleAdminCommand(
+    context: CommandContext,
+    command: AdminCommandName,
+  ): Promise<CommandResponse | string> {
+    const admin = this.config.discord.admin;
+    let serverCommand: string;
     try {
-      await interaction.reply({
-        content: response,
+      serverCommand = buildServerCommand(command, {
+        player: context.getString("player"),
+        reason: context.getString("reason"),
+        destination: context.getString("destination"),
+        value: context.getString("value"),
+        command: context.getString("command"),
       });
     } catch (error) {
-      if (!interaction.deferred && !interaction.replied) {
-        try {
-          await interaction.reply({
-            content: "Unable to display player list right now",
-            flags: MessageFlags.Ephemeral,
-          });
-        } catch (innerError) {
-          this.log(
-            "error",
-            "Failed to send fallback response for /list command:",
-            innerError,
-          );
-        }
-      }
-      this.log("error", "Failed to respond to /list slash command:", error);
+      return {
+        content: error instanceof Error ? error.message : String(error),
+        ephemeral: true,
+      };
     }
-  };
+
+    const bot = this.bot;
+    if (!bot || bot.getState() !== "connected") {
+      return {
+        content: "The relay is not connected to the Cubyz server right now",
+        ephemeral: true,
+      };
+    }
+
+    await context.defer();
+    const run = this.adminCommandQueue.then(() =>
+      captureServerResponses(bot, admin.responseWindowMs, () =>
+        bot.sendChat(serverCommand, { immediate: true }),
+      ),
+    );
+    this.adminCommandQueue = run.catch(() => {});
+
+    try {
+      const lines = await run;
+      this.log(
+        "info",
+        `${context.user.username} ran ${serverCommand} from Discord.`,
+      );
+      await this.auditAdminCommand(
+        context,
+        `ran \`${serverCommand}\` (${lines.length} response line${lines.length === 1 ? "" : "s"})`,
+      );
+      return formatAdminReply(serverCommand, lines, admin.responseWindowMs);
+    } catch (error) {
+      this.log("error", `Failed to run ${serverCommand}:`, error);
+      await this.auditAdminCommand(
+        context,
+        `failed to run \`${serverCommand}\``,
+      );
+      return `Failed to send \`${serverCommand}\` to the Cubyz server`;
+    }
+  }
+
+  private async auditAdminCommand(
+    context: CommandContext,
+    action: string,
+  ): Promise<void> {
+    await this.audit(
+      `**${context.user.username}** (${context.user.id}) ${action}`,
+    );
+  }
+
+  async audit(message: string): Promise<void> {
+    if (!this.isActive()) {
+      return;
+    }
+
+    const { admin, statusChannelId, channelId } = this.config.discord;
+    try {
+      await sendMessage(
+        admin.auditChannelId ?? statusChannelId ?? channelId,
+        `${this.serverTag()}🛡️ ${message}`,
+      );
+    } catch (error) {
+      this.log("error", "Failed to write admin audit log:", error);
+    }
+  }
+
+  private formatWhoisResponse(
+    userId: string | null,
+    player: string | null,
+    requesterId: string,
+  ): string {
+    if (!this.links) {
+      return "Account linking is disabled";
+    }
+
+    if (player) {
+      const name = cleanUsername(player) || player;
+      const link = this.links.getByCubyzName(name);
+      return link
+        ? `🔗 **${link.cubyzName}** is linked to <@${link.discordId}>${this.serverSuffix()}`
+        : `${name} is not linked to a Discord account${this.serverSuffix()}`;
+    }
+
+    const discordId = userId ?? requesterId;
+    const link = this.links.getByDiscordId(discordId);
+    return link
+      ? `🔗 <@${discordId}> is linked to **${link.cubyzName}**${this.serverSuffix()} since ${toDiscordTimestamp(link.linkedAt, "f")}`
+      : `<@${discordId}> is not linked to a Cubyz player${this.serverSuffix()}`;
+  }
+
+  private startWeeklySummary(): void {
+    this.stopWeeklySummary();
+    if (!this.deaths) {
+      return;
+    }
+
+    this.weeklySummaryTimer = setInterval(() => {
+      void this.postWeeklySummaryIfDue();
+    }, WEEKLY_SUMMARY_CHECK_INTERVAL_MS);
+    this.weeklySummaryTimer.unref?.();
+  }
+
+  private stopWeeklySummary(): void {
+    if (this.weeklySummaryTimer) {
+      clearInterval(this.weeklySummaryTimer);
+      this.weeklySummaryTimer = null;
+    }
+  }
+
+  private async postWeeklySummaryIfDue(): Promise<void> {
+    const deaths = this.deaths;
+    if (
+      !deaths ||
+      !this.config.stats.weeklyDeathSummary ||
+      Date.now() - deaths.weekStartedAt.getTime() < WEEK_MS
+    ) {
+      return;
+    }
+
+    const leaders = deaths.getWeeklyTop(3);
+    deaths.startNewWeek();
+    if (leaders.length === 0 || !this.isActive()) {
+      return;
+    }
+
+    const lines = leaders.map(
+      (entry, index) => `${index + 1}. **${entry.name}** – ${entry.total}`,
+    );
+    try {
+      await sendMessage(
+        this.resolveEventChannelId("death"),
+        [`${this.serverTag()}🪦 **Most deaths this week**`, ...lines].join(
+          "\n",
+        ),
+      );
+    } catch (error) {
+      this.log("error", "Failed to post weekly death summary:", error);
+    }
+  }
+
+  private serverSuffix(): string {
+    return this.config.serverName ? ` on ${this.config.serverName}` : "";
+  }
 
   private readonly handleReactionAdd = async (
     reaction: MessageReaction | PartialMessageReaction,
@@ -448,7 +1310,7 @@ export class DiscordIntegration implements BaseIntegration {
       }
     }
 
-    if (reaction.message.channelId !== this.config.discord.channelId) {
+    if (reaction.message.channelId !== this.resolveEventChannelId("chat")) {
       return;
     }
 
@@ -470,6 +1332,7 @@ export class DiscordIntegration implements BaseIntegration {
       : null;
 
     const candidateName =
+      this.links?.getByDiscordId(user.id)?.cubyzName ??
       member?.displayName ??
       ("globalName" in user && user.globalName) ??
       ("username" in user && user.username) ??
@@ -487,21 +1350,33 @@ export class DiscordIntegration implements BaseIntegration {
     const emoji = reaction.emoji.name ?? "?";
     const referencedMsg = this.messageCache.get(reaction.message.id);
 
-    let payload: string;
-    if (referencedMsg) {
-      payload = `${reactorName} reacted to ${referencedMsg.rawUsername}: *"${referencedMsg.content}"* with ${emoji}`;
-    } else {
-      payload = `${reactorName} reacted with ${emoji}`;
-    }
+    const templates = this.config.templates.relay;
+    const payload = referencedMsg
+      ? renderTemplate(templates.reaction, {
+          username: reactorName,
+          target: referencedMsg.rawUsername,
+          quote: referencedMsg.content,
+          emoji,
+        })
+      : renderTemplate(templates.reactionWithoutContext, {
+          username: reactorName,
+          emoji,
+        });
 
     try {
-      await this.bot.sendChat(payload);
+      await this.bot.sendChat(censorMessage(payload, this.config));
+      recordRelayedMessage(this.config.serverName, "chat", "to_cubyz");
     } catch (error) {
       this.log("error", "Failed to relay Discord reaction to Cubyz:", error);
     }
   };
 
   private resolveDiscordDisplayName(message: Message): string {
+    const linked = this.links?.getByDiscordId(message.author.id);
+    if (linked) {
+      return linked.cubyzName;
+    }
+
     const preferred =
       message.member?.displayName ??
       message.author.globalName ??
@@ -529,34 +1404,11 @@ export class DiscordIntegration implements BaseIntegration {
     return hex.toUpperCase();
   }
 
-  private isActive(): boolean {
-    return this.config.discord.enabled && this.isReady && this.client !== null;
+  private serverTag(): string {
+    return formatServerTag(this.config.serverName);
   }
 
-  private resolveStatusMessage(
-    status: "online" | "offline",
-    context?: IntegrationStatusContext,
-  ): string | null {
-    if (status === "online") {
-      return context?.reason === "connected"
-        ? "🟢 **Bot connected to server**"
-        : null;
-    }
-
-    switch (context?.reason) {
-      case "retries-exhausted": {
-        const attemptText =
-          typeof context.attempts === "number" && context.attempts > 0
-            ? ` after ${context.attempts} attempts`
-            : "";
-        return `❌ **Failed to reconnect${attemptText}**`;
-      }
-      case "server":
-        return "🔴 **Bot disconnected from server**";
-      case "error":
-        return "⚠️ **Bot connection failed**";
-      default:
-        return null;
-    }
+  private isActive(): boolean {
+    return this.config.discord.enabled && this.isReady && this.client !== null;
   }
 }
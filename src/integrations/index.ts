@@ -1,23 +1,43 @@
 import type { Gamemode } from "cubyz-node-client";
+import type { AccountLinkStore } from "../accountLinks.js";
 import type { BotConnectionManager } from "../botConnection.js";
+import type { DeathStatsStore } from "../deathStats.js";
 import { createLogger, type Logger } from "../logger.js";
+import { recordSendFailure } from "../metrics.js";
+import type { PlayerSessionStore } from "../playerSessions.js";
 import type { ChatMessage, Config } from "../types.js";
-import type { BaseIntegration, IntegrationStatusContext } from "./base.js";
+import type {
+  ActiveUsers,
+  BaseIntegration,
+  IntegrationStatusContext,
+  NamedIntegrationHealth,
+} from "./base.js";
 import { CubyzListSiteIntegration } from "./cubyzListSite.js";
 import { DiscordIntegration } from "./discord.js";
+import { IrcIntegration } from "./irc.js";
+import { MatrixIntegration } from "./matrix.js";
+import { loadIntegrationPlugins } from "./plugins.js";
+import { WebhookIntegration } from "./webhook.js";
 
 interface IntegrationDependencies {
   bot: BotConnectionManager;
+  sessions?: PlayerSessionStore;
+  deaths?: DeathStatsStore;
+  links?: AccountLinkStore;
 }
 
-export function createIntegrations(
+export async function createIntegrations(
   config: Config,
   dependencies: IntegrationDependencies,
-): BaseIntegration[] {
+): Promise<BaseIntegration[]> {
   const integrations: BaseIntegration[] = [];
 
   if (config.discord.enabled) {
-    const discordIntegration = new DiscordIntegration(config);
+    const discordIntegration = new DiscordIntegration(config, {
+      sessions: dependencies.sessions,
+      deaths: dependencies.deaths,
+      links: dependencies.links,
+    });
     discordIntegration.setBotConnection(dependencies.bot);
     integrations.push(discordIntegration);
   }
@@ -28,15 +48,47 @@ export function createIntegrations(
     integrations.push(listIntegration);
   }
 
+  if (config.integration.irc.enabled) {
+    const ircIntegration = new IrcIntegration(config);
+    ircIntegration.setBotConnection(dependencies.bot);
+    integrations.push(ircIntegration);
+  }
+
+  if (config.integration.matrix.enabled) {
+    const matrixIntegration = new MatrixIntegration(config);
+    matrixIntegration.setBotConnection(dependencies.bot);
+    integrations.push(matrixIntegration);
+  }
+
+  if (config.integration.webhooks.enabled) {
+    integrations.push(new WebhookIntegration(config));
+  }
+
+  integrations.push(
+    ...(await loadIntegrationPlugins(config, dependencies.bot)),
+  );
+
   return integrations;
 }
 
 export class IntegrationManager {
   private integrations: BaseIntegration[];
+  private readonly serverName?: string;
   private readonly log: Logger;
 
-  constructor(config: Config, dependencies: IntegrationDependencies) {
-    this.integrations = createIntegrations(config, dependencies);
+  static async create(
+    config: Config,
+    dependencies: IntegrationDependencies,
+  ): Promise<IntegrationManager> {
+    return new IntegrationManager(
+      config,
+      await createIntegrations(config, dependencies),
+    );
+  }
+
+  constructor(config: Config, integrations: BaseIntegration[]) {
+    this.integrations = integrations;
+    this.serverName = config.serverName;
     this.log = createLogger(config.logLevel);
 
     if (this.integrations.length > 0) {
@@ -141,6 +193,23 @@ export class IntegrationManager {
             `Failed to relay chat message for integration ${integration.name}:`,
             error,
           );
+          recordSendFailure(this.serverName, integration.name);
+        }
+      }),
+    );
+  }
+
+  async updateConfig(config: Config): Promise<void> {
+    await Promise.allSettled(
+      this.integrations.map(async (integration) => {
+        try {
+          await integration.updateConfig?.(config);
+        } catch (error) {
+          this.log(
+            "error",
+            `Failed to update config for integration ${integration.name}:`,
+            error,
+          );
         }
       }),
     );
@@ -161,8 +230,55 @@ export class IntegrationManager {
             `Failed to send notification via integration ${integration.name}:`,
             error,
           );
+          recordSendFailure(this.serverName, integration.name);
+        }
+      }),
+    );
+  }
+
+  async audit(message: string): Promise<void> {
+    await Promise.allSettled(
+      this.integrations.map(async (integration) => {
+        try {
+          await integration.audit?.(message);
+        } catch (error) {
+          this.log(
+            "error",
+            `Failed to write audit log via integration ${integration.name}:`,
+            error,
+          );
         }
       }),
     );
   }
+
+  getActiveUsers(): ActiveUsers[] {
+    return this.integrations.flatMap((integration) =>
+      integration.getActiveUsers
+        ? [
+            {
+              integration: integration.name,
+              users: integration.getActiveUsers(),
+            },
+          ]
+        : [],
+    );
+  }
+
+  getStatuses(): NamedIntegrationHealth[] {
+    return this.integrations.map((integration) => {
+      try {
+        return {
+          name: integration.name,
+          ...(integration.getStatus?.() ?? { healthy: true }),
+        };
+      } catch (error) {
+        return {
+          name: integration.name,
+          healthy: false,
+          detail: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+  }
 }
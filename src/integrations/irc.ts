@@ -0,0 +1,506 @@
+import net from "node:net";
+import tls from "node:tls";
+import type { Gamemode } from "cubyz-node-client";
+import { ReconnectBackoff } from "../backoff.js";
+import type { BotConnectionManager } from "../botConnection.js";
+import { createLogger, type Logger } from "../logger.js";
+import {
+  censorMessage,
+  cleanUsername,
+  formatMessage,
+  formatServerTag,
+  formatStatusMessage,
+  shouldRelayEvent,
+} from "../messageFormatter.js";
+import { recordRelayedMessage, recordSendFailure } from "../metrics.js";
+import type { ChatMessage, Config, IrcConfig, LogLevel } from "../types.js";
+import type {
+  BaseIntegration,
+  IntegrationHealth,
+  IntegrationStatusContext,
+} from "./base.js";
+
+const MAX_PLAYER_LIST_ENTRIES = 50;
+// IRC lines are limited to 512 bytes including the command and prefix.
+const MAX_MESSAGE_BYTES = 400;
+const MAX_RECONNECT_DELAY_MS = 5 * 60 * 1000;
+
+const IRC_BOLD = "\x02";
+const IRC_ITALIC = "\x1d";
+const IRC_UNDERLINE = "\x1f";
+const IRC_STRIKETHROUGH = "\x1e";
+const IRC_MONOSPACE = "\x11";
+// Colour codes with their optional arguments, then the single-byte toggles.
+const IRC_FORMATTING_PATTERN =
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: IRC formatting codes are control characters.
+  /\x03(?:\d{1,2}(?:,\d{1,2})?)?|\x04[0-9a-fA-F]{0,6}(?:,[0-9a-fA-F]{6})?|[\x02\x0f\x11\x16\x1d\x1e\x1f]/g;
+const CTCP_DELIMITER = "\x01";
+const CTCP_ACTION = `${CTCP_DELIMITER}ACTION `;
+
+export interface IrcMessage {
+  prefix?: string;
+  command: string;
+  params: string[];
+}
+
+/**
+ * Parses one raw IRC line (without the trailing CRLF).
+ */
+export function parseIrcLine(line: string): IrcMessage | null {
+  let rest = line.replace(/^@\S+ /, "");
+  let prefix: string | undefined;
+
+  if (rest.startsWith(":")) {
+    const space = rest.indexOf(" ");
+    if (space === -1) {
+      return null;
+    }
+    prefix = rest.slice(1, space);
+    rest = rest.slice(space + 1);
+  }
+
+  const params: string[] = [];
+  while (rest.length > 0) {
+    if (rest.startsWith(":")) {
+      params.push(rest.slice(1));
+      break;
+    }
+    const space = rest.indexOf(" ");
+    if (space === -1) {
+      params.push(rest);
+      break;
+    }
+    params.push(rest.slice(0, space));
+    rest = rest.slice(space + 1).replace(/^ +/, "");
+  }
+
+  const command = params.shift();
+  return command ? { prefix, command: command.toUpperCase(), params } : null;
+}
+
+/**
+ * Converts the Discord-flavoured markdown produced by `formatMessage` to IRC
+ * formatting codes.
+ */
+export function markdownToIrc(markdown: string): string {
+  return markdown
+    .replace(/\|\|(.+?)\|\|/g, "$1")
+    .replace(/\*\*(.+?)\*\*/g, `${IRC_BOLD}$1${IRC_BOLD}`)
+    .replace(/__(.+?)__/g, `${IRC_UNDERLINE}$1${IRC_UNDERLINE}`)
+    .replace(/~~(.+?)~~/g, `${IRC_STRIKETHROUGH}$1${IRC_STRIKETHROUGH}`)
+    .replace(
+      /(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)/g,
+      `$1${IRC_ITALIC}$2${IRC_ITALIC}`,
+    )
+    .replace(/(^|\W)_(?!\s)(.+?)_(?!\w)/g, `$1${IRC_ITALIC}$2${IRC_ITALIC}`)
+    .replace(/`([^`]+)`/g, `${IRC_MONOSPACE}$1${IRC_MONOSPACE}`)
+    .replace(/\\([*_~`|\\])/g, "$1");
+}
+
+/**
+ * Removes IRC colour and formatting codes from incoming text.
+ */
+export function stripIrcFormatting(text: string): string {
+  return text.replace(IRC_FORMATTING_PATTERN, "");
+}
+
+const nickFromPrefix = (prefix = ""): string => prefix.split("!")[0];
+
+/**
+ * Splits text into chunks that fit a PRIVMSG line without breaking UTF-8
+ * sequences.
+ */
+const splitMessage = (text: string): string[] => {
+  const chunks: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    let current = "";
+    for (const character of line) {
+      if (Buffer.byteLength(current + character) > MAX_MESSAGE_BYTES) {
+        chunks.push(current);
+        current = "";
+      }
+      current += character;
+    }
+    if (current.trim().length > 0) {
+      chunks.push(current);
+    }
+  }
+  return chunks;
+};
+
+/**
+ * Integration that bridges a single IRC channel. Cubyz events are posted to
+ * the channel; channel messages are relayed back to Cubyz as `nick: message`.
+ * The connection is re-established with backoff whenever it drops.
+ */
+export class IrcIntegration implements BaseIntegration {
+  readonly name = "IRC";
+
+  private config: IrcConfig;
+  private relayConfig: Config;
+  private bot: BotConnectionManager | null = null;
+  private socket: net.Socket | null = null;
+  private buffer = "";
+  private currentNick: string;
+  private registered = false;
+  private joined = false;
+  private stopped = true;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private currentPlayers: string[] = [];
+  private readonly backoff: ReconnectBackoff;
+  private readonly logger: Logger;
+
+  constructor(config: Config) {
+    this.relayConfig = config;
+    this.config = config.integration.irc;
+    this.currentNick = this.config.nick;
+    this.logger = createLogger(config.logLevel);
+    this.backoff = new ReconnectBackoff(this.backoffConfig());
+  }
+
+  private log(level: LogLevel, ...args: unknown[]) {
+    this.logger(level, `[${this.name}]`, ...args);
+  }
+
+  setBotConnection(bot: BotConnectionManager): void {
+    this.bot = bot;
+  }
+
+  async start(): Promise<void> {
+    this.stopped = false;
+    this.connect();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.clearReconnectTimer();
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      socket.once("close", () => resolve());
+      if (this.registered) {
+        this.send("QUIT :Relay shutting down");
+      }
+      socket.end();
+      // Don't wait forever for servers that never close the connection.
+      setTimeout(() => {
+        socket.destroy();
+        resolve();
+      }, 2000).unref();
+    });
+  }
+
+  async updatePlayers(players: readonly string[]): Promise<void> {
+    this.currentPlayers = [...players];
+  }
+
+  async updateStatus(
+    status: "online" | "offline",
+    context?: IntegrationStatusContext,
+  ): Promise<void> {
+    if (status === "offline") {
+      this.currentPlayers = [];
+    }
+
+    const statusMessage = formatStatusMessage(
+      status,
+      context,
+      this.relayConfig,
+    );
+    if (statusMessage) {
+      this.say(markdownToIrc(`${this.serverTag()}${statusMessage}`));
+    }
+  }
+
+  async updateGamemode(_gamemode: Gamemode) {}
+
+  async relayChatMessage(chatMessage: ChatMessage): Promise<void> {
+    if (!shouldRelayEvent(chatMessage.type, this.relayConfig)) {
+      return;
+    }
+
+    // Skip the relay bot's own lines, which are messages relayed from here.
+    const botName = cleanUsername(this.relayConfig.cubyz.botName ?? "");
+    if (
+      chatMessage.type === "chat" &&
+      botName.length > 0 &&
+      chatMessage.username.toLowerCase() === botName.toLowerCase()
+    ) {
+      return;
+    }
+    if (this.say(markdownToIrc(formatMessage(chatMessage, this.relayConfig)))) {
+      recordRelayedMessage(
+        this.relayConfig.serverName,
+        chatMessage.type,
+        "from_cubyz",
+      );
+    }
+  }
+
+  async sendMessage(message: string): Promise<void> {
+    this.say(markdownToIrc(message));
+  }
+
+  async updateConfig(config: Config): Promise<void> {
+    const previous = this.config;
+    this.relayConfig = config;
+    this.config = config.integration.irc;
+    this.backoff.configure(this.backoffConfig());
+
+    if (JSON.stringify(previous) !== JSON.stringify(this.config)) {
+      this.log("info", "IRC settings changed, reconnecting...");
+      this.currentNick = this.config.nick;
+      this.socket?.destroy();
+    }
+  }
+
+  getStatus(): IntegrationHealth {
+    if (this.joined) {
+      return { healthy: true };
+    }
+    return {
+      healthy: false,
+      detail: this.registered
+        ? `Not in ${this.config.channel}`
+        : "Not connected to IRC",
+    };
+  }
+
+  private backoffConfig() {
+    return {
+      maxRetries: 0,
+      retryDelayMs: this.config.reconnectDelayMs,
+      backoffMultiplier: 2,
+      maxDelayMs: Math.max(
+        MAX_RECONNECT_DELAY_MS,
+        this.config.reconnectDelayMs,
+      ),
+      jitter: 0.2,
+    };
+  }
+
+  private connect(): void {
+    const { host, port } = this.config;
+    this.log("info", `Connecting to ${host}:${port}...`);
+    this.buffer = "";
+    this.registered = false;
+    this.joined = false;
+
+    const socket = this.config.tls
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    this.socket = socket;
+    socket.setEncoding("utf8");
+
+    socket.once(this.config.tls ? "secureConnect" : "connect", () => {
+      if (this.config.password) {
+        this.send(`PASS ${this.config.password}`);
+      }
+      this.send(`NICK ${this.currentNick}`);
+      this.send(`USER ${this.config.username} 0 * :${this.config.realname}`);
+    });
+    socket.on("data", (data: string) => this.handleData(data));
+    socket.on("error", (error) => {
+      this.log("error", "Connection error:", error.message);
+    });
+    socket.on("close", () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = null;
+      this.registered = false;
+      this.joined = false;
+      if (!this.stopped) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private scheduleReconnect(): void {
+    this.clearReconnectTimer();
+    const step = this.backoff.next();
+    if (!step) {
+      return;
+    }
+
+    this.log(
+      "info",
+      `Reconnecting in ${step.delayMs}ms (attempt ${step.attempt})`,
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) {
+        this.connect();
+      }
+    }, step.delayMs);
+    this.reconnectTimer.unref?.();
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private handleData(data: string): void {
+    this.buffer += data;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      const message = parseIrcLine(line);
+      if (message) {
+        this.handleMessage(message);
+      }
+    }
+  }
+
+  private handleMessage(message: IrcMessage): void {
+    switch (message.command) {
+      case "PING":
+        this.send(`PONG :${message.params[0] ?? ""}`);
+        break;
+      case "001":
+        this.registered = true;
+        this.backoff.reset();
+        this.currentNick = message.params[0] ?? this.currentNick;
+        if (this.config.nickservPassword) {
+          this.send(
+            `PRIVMSG NickServ :IDENTIFY ${this.config.nickservPassword}`,
+          );
+        }
+        this.send(`JOIN ${this.config.channel}`);
+        break;
+      case "433":
+        // Nickname in use: retry with a suffix until registration succeeds.
+        if (!this.registered) {
+          this.currentNick = `${this.currentNick}_`;
+          this.send(`NICK ${this.currentNick}`);
+        }
+        break;
+      case "JOIN":
+        if (
+          nickFromPrefix(message.prefix) === this.currentNick &&
+          this.isConfiguredChannel(message.params[0])
+        ) {
+          this.joined = true;
+          this.log("info", `Joined ${this.config.channel}`);
+        }
+        break;
+      case "KICK":
+        if (
+          message.params[1] === this.currentNick &&
+          this.isConfiguredChannel(message.params[0])
+        ) {
+          this.joined = false;
+          this.log("warn", `Kicked from ${this.config.channel}, rejoining...`);
+          this.send(`JOIN ${this.config.channel}`);
+        }
+        break;
+      case "PRIVMSG":
+        void this.handlePrivmsg(message);
+        break;
+    }
+  }
+
+  private async handlePrivmsg(message: IrcMessage): Promise<void> {
+    const [target, rawText = ""] = message.params;
+    const nick = nickFromPrefix(message.prefix);
+    if (!this.isConfiguredChannel(target) || nick === this.currentNick) {
+      return;
+    }
+
+    // CTCP ACTION (`/me`) is relayed as emphasised text.
+    const action = rawText.startsWith(CTCP_ACTION);
+    if (!action && rawText.startsWith(CTCP_DELIMITER)) {
+      return;
+    }
+    const body = action
+      ? rawText.slice(CTCP_ACTION.length).split(CTCP_DELIMITER)[0]
+      : rawText;
+    const text = stripIrcFormatting(body).replace(/\s+/g, " ").trim();
+    if (text.length === 0) {
+      return;
+    }
+
+    if (text.toLowerCase() === "!list") {
+      this.say(this.formatPlayerListResponse(this.currentPlayers));
+      return;
+    }
+
+    if (!this.bot) {
+      this.log(
+        "warn",
+        "Received IRC message before Cubyz connection was ready.",
+      );
+      return;
+    }
+
+    // Nicks may hold symbols such as `[`, `|` or `^`; they are cleaned like the
+    // sender names of the other bridges.
+    const name = cleanUsername(nick) || "irc";
+    try {
+      await this.bot.sendChat(
+        censorMessage(
+          `${name}: ${action ? `*${text}*` : text}`,
+          this.relayConfig,
+        ),
+      );
+      recordRelayedMessage(this.relayConfig.serverName, "chat", "to_cubyz");
+    } catch (error) {
+      this.log("error", "Failed to relay IRC message to Cubyz:", error);
+    }
+  }
+
+  private formatPlayerListResponse(players: readonly string[]): string {
+    const serverName = this.relayConfig.serverName;
+    if (players.length === 0) {
+      return serverName
+        ? `No players are currently connected to ${serverName}`
+        : "No players are currently connected";
+    }
+
+    const heading = serverName
+      ? `Players online on ${serverName} (${players.length}):`
+      : `Players online (${players.length}):`;
+    const displayedPlayers = players.slice(0, MAX_PLAYER_LIST_ENTRIES);
+    const remaining = players.length - displayedPlayers.length;
+    return `${heading} ${displayedPlayers.join(", ")}${remaining > 0 ? `, ...and ${remaining} more` : ""}`;
+  }
+
+  private isConfiguredChannel(channel: string | undefined): boolean {
+    return channel?.toLowerCase() === this.config.channel.toLowerCase();
+  }
+
+  private serverTag(): string {
+    return formatServerTag(this.relayConfig.serverName);
+  }
+
+  /**
+   * Sends text to the channel, split into IRC-sized lines. Returns false when
+   * the bridge has not joined the channel yet.
+   */
+  private say(text: string): boolean {
+    if (!this.joined) {
+      recordSendFailure(this.relayConfig.serverName, this.name);
+      return false;
+    }
+
+    for (const chunk of splitMessage(text)) {
+      this.send(`PRIVMSG ${this.config.channel} :${chunk}`);
+    }
+    return true;
+  }
+
+  private send(line: string): void {
+    const socket = this.socket;
+    if (!socket || socket.destroyed) {
+      return;
+    }
+    socket.write(`${line.replace(/[\r\n]+/g, " ")}\r\n`);
+  }
+}
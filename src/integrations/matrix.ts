@@ -0,0 +1,561 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import type { Gamemode } from "cubyz-node-client";
+import { ReconnectBackoff } from "../backoff.js";
+import type { BotConnectionManager } from "../botConnection.js";
+import { createLogger, type Logger } from "../logger.js";
+import {
+  censorMessage,
+  cleanUsername,
+  formatMessage,
+  formatServerTag,
+  formatStatusMessage,
+  shouldRelayEvent,
+} from "../messageFormatter.js";
+import { recordRelayedMessage, recordSendFailure } from "../metrics.js";
+import { renderTemplate } from "../templates.js";
+import type { ChatMessage, Config, LogLevel, MatrixConfig } from "../types.js";
+import type {
+  BaseIntegration,
+  IntegrationHealth,
+  IntegrationStatusContext,
+} from "./base.js";
+
+const CLIENT_API_PATH = "/_matrix/client/v3";
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_PLAYER_LIST_ENTRIES = 50;
+const MESSAGE_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const RETRY_DELAY_MS = 5000;
+
+interface CachedMessage {
+  rawUsername: string;
+  content: string;
+  timestamp: number;
+}
+
+interface MatrixEvent {
+  event_id?: string;
+  type: string;
+  sender: string;
+  state_key?: string;
+  content: Record<string, unknown>;
+}
+
+interface SyncResponse {
+  next_batch: string;
+  rooms?: {
+    join?: Record<
+      string,
+      {
+        state?: { events?: MatrixEvent[] };
+        timeline?: { events?: MatrixEvent[] };
+      }
+    >;
+  };
+}
+
+export class MatrixError extends Error {
+  constructor(
+    readonly statusCode: number,
+    readonly errcode: string | undefined,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Converts the Discord-flavoured markdown produced by `formatMessage` to the
+ * HTML subset Matrix clients render in `formatted_body`.
+ */
+export function markdownToMatrixHtml(markdown: string): string {
+  return escapeHtml(markdown)
+    .replace(/\|\|(.+?)\|\|/g, "<span data-mx-spoiler>$1</span>")
+    .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/__(.+?)__/g, "<u>$1</u>")
+    .replace(/~~(.+?)~~/g, "<del>$1</del>")
+    .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)/g, "$1<em>$2</em>")
+    .replace(/(^|\W)_(?!\s)(.+?)_(?!\w)/g, "$1<em>$2</em>")
+    .replace(/`([^`]+)`/g, "<code>$1</code>")
+    .replace(/\\([*_~`|\\])/g, "$1")
+    .replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Removes the quoted fallback (`> <@user:server> text`) that clients prepend
+ * to the body of a reply.
+ */
+export function stripReplyFallback(body: string): string {
+  const lines = body.split("\n");
+  let index = 0;
+  while (index < lines.length && lines[index].startsWith(">")) {
+    index += 1;
+  }
+  return index > 0 ? lines.slice(index).join("\n") : body;
+}
+
+const localpart = (userId: string): string =>
+  userId.replace(/^@/, "").split(":")[0];
+
+/**
+ * Integration that bridges a Matrix room over the client-server API. Cubyz
+ * events are posted as notices; room messages are relayed back to Cubyz as
+ * `name: message`, with replies to relayed chat carrying the same
+ * "replying to" context as Discord replies.
+ */
+export class MatrixIntegration implements BaseIntegration {
+  readonly name = "Matrix";
+
+  private config: MatrixConfig;
+  private relayConfig: Config;
+  private bot: BotConnectionManager | null = null;
+  private userId: string | null = null;
+  private roomId: string | null = null;
+  private since: string | null = null;
+  private stopped = true;
+  private loop: Promise<void> | null = null;
+  private syncAbort: AbortController | null = null;
+  private stopAbort = new AbortController();
+  private lastError: string | null = null;
+  private transactionCounter = 0;
+  private currentPlayers: string[] = [];
+  private readonly displayNames = new Map<string, string>();
+  private readonly messageCache = new Map<string, CachedMessage>();
+  private readonly backoff = new ReconnectBackoff({
+    maxRetries: 0,
+    retryDelayMs: RETRY_DELAY_MS,
+    backoffMultiplier: 2,
+    maxDelayMs: MAX_RETRY_DELAY_MS,
+    jitter: 0.2,
+  });
+  private readonly logger: Logger;
+
+  constructor(config: Config) {
+    this.relayConfig = config;
+    this.config = config.integration.matrix;
+    this.logger = createLogger(config.logLevel);
+  }
+
+  private log(level: LogLevel, ...args: unknown[]) {
+    this.logger(level, `[${this.name}]`, ...args);
+  }
+
+  setBotConnection(bot: BotConnectionManager): void {
+    this.bot = bot;
+  }
+
+  async start(): Promise<void> {
+    if (this.loop) {
+      return;
+    }
+    this.stopped = false;
+    this.stopAbort = new AbortController();
+    this.loop = this.run();
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.stopAbort.abort();
+    this.syncAbort?.abort();
+    await this.loop;
+    this.loop = null;
+    this.messageCache.clear();
+    this.log("info", "Integration stopped");
+  }
+
+  async updatePlayers(players: readonly string[]): Promise<void> {
+    this.currentPlayers = [...players];
+  }
+
+  async updateStatus(
+    status: "online" | "offline",
+    context?: IntegrationStatusContext,
+  ): Promise<void> {
+    if (status === "offline") {
+      this.currentPlayers = [];
+    }
+
+    const statusMessage = formatStatusMessage(
+      status,
+      context,
+      this.relayConfig,
+    );
+    if (statusMessage) {
+      await this.post(`${this.serverTag()}${statusMessage}`);
+    }
+  }
+
+  async updateGamemode(_gamemode: Gamemode) {}
+
+  async relayChatMessage(chatMessage: ChatMessage): Promise<void> {
+    if (!shouldRelayEvent(chatMessage.type, this.relayConfig)) {
+      return;
+    }
+
+    // Skip the relay bot's own lines, which are messages relayed from here.
+    const botName = cleanUsername(this.relayConfig.cubyz.botName ?? "");
+    if (
+      chatMessage.type === "chat" &&
+      botName.length > 0 &&
+      chatMessage.username.toLowerCase() === botName.toLowerCase()
+    ) {
+      return;
+    }
+
+    const eventId = await this.post(
+      formatMessage(chatMessage, this.relayConfig),
+    );
+    if (eventId) {
+      recordRelayedMessage(
+        this.relayConfig.serverName,
+        chatMessage.type,
+        "from_cubyz",
+      );
+    }
+    if (eventId && chatMessage.type === "chat" && chatMessage.message) {
+      this.messageCache.set(eventId, {
+        rawUsername: chatMessage.rawUsername,
+        content: chatMessage.message,
+        timestamp: Date.now(),
+      });
+
+      if (this.messageCache.size % 50 === 0) {
+        this.cleanMessageCache();
+      }
+    }
+  }
+
+  async sendMessage(message: string): Promise<void> {
+    await this.post(message);
+  }
+
+  async updateConfig(config: Config): Promise<void> {
+    const previous = this.config;
+    this.relayConfig = config;
+    this.config = config.integration.matrix;
+
+    if (
+      previous.homeserverUrl !== this.config.homeserverUrl ||
+      previous.accessToken !== this.config.accessToken ||
+      previous.roomId !== this.config.roomId
+    ) {
+      this.log("info", "Matrix settings changed, reconnecting...");
+      this.roomId = null;
+      this.syncAbort?.abort();
+    }
+  }
+
+  getStatus(): IntegrationHealth {
+    if (this.roomId && !this.lastError) {
+      return { healthy: true };
+    }
+    return {
+      healthy: false,
+      detail: this.lastError ?? `Not joined to ${this.config.roomId}`,
+    };
+  }
+
+  /**
+   * Joins the room and long-polls `/sync` until stopped, backing off after
+   * failures.
+   */
+  private async run(): Promise<void> {
+    while (!this.stopped) {
+      try {
+        if (!this.roomId) {
+          await this.connect();
+        }
+        await this.sync();
+        this.backoff.reset();
+        this.lastError = null;
+      } catch (error) {
+        if (this.stopped) {
+          break;
+        }
+        if (error instanceof Error && error.name === "AbortError") {
+          // A config change interrupted the request; reconnect right away.
+          continue;
+        }
+
+        this.lastError = error instanceof Error ? error.message : String(error);
+        const step = this.backoff.next();
+        const delayMs = step?.delayMs ?? RETRY_DELAY_MS;
+        this.log(
+          "warn",
+          `Sync failed (${this.lastError}); retrying in ${delayMs}ms`,
+        );
+        try {
+          await sleep(delayMs, undefined, { signal: this.stopAbort.signal });
+        } catch {
+          break;
+        }
+      }
+    }
+  }
+
+  private async connect(): Promise<void> {
+    this.since = null;
+    this.displayNames.clear();
+
+    const whoami = await this.request<{ user_id: string }>(
+      "GET",
+      "/account/whoami",
+    );
+    this.userId = whoami.user_id;
+
+    const joined = await this.request<{ room_id: string }>(
+      "POST",
+      `/join/${encodeURIComponent(this.config.roomId)}`,
+      {},
+    );
+
+    // The first sync only catches up on room state so the backlog is not
+    // relayed again.
+    const initial = await this.fetchSync(joined.room_id, 0);
+    for (const event of this.roomEvents(initial, joined.room_id)) {
+      this.trackMember(event);
+    }
+    this.since = initial.next_batch;
+    this.roomId = joined.room_id;
+    this.log("info", `Joined ${this.config.roomId} as ${this.userId}`);
+  }
+
+  private async sync(): Promise<void> {
+    const roomId = this.roomId;
+    if (!roomId) {
+      return;
+    }
+
+    const response = await this.fetchSync(roomId, this.config.syncTimeoutMs);
+    if (this.roomId !== roomId) {
+      return;
+    }
+    this.since = response.next_batch;
+
+    for (const event of this.roomEvents(response, roomId)) {
+      this.trackMember(event);
+      if (event.type === "m.room.message" && event.sender !== this.userId) {
+        await this.handleRoomMessage(event);
+      }
+    }
+  }
+
+  private async fetchSync(
+    roomId: string,
+    timeoutMs: number,
+  ): Promise<SyncResponse> {
+    const filter = JSON.stringify({
+      presence: { types: [] },
+      account_data: { types: [] },
+      room: {
+        rooms: [roomId],
+        account_data: { types: [] },
+        ephemeral: { types: [] },
+        timeline: { limit: 50 },
+      },
+    });
+    const query = new URLSearchParams({
+      filter,
+      timeout: String(timeoutMs),
+    });
+    if (this.since) {
+      query.set("since", this.since);
+    }
+
+    this.syncAbort = new AbortController();
+    try {
+      return await this.request<SyncResponse>(
+        "GET",
+        `/sync?${query}`,
+        undefined,
+        AbortSignal.any([
+          this.syncAbort.signal,
+          AbortSignal.timeout(timeoutMs + REQUEST_TIMEOUT_MS),
+        ]),
+      );
+    } finally {
+      this.syncAbort = null;
+    }
+  }
+
+  private roomEvents(response: SyncResponse, roomId: string): MatrixEvent[] {
+    const room = response.rooms?.join?.[roomId];
+    return [...(room?.state?.events ?? []), ...(room?.timeline?.events ?? [])];
+  }
+
+  private trackMember(event: MatrixEvent): void {
+    if (event.type !== "m.room.member" || !event.state_key) {
+      return;
+    }
+    const displayName = event.content.displayname;
+    if (typeof displayName === "string" && displayName.trim().length > 0) {
+      this.displayNames.set(event.state_key, displayName.trim());
+    } else {
+      this.displayNames.delete(event.state_key);
+    }
+  }
+
+  private async handleRoomMessage(event: MatrixEvent): Promise<void> {
+    const { msgtype, body } = event.content;
+    // Notices are sent by bots; relaying them risks loops.
+    if (
+      (msgtype !== "m.text" && msgtype !== "m.emote") ||
+      typeof body !== "string"
+    ) {
+      return;
+    }
+
+    const replyTo = (
+      event.content["m.relates_to"] as
+        | { "m.in_reply_to"?: { event_id?: string } }
+        | undefined
+    )?.["m.in_reply_to"]?.event_id;
+    const text = (replyTo ? stripReplyFallback(body) : body)
+      .replace(/\s+/g, " ")
+      .trim();
+    if (text.length === 0) {
+      return;
+    }
+
+    if (text.toLowerCase() === "!list") {
+      await this.post(this.formatPlayerListResponse(this.currentPlayers));
+      return;
+    }
+
+    if (!this.bot) {
+      this.log(
+        "warn",
+        "Received Matrix message before Cubyz connection was ready.",
+      );
+      return;
+    }
+
+    // Names are free text; cleaning them keeps a name like "/kick Alice" from
+    // turning the relayed line into a server command.
+    const name =
+      cleanUsername(this.displayNames.get(event.sender) ?? "") ||
+      cleanUsername(localpart(event.sender)) ||
+      "matrix";
+    let content = msgtype === "m.emote" ? `*${text}*` : text;
+
+    if (this.config.enableReplies && replyTo) {
+      const referencedMsg = this.messageCache.get(replyTo);
+      if (referencedMsg) {
+        content = renderTemplate(this.relayConfig.templates.relay.reply, {
+          username: name,
+          target: referencedMsg.rawUsername,
+          quote: referencedMsg.content,
+          message: content,
+        });
+      }
+    }
+
+    try {
+      await this.bot.sendChat(
+        censorMessage(`${name}: ${content}`, this.relayConfig),
+      );
+      recordRelayedMessage(this.relayConfig.serverName, "chat", "to_cubyz");
+    } catch (error) {
+      this.log("error", "Failed to relay Matrix message to Cubyz:", error);
+    }
+  }
+
+  private formatPlayerListResponse(players: readonly string[]): string {
+    const serverName = this.relayConfig.serverName;
+    if (players.length === 0) {
+      return serverName
+        ? `No players are currently connected to **${serverName}**`
+        : "No players are currently connected";
+    }
+
+    const heading = serverName
+      ? `**Players online on ${serverName} (${players.length}):**`
+      : `**Players online (${players.length}):**`;
+    const displayedPlayers = players.slice(0, MAX_PLAYER_LIST_ENTRIES);
+    const remaining = players.length - displayedPlayers.length;
+    return `${heading} ${displayedPlayers.join(", ")}${remaining > 0 ? `, ...and ${remaining} more` : ""}`;
+  }
+
+  /**
+   * Posts a notice to the room and returns its event id, or null if it could
+   * not be sent.
+   */
+  private async post(markdown: string): Promise<string | null> {
+    if (!this.roomId) {
+      recordSendFailure(this.relayConfig.serverName, this.name);
+      return null;
+    }
+
+    const transactionId = `${Date.now()}-${this.transactionCounter++}`;
+    try {
+      const { event_id } = await this.request<{ event_id: string }>(
+        "PUT",
+        `/rooms/${encodeURIComponent(this.roomId)}/send/m.room.message/${transactionId}`,
+        {
+          msgtype: "m.notice",
+          body: markdown,
+          format: "org.matrix.custom.html",
+          formatted_body: markdownToMatrixHtml(markdown),
+        },
+      );
+      return event_id;
+    } catch (error) {
+      this.log("error", "Failed to send message to Matrix:", error);
+      recordSendFailure(this.relayConfig.serverName, this.name);
+      return null;
+    }
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    signal: AbortSignal = AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  ): Promise<T> {
+    const response = await fetch(
+      `${this.config.homeserverUrl}${CLIENT_API_PATH}${path}`,
+      {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.config.accessToken}`,
+          ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal,
+      },
+    );
+
+    const payload = (await response.json().catch(() => ({}))) as {
+      errcode?: string;
+      error?: string;
+    };
+    if (!response.ok) {
+      throw new MatrixError(
+        response.status,
+        payload.errcode,
+        `${method} ${path.split("?")[0]} failed: ${payload.errcode ?? `HTTP ${response.status}`}${payload.error ? ` (${payload.error})` : ""}`,
+      );
+    }
+    return payload as T;
+  }
+
+  private cleanMessageCache(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.messageCache.entries()) {
+      if (now - entry.timestamp > MESSAGE_CACHE_TTL_MS) {
+        this.messageCache.delete(id);
+      }
+    }
+  }
+
+  private serverTag(): string {
+    return formatServerTag(this.relayConfig.serverName);
+  }
+}
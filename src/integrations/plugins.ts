@@ -0,0 +1,142 @@
+import path from "node:path";
+import process from "node:process";
+import { pathToFileURL } from "node:url";
+import type { BotConnectionManager } from "../botConnection.js";
+import { createLogger, type Logger } from "../logger.js";
+import type { Config, IntegrationPluginConfig } from "../types.js";
+import type { BaseIntegration } from "./base.js";
+
+/**
+ * Everything a plugin factory receives when it is instantiated.
+ */
+export interface IntegrationPluginContext {
+  /** The plugin's own `config` block from `integration.plugins`. */
+  config: Record<string, unknown>;
+  /** The relay configuration of the server the plugin runs for. */
+  relayConfig: Config;
+  /** Logger that prefixes every line with the plugin module name. */
+  logger: Logger;
+  bot: BotConnectionManager;
+}
+
+/**
+ * Signature plugin modules must export, either as `createIntegration` or as
+ * the default export.
+ */
+export type IntegrationPluginFactory = (
+  context: IntegrationPluginContext,
+) => BaseIntegration | Promise<BaseIntegration>;
+
+const REQUIRED_METHODS = [
+  "setBotConnection",
+  "start",
+  "stop",
+  "updatePlayers",
+  "updateStatus",
+  "updateGamemode",
+  "relayChatMessage",
+  "sendMessage",
+] as const;
+
+function resolveModuleSpecifier(specifier: string): string {
+  const isPath =
+    specifier.startsWith(".") ||
+    specifier.startsWith("/") ||
+    path.isAbsolute(specifier);
+  return isPath
+    ? pathToFileURL(path.resolve(process.cwd(), specifier)).href
+    : specifier;
+}
+
+function resolveFactory(
+  moduleExports: Record<string, unknown>,
+): IntegrationPluginFactory | null {
+  const candidate = moduleExports.createIntegration ?? moduleExports.default;
+  return typeof candidate === "function"
+    ? (candidate as IntegrationPluginFactory)
+    : null;
+}
+
+function isIntegration(value: unknown): value is BaseIntegration {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const integration = value as Record<string, unknown>;
+  return (
+    typeof integration.name === "string" &&
+    integration.name.length > 0 &&
+    REQUIRED_METHODS.every(
+      (method) => typeof integration[method] === "function",
+    )
+  );
+}
+
+async function loadPlugin(
+  plugin: IntegrationPluginConfig,
+  config: Config,
+  bot: BotConnectionManager,
+): Promise<BaseIntegration> {
+  let moduleExports: Record<string, unknown>;
+  try {
+    moduleExports = await import(resolveModuleSpecifier(plugin.module));
+  } catch (error) {
+    throw new Error(
+      `could not be imported: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const factory = resolveFactory(moduleExports);
+  if (!factory) {
+    throw new Error(
+      'does not export a "createIntegration" or default factory function',
+    );
+  }
+
+  const baseLogger = createLogger(config.logLevel);
+  const integration = await factory({
+    config: plugin.config,
+    relayConfig: config,
+    logger: (level, ...args) =>
+      baseLogger(level, `[Plugin:${plugin.module}]`, ...args),
+    bot,
+  });
+
+  if (!isIntegration(integration)) {
+    throw new Error(
+      `factory did not return a valid integration (expected a name and the methods ${REQUIRED_METHODS.join(", ")})`,
+    );
+  }
+
+  integration.setBotConnection(bot);
+  return integration;
+}
+
+/**
+ * Imports every enabled plugin from `integration.plugins`. Plugins that fail
+ * to load are reported and skipped so one broken plugin cannot stop the relay.
+ */
+export async function loadIntegrationPlugins(
+  config: Config,
+  bot: BotConnectionManager,
+): Promise<BaseIntegration[]> {
+  const log = createLogger(config.logLevel);
+  const integrations: BaseIntegration[] = [];
+
+  for (const plugin of config.integration.plugins) {
+    if (!plugin.enabled) {
+      continue;
+    }
+
+    try {
+      integrations.push(await loadPlugin(plugin, config, bot));
+    } catch (error) {
+      log(
+        "error",
+        `[Plugins] Skipping plugin "${plugin.module}": ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  return integrations;
+}
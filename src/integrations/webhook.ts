@@ -0,0 +1,419 @@
+import { createHmac, randomUUID } from "node:crypto";
+import type { Gamemode } from "cubyz-node-client";
+import { computeBackoffDelay } from "../backoff.js";
+import type { BotConnectionManager } from "../botConnection.js";
+import { JsonStore } from "../jsonStore.js";
+import { createLogger, type Logger } from "../logger.js";
+import { recordRelayedMessage, recordSendFailure } from "../metrics.js";
+import type {
+  ChatMessage,
+  Config,
+  LogLevel,
+  WebhookEventType,
+  WebhooksConfig,
+} from "../types.js";
+import { gamemodeName, resolveDataFile } from "../utils.js";
+import type {
+  BaseIntegration,
+  IntegrationHealth,
+  IntegrationStatusContext,
+} from "./base.js";
+
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+export const SIGNATURE_HEADER = "X-Relay-Signature";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const BACKOFF_MULTIPLIER = 2;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+const RETRY_JITTER = 0.2;
+/** Events about the server rather than chat lines relayed from it. */
+const SERVER_STATE_EVENTS: ReadonlySet<WebhookEventType> = new Set([
+  "players",
+  "status",
+  "gamemode",
+]);
+
+export interface WebhookEnvelope {
+  version: typeof WEBHOOK_PAYLOAD_VERSION;
+  id: string;
+  event: WebhookEventType;
+  server: string | null;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+interface PendingDelivery {
+  id: string;
+  url: string;
+  event: WebhookEventType;
+  body: string;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+/** Delivery state of one endpoint, so endpoints never wait on each other. */
+interface DeliveryLane {
+  processing: Promise<void> | null;
+  processAgain: boolean;
+  retryTimer: NodeJS.Timeout | null;
+}
+
+interface QueueData {
+  version: 1;
+  deliveries: PendingDelivery[];
+}
+
+/**
+ * Computes the `X-Relay-Signature` header value for a request body.
+ */
+export function signWebhookPayload(secret: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * Integration that POSTs every relay event as a signed JSON envelope to the
+ * configured endpoints. Deliveries are kept in an on-disk queue until they
+ * succeed, so events survive restarts and endpoint outages; failed attempts
+ * are retried with exponential backoff up to `maxRetries` times. Endpoints
+ * are delivered to concurrently, each in order and with its own retries.
+ */
+export class WebhookIntegration implements BaseIntegration {
+  readonly name = "Webhook";
+
+  private config: WebhooksConfig;
+  private serverName?: string;
+  private readonly store: JsonStore<QueueData>;
+  private readonly logger: Logger;
+  private isReady = false;
+  private readonly lanes = new Map<string, DeliveryLane>();
+  private lastRoster: string | null = null;
+  private lastError: string | null = null;
+
+  constructor(config: Config) {
+    this.config = config.integration.webhooks;
+    this.serverName = config.serverName;
+    this.logger = createLogger(config.logLevel);
+    this.store = new JsonStore<QueueData>(
+      resolveDataFile(
+        config.dataDirectory,
+        "webhook-queue.json",
+        config.serverName,
+      ),
+      () => ({ version: 1, deliveries: [] }),
+      (error) => this.log("error", "Failed to save delivery queue:", error),
+    );
+  }
+
+  private log(level: LogLevel, ...args: unknown[]) {
+    this.logger(level, `[${this.name}]`, ...args);
+  }
+
+  setBotConnection(_bot: BotConnectionManager) {}
+
+  async start(): Promise<void> {
+    await this.store.load();
+    this.isReady = true;
+    const pending = this.store.data.deliveries.length;
+    this.log(
+      "info",
+      `Integration started${pending > 0 ? ` with ${pending} queued delivery(s)` : ""}`,
+    );
+    void this.processQueue();
+  }
+
+  async stop(): Promise<void> {
+    this.isReady = false;
+    for (const lane of this.lanes.values()) {
+      this.clearRetryTimer(lane);
+    }
+    await Promise.allSettled(
+      [...this.lanes.values()].map((lane) => lane.processing),
+    );
+    await this.store.save();
+    this.log("info", "Integration stopped");
+  }
+
+  async updatePlayers(players: readonly string[]): Promise<void> {
+    const roster = JSON.stringify([...players].sort());
+    if (roster === this.lastRoster) {
+      return;
+    }
+    this.lastRoster = roster;
+    await this.dispatch("players", {
+      players: [...players],
+      count: players.length,
+    });
+  }
+
+  async updateStatus(
+    status: "online" | "offline",
+    context?: IntegrationStatusContext,
+  ): Promise<void> {
+    if (status === "offline") {
+      this.lastRoster = null;
+    }
+    await this.dispatch("status", {
+      status,
+      reason: context?.reason ?? null,
+      attempts: context?.attempts ?? null,
+    });
+  }
+
+  async updateGamemode(gamemode: Gamemode): Promise<void> {
+    await this.dispatch("gamemode", {
+      gamemode: gamemodeName(gamemode) ?? gamemode,
+    });
+  }
+
+  async relayChatMessage(chatMessage: ChatMessage): Promise<void> {
+    await this.dispatch(chatMessage.type, {
+      username: chatMessage.username,
+      rawUsername: chatMessage.rawUsername,
+      message: chatMessage.message ?? null,
+      metadata: chatMessage.metadata ?? {},
+      occurredAt: chatMessage.timestamp.toISOString(),
+    });
+  }
+
+  async sendMessage(_message: string) {}
+
+  async updateConfig(config: Config): Promise<void> {
+    this.config = config.integration.webhooks;
+    this.serverName = config.serverName;
+  }
+
+  getStatus(): IntegrationHealth {
+    if (!this.isReady) {
+      return { healthy: false, detail: "Not started" };
+    }
+    const pending = this.store.data.deliveries.length;
+    return this.lastError
+      ? {
+          healthy: false,
+          detail: `${pending} queued delivery(s); last error: ${this.lastError}`,
+        }
+      : { healthy: true };
+  }
+
+  private async dispatch(
+    event: WebhookEventType,
+    data: Record<string, unknown>,
+  ): Promise<void> {
+    if (!this.isReady) {
+      return;
+    }
+
+    const endpoints = this.config.endpoints.filter((endpoint) =>
+      endpoint.events.includes(event),
+    );
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const envelope: WebhookEnvelope = {
+      version: WEBHOOK_PAYLOAD_VERSION,
+      id: randomUUID(),
+      event,
+      server: this.serverName ?? null,
+      timestamp: new Date().toISOString(),
+      data,
+    };
+    const body = JSON.stringify(envelope);
+    const now = Date.now();
+
+    for (const endpoint of endpoints) {
+      this.enqueue({
+        id: envelope.id,
+        url: endpoint.url,
+        event,
+        body,
+        attempts: 0,
+        nextAttemptAt: now,
+      });
+    }
+
+    // Deliver in the background so slow endpoints never hold up the relay.
+    void this.processQueue();
+  }
+
+  private enqueue(delivery: PendingDelivery): void {
+    const deliveries = this.store.data.deliveries;
+    deliveries.push(delivery);
+
+    const overflow = deliveries.length - Math.max(1, this.config.maxQueueSize);
+    if (overflow > 0) {
+      const dropped = deliveries.splice(0, overflow);
+      this.log(
+        "warn",
+        `Delivery queue is full; dropped ${dropped.length} oldest delivery(s).`,
+      );
+    }
+    this.store.scheduleSave();
+  }
+
+  /**
+   * Attempts every due delivery, working on all endpoints concurrently.
+   */
+  private async processQueue(): Promise<void> {
+    const urls = new Set(
+      this.store.data.deliveries.map((delivery) => delivery.url),
+    );
+    await Promise.allSettled([...urls].map((url) => this.processEndpoint(url)));
+  }
+
+  /**
+   * Attempts the due deliveries of one endpoint in order. Concurrent calls
+   * are coalesced into one more pass of the running loop.
+   */
+  private async processEndpoint(url: string): Promise<void> {
+    let lane = this.lanes.get(url);
+    if (!lane) {
+      lane = { processing: null, processAgain: false, retryTimer: null };
+      this.lanes.set(url, lane);
+    }
+    if (lane.processing) {
+      lane.processAgain = true;
+      return lane.processing;
+    }
+
+    const current = lane;
+    this.clearRetryTimer(current);
+    current.processing = this.runDueDeliveries(url, current).finally(() => {
+      current.processing = null;
+      this.store.scheduleSave();
+      this.scheduleRetry(url, current);
+    });
+    return current.processing;
+  }
+
+  private async runDueDeliveries(
+    url: string,
+    lane: DeliveryLane,
+  ): Promise<void> {
+    do {
+      lane.processAgain = false;
+      const now = Date.now();
+      const due = this.store.data.deliveries.filter(
+        (delivery) => delivery.url === url && delivery.nextAttemptAt <= now,
+      );
+      for (const delivery of due) {
+        if (!this.isReady) {
+          return;
+        }
+        await this.attempt(delivery);
+      }
+    } while (lane.processAgain && this.isReady);
+  }
+
+  private async attempt(delivery: PendingDelivery): Promise<void> {
+    const endpoint = this.config.endpoints.find(
+      (candidate) => candidate.url === delivery.url,
+    );
+    if (!endpoint) {
+      // The endpoint was removed by a config reload.
+      this.remove(delivery);
+      return;
+    }
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "cubyz-discord-relay",
+          "X-Relay-Event": delivery.event,
+          "X-Relay-Delivery": delivery.id,
+          [SIGNATURE_HEADER]: signWebhookPayload(
+            endpoint.secret,
+            delivery.body,
+          ),
+        },
+        body: delivery.body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      this.remove(delivery);
+      this.lastError = null;
+      if (!SERVER_STATE_EVENTS.has(delivery.event)) {
+        recordRelayedMessage(this.serverName, delivery.event, "from_cubyz");
+      }
+    } catch (error) {
+      this.handleFailure(delivery, error);
+    }
+  }
+
+  private handleFailure(delivery: PendingDelivery, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.lastError = message;
+    recordSendFailure(this.serverName, this.name);
+    delivery.attempts += 1;
+
+    if (delivery.attempts > this.config.maxRetries) {
+      this.remove(delivery);
+      this.log(
+        "warn",
+        `Giving up on ${delivery.event} delivery to ${delivery.url} after ${delivery.attempts} attempt(s): ${message}`,
+      );
+      return;
+    }
+
+    const delayMs = computeBackoffDelay(
+      {
+        maxRetries: this.config.maxRetries,
+        retryDelayMs: this.config.retryDelayMs,
+        backoffMultiplier: BACKOFF_MULTIPLIER,
+        maxDelayMs: Math.max(MAX_RETRY_DELAY_MS, this.config.retryDelayMs),
+        jitter: RETRY_JITTER,
+      },
+      delivery.attempts,
+    );
+    delivery.nextAttemptAt = Date.now() + delayMs;
+    this.log(
+      "debug",
+      `Delivery to ${delivery.url} failed (${message}); retrying in ${delayMs}ms`,
+    );
+  }
+
+  private remove(delivery: PendingDelivery): void {
+    const deliveries = this.store.data.deliveries;
+    const index = deliveries.indexOf(delivery);
+    if (index !== -1) {
+      deliveries.splice(index, 1);
+    }
+  }
+
+  private scheduleRetry(url: string, lane: DeliveryLane): void {
+    this.clearRetryTimer(lane);
+    const pending = this.store.data.deliveries.filter(
+      (delivery) => delivery.url === url,
+    );
+    if (!this.isReady || pending.length === 0) {
+      if (this.lanes.get(url) === lane) {
+        this.lanes.delete(url);
+      }
+      return;
+    }
+
+    const next = pending.reduce(
+      (earliest, delivery) => Math.min(earliest, delivery.nextAttemptAt),
+      Number.POSITIVE_INFINITY,
+    );
+    lane.retryTimer = setTimeout(
+      () => {
+        lane.retryTimer = null;
+        void this.processEndpoint(url);
+      },
+      Math.max(0, next - Date.now()),
+    );
+    lane.retryTimer.unref?.();
+  }
+
+  private clearRetryTimer(lane: DeliveryLane): void {
+    if (lane.retryTimer) {
+      clearTimeout(lane.retryTimer);
+      lane.retryTimer = null;
+    }
+  }
+}
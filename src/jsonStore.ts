@@ -0,0 +1,89 @@
+import { mkdirSync, renameSync, writeFileSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const SAVE_DEBOUNCE_MS = 2000;
+
+const isNotFoundError = (error: unknown): boolean =>
+  typeof error === "object" &&
+  error !== null &&
+  "code" in error &&
+  (error as { code?: string }).code === "ENOENT";
+
+/**
+ * Small JSON file persistence helper. Writes go to a temporary file that is
+ * renamed over the target so a crash mid-write never leaves a truncated file.
+ */
+export class JsonStore<T> {
+  private saveTimer: NodeJS.Timeout | null = null;
+  private pendingSave: Promise<void> = Promise.resolve();
+  data: T;
+
+  constructor(
+    readonly filePath: string,
+    private readonly createDefault: () => T,
+    private readonly onSaveError: (error: unknown) => void = () => {},
+  ) {
+    this.data = createDefault();
+  }
+
+  async load(): Promise<T> {
+    try {
+      const raw = await readFile(this.filePath, "utf8");
+      this.data = { ...this.createDefault(), ...(JSON.parse(raw) as T) };
+    } catch (error) {
+      if (!isNotFoundError(error)) {
+        throw error;
+      }
+      this.data = this.createDefault();
+    }
+    return this.data;
+  }
+
+  /**
+   * Saves after a short delay, coalescing bursts of changes into one write.
+   */
+  scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save().catch(this.onSaveError);
+    }, SAVE_DEBOUNCE_MS);
+    this.saveTimer.unref?.();
+  }
+
+  async save(): Promise<void> {
+    this.clearSaveTimer();
+    const contents = JSON.stringify(this.data, null, 2);
+    const write = async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      const temporaryPath = `${this.filePath}.tmp`;
+      await writeFile(temporaryPath, contents, "utf8");
+      await rename(temporaryPath, this.filePath);
+    };
+    this.pendingSave = this.pendingSave.then(write, write);
+    await this.pendingSave;
+  }
+
+  /**
+   * Synchronous variant for process exit handlers, where pending promises
+   * would never settle.
+   */
+  saveSync(): void {
+    this.clearSaveTimer();
+    mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const temporaryPath = `${this.filePath}.tmp`;
+    writeFileSync(temporaryPath, JSON.stringify(this.data, null, 2), "utf8");
+    renameSync(temporaryPath, this.filePath);
+  }
+
+  private clearSaveTimer(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import type { AllowedMentionType } from "./types.js";
+
+/** A Discord user and the names players may use to mention them. */
+export interface MentionCandidate {
+  id: string;
+  names: readonly (string | null | undefined)[];
+}
+
+export interface MentionOptions {
+  allowedMentions: readonly AllowedMentionType[];
+  /** In-game names mapped to Discord user IDs, matched case-insensitively. */
+  aliases?: Readonly<Record<string, string>>;
+}
+
+const MENTION_NAME = "[\\p{L}\\p{N}_](?:[\\p{L}\\p{N}_.-]*[\\p{L}\\p{N}_])?";
+const MENTION_TOKEN_PATTERN = new RegExp(`(^|[^\\w@])@(${MENTION_NAME})`, "gu");
+export const MENTION_ALIAS_PATTERN = new RegExp(`^${MENTION_NAME}$`, "u");
+const MASS_MENTION_PATTERN = /@(everyone|here)\b/g;
+const RAW_MENTION_PATTERN = /<@([!&]?\d+)>/g;
+
+/**
+ * Lists the distinct names mentioned as `@name` in the text.
+ */
+export function extractMentionNames(text: string): string[] {
+  const names = new Map<string, string>();
+  for (const match of text.matchAll(MENTION_TOKEN_PATTERN)) {
+    const name = match[2];
+    if (!names.has(name.toLowerCase())) {
+      names.set(name.toLowerCase(), name);
+    }
+  }
+  return Array.from(names.values());
+}
+
+/**
+ * Replaces `@name` tokens with `<@id>` mentions. Aliases win over member
+ * names; a name matching several members is left as plain text. Nothing is
+ * resolved unless user mentions are allowed, raw `<@id>` text cannot ping,
+ * and `@everyone`/`@here` only stay live when `everyone` is allowed.
+ */
+export function resolveMentions(
+  text: string,
+  candidates: readonly MentionCandidate[],
+  { allowedMentions, aliases = {} }: MentionOptions,
+): string {
+  let result = text.replace(RAW_MENTION_PATTERN, "<@\u200b$1>");
+  if (!allowedMentions.includes("everyone")) {
+    result = result.replace(MASS_MENTION_PATTERN, "@\u200b$1");
+  }
+
+  if (!allowedMentions.includes("users")) {
+    return result;
+  }
+
+  const aliasIds = new Map(
+    Object.entries(aliases).map(([name, id]) => [name.toLowerCase(), id]),
+  );
+  const resolveId = (name: string): string | null => {
+    const lowerName = name.toLowerCase();
+    if (lowerName === "everyone" || lowerName === "here") {
+      return null;
+    }
+
+    const aliasId = aliasIds.get(lowerName);
+    if (aliasId) {
+      return aliasId;
+    }
+
+    const ids = new Set(
+      candidates
+        .filter((candidate) =>
+          candidate.names.some(
+            (candidateName) => candidateName?.toLowerCase() === lowerName,
+          ),
+        )
+        .map((candidate) => candidate.id),
+    );
+    return ids.size === 1 ? (ids.values().next().value ?? null) : null;
+  };
+
+  return result.replace(
+    MENTION_TOKEN_PATTERN,
+    (match, prefix: string, name: string) => {
+      const id = resolveId(name);
+      return id ? `${prefix}<@${id}>` : match;
+    },
+  );
+}
@@ -1,4 +1,12 @@
-import type { ChatMessage, Config, EventType } from "./types.js";
+import { censorText } from "./censor.js";
+import type { IntegrationStatusContext } from "./integrations/base.js";
+import { DEFAULT_TEMPLATES, renderTemplate } from "./templates.js";
+import type {
+  ChatMessage,
+  Config,
+  EventType,
+  StatusTemplates,
+} from "./types.js";
 
 export function cleanUsername(raw: string): string {
   let result = raw;
@@ -11,65 +19,124 @@ export function cleanUsername(raw: string): string {
   return result.trim();
 }
 
-const censorMessage = (
-  message: string,
-  censorlist: readonly string[],
-): string => {
-  if (!message || censorlist.length === 0) {
-    return message;
-  }
-
-  const normalizedTerms = censorlist
-    .map((entry) => entry.trim().toLowerCase())
-    .filter((entry) => entry.length > 0);
-
-  if (normalizedTerms.length === 0) {
-    return message;
-  }
-
-  return message
-    .split(/(\s+)/)
-    .map((segment) => {
-      if (segment.trim().length === 0) {
-        return segment;
-      }
-
-      const lowerSegment = segment.toLowerCase();
-      const containsTerm = normalizedTerms.some((term) =>
-        lowerSegment.includes(term),
-      );
-
-      return containsTerm ? "||beep||" : segment;
-    })
-    .join("");
-};
+/**
+ * Applies the configured censor rules to text relayed in either direction.
+ */
+export function censorMessage(message: string, config?: Config): string {
+  return censorText(
+    message,
+    config?.censorlist ?? [],
+    config?.censorReplacement,
+  );
+}
 
 const stripCubyzColorCodes = (value: string): string =>
   value.replace(/§#[0-9A-Fa-f]{6}/g, "").replace(/#[0-9A-Fa-f]{6}/g, "");
 
+/**
+ * Formats only the text of a chat message, without the author, for delivery
+ * channels that show the author separately.
+ */
+export function formatChatContent(
+  chatMessage: ChatMessage,
+  config?: Config,
+): string {
+  return censorMessage(
+    stripCubyzColorCodes(chatMessage.message ?? "").trimStart(),
+    config,
+  );
+}
+
+export function formatServerTag(serverName?: string): string {
+  return serverName ? `[${serverName}] ` : "";
+}
+
 export function formatMessage(
   chatMessage: ChatMessage,
   config?: Config,
 ): string {
-  const username = chatMessage.username;
-
-  switch (chatMessage.type) {
-    case "join":
-      return `👋 **${username} joined the game**`;
-    case "leave":
-      return `🚪 **${username} left the game**`;
-    case "death":
-      return `💀 **${username} ${chatMessage.message ?? "died"}**`;
-    case "chat":
-      return `**${username}**: ${censorMessage(
-        stripCubyzColorCodes(chatMessage.message ?? "").trimStart(),
-        config?.censorlist ?? [],
-      )}`;
+  return `${formatServerTag(chatMessage.server)}${formatMessageBody(
+    chatMessage,
+    config,
+  )}`;
+}
+
+/**
+ * Formats an event without the server tag, e.g. for embeds that show the
+ * server separately.
+ */
+export function formatMessageBody(
+  chatMessage: ChatMessage,
+  config?: Config,
+): string {
+  const { type, username } = chatMessage;
+  const message =
+    type === "chat" || type === "system"
+      ? formatChatContent(chatMessage, config)
+      : (chatMessage.message ?? (type === "death" ? "died" : ""));
+
+  // Custom event types may not capture a username, e.g. broadcasts.
+  const template =
+    config?.templates?.events[type] ??
+    DEFAULT_TEMPLATES.events[type] ??
+    (username ? "**{username}**: {message}" : "{message}");
+
+  return renderTemplate(template, {
+    ...chatMessage.metadata,
+    username,
+    message,
+  });
+}
+
+/**
+ * Picks the status template announcing a Cubyz connection change, or null
+ * for changes that are not announced.
+ */
+export function resolveStatusTemplate(
+  status: "online" | "offline",
+  context: IntegrationStatusContext | undefined,
+): keyof StatusTemplates | null {
+  if (status === "online") {
+    return context?.reason === "connected" ? "connected" : null;
+  }
+
+  switch (context?.reason) {
+    case "retries-exhausted":
+      return "reconnectFailed";
+    case "server":
+      return "disconnected";
+    case "error":
+      return "connectionFailed";
     default:
-      return `**${username}**: ${chatMessage.message ?? ""}`;
+      return null;
   }
 }
 
+/**
+ * Formats the status line posted when the Cubyz connection changes, or
+ * returns null for changes that are not announced.
+ */
+export function formatStatusMessage(
+  status: "online" | "offline",
+  context: IntegrationStatusContext | undefined,
+  config?: Config,
+): string | null {
+  const key = resolveStatusTemplate(status, context);
+  return key ? renderStatusTemplate(key, context, config) : null;
+}
+
+/**
+ * Renders one status template with the attempt count from the context.
+ */
+export function renderStatusTemplate(
+  key: keyof StatusTemplates,
+  context: IntegrationStatusContext | undefined,
+  config?: Config,
+): string {
+  const templates = config?.templates?.status ?? DEFAULT_TEMPLATES.status;
+  return renderTemplate(templates[key], { attempts: context?.attempts });
+}
+
 export function shouldRelayEvent(
   eventType: EventType,
   config: Config,
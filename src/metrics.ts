@@ -0,0 +1,135 @@
+type Labels = Record<string, string>;
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries
+    .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+};
+
+/**
+ * A labelled Prometheus metric. Series are keyed by their rendered label
+ * set, which keeps label order stable as long as callers pass labels in the
+ * same order.
+ */
+class Metric {
+  private readonly series = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge",
+  ) {}
+
+  protected update(labels: Labels, apply: (current: number) => number): void {
+    const key = formatLabels(labels);
+    this.series.set(key, apply(this.series.get(key) ?? 0));
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(formatLabels(labels)) ?? 0;
+  }
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const [labels, value] of this.series) {
+      lines.push(`${this.name}${labels} ${value}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+export class Counter extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.update(labels, (current) => current + amount);
+  }
+}
+
+export class Gauge extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  set(labels: Labels, value: number): void {
+    this.update(labels, () => value);
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format.
+   */
+  render(): string {
+    return `${this.metrics.map((metric) => metric.render()).join("\n")}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+
+/**
+ * Metrics shared by the relays. `server` labels are the configured server
+ * name, or empty for a single unnamed server.
+ */
+export const metrics = {
+  relayedMessages: metricsRegistry.counter(
+    "cubyz_relay_messages_total",
+    "Messages relayed, by server, event type and direction. Messages from Cubyz count once per integration that delivered them.",
+  ),
+  sendFailures: metricsRegistry.counter(
+    "cubyz_relay_send_failures_total",
+    "Messages an integration failed to deliver.",
+  ),
+  reconnectAttempts: metricsRegistry.counter(
+    "cubyz_relay_reconnect_attempts_total",
+    "Reconnect attempts to the Cubyz server.",
+  ),
+  players: metricsRegistry.gauge(
+    "cubyz_relay_players",
+    "Players currently online.",
+  ),
+};
+
+export type RelayDirection = "from_cubyz" | "to_cubyz";
+
+export function recordRelayedMessage(
+  server: string | undefined,
+  event: string,
+  direction: RelayDirection,
+): void {
+  metrics.relayedMessages.inc({ server: server ?? "", event, direction });
+}
+
+export function recordSendFailure(
+  server: string | undefined,
+  integration: string,
+): void {
+  metrics.sendFailures.inc({ server: server ?? "", integration });
+}
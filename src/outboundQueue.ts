@@ -0,0 +1,155 @@
+import type { OutboundQueueConfig } from "./types.js";
+
+export interface OutboundMessageCallbacks {
+  /** Called once a queued message has been sent to the server. */
+  onDelivered?: () => void;
+  /** Called when a queued message is dropped without being delivered. */
+  onExpired?: () => void;
+}
+
+interface QueuedMessage {
+  text: string;
+  queuedAt: number;
+  callbacks: OutboundMessageCallbacks;
+}
+
+/**
+ * Bounded FIFO of chat messages waiting for the Cubyz connection to come
+ * back. Messages older than `maxAgeMs` are dropped by a timer so their
+ * senders learn about it even if the server never returns.
+ */
+export class OutboundQueue {
+  private items: QueuedMessage[] = [];
+  private expiryTimer: NodeJS.Timeout | null = null;
+
+  constructor(private config: OutboundQueueConfig) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Applies new limits, dropping messages that no longer fit.
+   */
+  configure(config: OutboundQueueConfig, now = Date.now()): void {
+    this.config = config;
+    if (!config.enabled) {
+      this.clear();
+      return;
+    }
+
+    this.pruneExpired(now);
+    while (this.items.length > config.maxSize) {
+      this.expire(this.items.shift());
+    }
+    this.scheduleExpiry(now);
+  }
+
+  /**
+   * Returns false when the queue is disabled or full.
+   */
+  enqueue(
+    text: string,
+    callbacks: OutboundMessageCallbacks = {},
+    now = Date.now(),
+  ): boolean {
+    if (!this.config.enabled) {
+      return false;
+    }
+
+    this.pruneExpired(now);
+    if (this.items.length >= this.config.maxSize) {
+      return false;
+    }
+
+    this.items.push({ text, queuedAt: now, callbacks });
+    this.scheduleExpiry(now);
+    return true;
+  }
+
+  /**
+   * Sends queued messages in order until the queue is empty or `send`
+   * throws. The failing message stays at the head of the queue.
+   */
+  drain(send: (text: string) => void, now = Date.now()): number {
+    this.pruneExpired(now);
+    let delivered = 0;
+
+    try {
+      while (this.items.length > 0) {
+        const item = this.items[0];
+        send(item.text);
+        this.items.shift();
+        delivered += 1;
+        this.notify(item.callbacks.onDelivered);
+      }
+    } finally {
+      this.scheduleExpiry(now);
+    }
+    return delivered;
+  }
+
+  pruneExpired(now = Date.now()): number {
+    let expired = 0;
+    while (
+      this.items.length > 0 &&
+      now - this.items[0].queuedAt >= this.config.maxAgeMs
+    ) {
+      this.expire(this.items.shift());
+      expired += 1;
+    }
+    return expired;
+  }
+
+  /**
+   * Drops every queued message, notifying senders that it expired.
+   */
+  clear(): void {
+    this.clearExpiryTimer();
+    const items = this.items;
+    this.items = [];
+    for (const item of items) {
+      this.expire(item);
+    }
+  }
+
+  private expire(item: QueuedMessage | undefined): void {
+    this.notify(item?.callbacks.onExpired);
+  }
+
+  private notify(callback: (() => void) | undefined): void {
+    try {
+      callback?.();
+    } catch {
+      // Callbacks only update Discord feedback; never let them break delivery.
+    }
+  }
+
+  private scheduleExpiry(now: number): void {
+    this.clearExpiryTimer();
+    const oldest = this.items[0];
+    if (!oldest) {
+      return;
+    }
+
+    const delayMs = Math.max(0, oldest.queuedAt + this.config.maxAgeMs - now);
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      const current = Date.now();
+      this.pruneExpired(current);
+      this.scheduleExpiry(current);
+    }, delayMs);
+    this.expiryTimer.unref?.();
+  }
+
+  private clearExpiryTimer(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+}
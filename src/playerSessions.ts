@@ -0,0 +1,238 @@
+import { JsonStore } from "./jsonStore.js";
+import type { Logger } from "./logger.js";
+
+interface PlayerRecord {
+  name: string;
+  totalPlaytimeMs: number;
+  sessionCount: number;
+  firstSeen: number;
+  lastSeen: number;
+  /** Start of the session in progress, if the player is online. */
+  openSince?: number;
+}
+
+interface SessionData {
+  version: 1;
+  players: Record<string, PlayerRecord>;
+}
+
+export interface PlayerSessionStats {
+  name: string;
+  totalPlaytimeMs: number;
+  sessionCount: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  online: boolean;
+}
+
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+const toKey = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Persists per-player session history keyed by cleaned username.
+ *
+ * Open sessions are stamped with a heartbeat every minute, so after a crash
+ * they are closed at the last time the relay knew the player was online
+ * instead of counting the downtime as playtime.
+ */
+export class PlayerSessionStore {
+  private readonly store: JsonStore<SessionData>;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    filePath: string,
+    private readonly log: Logger,
+  ) {
+    this.store = new JsonStore<SessionData>(
+      filePath,
+      () => ({ version: 1, players: {} }),
+      (error) => log("error", "[Sessions] Failed to save sessions:", error),
+    );
+  }
+
+  async load(): Promise<void> {
+    await this.store.load();
+
+    let recovered = 0;
+    for (const record of Object.values(this.store.data.players)) {
+      if (record.openSince !== undefined) {
+        this.closeSession(record, record.lastSeen);
+        recovered += 1;
+      }
+    }
+
+    if (recovered > 0) {
+      this.log(
+        "info",
+        `[Sessions] Closed ${recovered} session(s) left open by the previous run.`,
+      );
+      await this.store.save();
+    }
+
+    this.startHeartbeat();
+  }
+
+  recordJoin(name: string, at = Date.now()): void {
+    if (this.openSession(name, at)) {
+      this.store.scheduleSave();
+    }
+  }
+
+  recordLeave(name: string, at = Date.now()): void {
+    const record = this.store.data.players[toKey(name)];
+    if (record?.openSince !== undefined) {
+      this.closeSession(record, at);
+      this.store.scheduleSave();
+    }
+  }
+
+  /**
+   * Reconciles open sessions with the authoritative player roster.
+   */
+  syncRoster(players: readonly string[], at = Date.now()): void {
+    const online = new Set(players.map(toKey));
+    let changed = false;
+
+    for (const [key, record] of Object.entries(this.store.data.players)) {
+      if (record.openSince !== undefined && !online.has(key)) {
+        this.closeSession(record, at);
+        changed = true;
+      }
+    }
+
+    for (const name of players) {
+      changed = this.openSession(name, at) || changed;
+    }
+
+    if (changed) {
+      this.store.scheduleSave();
+    }
+  }
+
+  /**
+   * Closes every open session, e.g. when the relay loses its connection and
+   * can no longer observe who is online.
+   */
+  closeAll(at = Date.now()): void {
+    let changed = false;
+    for (const record of Object.values(this.store.data.players)) {
+      if (record.openSince !== undefined) {
+        this.closeSession(record, at);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.store.scheduleSave();
+    }
+  }
+
+  getPlayer(name: string, now = Date.now()): PlayerSessionStats | null {
+    const record = this.store.data.players[toKey(name)];
+    return record ? this.toStats(record, now) : null;
+  }
+
+  getTopPlaytime(limit: number, now = Date.now()): PlayerSessionStats[] {
+    return Object.values(this.store.data.players)
+      .map((record) => this.toStats(record, now))
+      .sort((a, b) => b.totalPlaytimeMs - a.totalPlaytimeMs)
+      .slice(0, limit);
+  }
+
+  getPlayerNames(): string[] {
+    return Object.values(this.store.data.players).map((record) => record.name);
+  }
+
+  async close(): Promise<void> {
+    this.stopHeartbeat();
+    this.closeAll();
+    await this.store.save();
+  }
+
+  /**
+   * Last-resort persistence for process exit, closing open sessions now.
+   */
+  closeSync(): void {
+    this.stopHeartbeat();
+    this.closeAll();
+    this.store.saveSync();
+  }
+
+  private openSession(name: string, at: number): boolean {
+    const key = toKey(name);
+    if (key.length === 0) {
+      return false;
+    }
+
+    const existing = this.store.data.players[key];
+    if (existing?.openSince !== undefined) {
+      return false;
+    }
+
+    const record: PlayerRecord = existing ?? {
+      name,
+      totalPlaytimeMs: 0,
+      sessionCount: 0,
+      firstSeen: at,
+      lastSeen: at,
+    };
+    record.name = name;
+    record.openSince = at;
+    record.lastSeen = at;
+    record.sessionCount += 1;
+    this.store.data.players[key] = record;
+    return true;
+  }
+
+  private closeSession(record: PlayerRecord, at: number): void {
+    if (record.openSince === undefined) {
+      return;
+    }
+
+    record.totalPlaytimeMs += Math.max(0, at - record.openSince);
+    record.lastSeen = Math.max(record.lastSeen, at);
+    delete record.openSince;
+  }
+
+  private toStats(record: PlayerRecord, now: number): PlayerSessionStats {
+    const online = record.openSince !== undefined;
+    return {
+      name: record.name,
+      totalPlaytimeMs:
+        record.totalPlaytimeMs +
+        (record.openSince !== undefined
+          ? Math.max(0, now - record.openSince)
+          : 0),
+      sessionCount: record.sessionCount,
+      firstSeen: new Date(record.firstSeen),
+      lastSeen: new Date(online ? now : record.lastSeen),
+      online,
+    };
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      const now = Date.now();
+      let changed = false;
+      for (const record of Object.values(this.store.data.players)) {
+        if (record.openSince !== undefined) {
+          record.lastSeen = now;
+          changed = true;
+        }
+      }
+      if (changed) {
+        this.store.scheduleSave();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeatTimer.unref?.();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import type {
+  MessageTemplates,
+  RelayTemplates,
+  StatusTemplates,
+} from "./types.js";
+
+export const DEFAULT_TEMPLATES: MessageTemplates = {
+  events: {
+    join: "👋 **{username} joined the game**",
+    leave: "🚪 **{username} left the game**",
+    death: "💀 **{username} {message}**",
+    chat: "**{username}**: {message}",
+    system: "📢 {message}",
+  },
+  status: {
+    botJoined: "**🤖 Bot has joined chat**",
+    botLeft: "**🤖 Bot has left chat**",
+    connected: "🟢 **Bot connected to server**",
+    disconnected: "🔴 **Bot disconnected from server**",
+    connectionFailed: "⚠️ **Bot connection failed**",
+    reconnectFailed: "❌ **Failed to reconnect after {attempts} attempts**",
+  },
+  relay: {
+    reply: 'replying to {target}: *"{quote}"* - {message}',
+    reaction: '{username} reacted to {target}: *"{quote}"* with {emoji}',
+    reactionWithoutContext: "{username} reacted with {emoji}",
+  },
+  presence: "Players Online: {playerCount}",
+};
+
+/**
+ * Placeholders each template may use. Event templates additionally accept the
+ * named groups captured by parse rules for that event type.
+ */
+export const TEMPLATE_PLACEHOLDERS = {
+  events: ["username", "message"],
+  deathEvent: ["username", "message", "cause"],
+  status: {
+    botJoined: [],
+    botLeft: [],
+    connected: [],
+    disconnected: [],
+    connectionFailed: [],
+    reconnectFailed: ["attempts"],
+  } satisfies Record<keyof StatusTemplates, string[]>,
+  relay: {
+    reply: ["username", "target", "quote", "message"],
+    reaction: ["username", "target", "quote", "emoji"],
+    reactionWithoutContext: ["username", "emoji"],
+  } satisfies Record<keyof RelayTemplates, string[]>,
+  presence: ["playerCount"],
+};
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Lists the placeholder names used in a template.
+ */
+export function templatePlaceholders(template: string): string[] {
+  return Array.from(
+    template.matchAll(PLACEHOLDER_PATTERN),
+    (match) => match[1],
+  );
+}
+
+/**
+ * Replaces `{name}` placeholders with their values. Placeholders without a
+ * value render as an empty string.
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, string | number | undefined>,
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, name: string) =>
+    String(values[name] ?? ""),
+  );
+}
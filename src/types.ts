@@ -1,4 +1,33 @@
-export type EventType = "join" | "leave" | "death" | "chat";
+export type BuiltInEventType = "join" | "leave" | "death" | "chat" | "system";
+
+/**
+ * A built-in event type or a custom one declared by a parse rule, such as
+ * `achievement` or `broadcast`.
+ */
+export type EventType = BuiltInEventType | (string & {});
+
+/**
+ * Classifies chat lines the built-in patterns don't cover. Named capture
+ * groups `username` and `message` fill the matching `ChatMessage` fields; any
+ * other named group is stored in `metadata`.
+ */
+export interface ChatParseRule {
+  type: EventType;
+  pattern: string;
+  /** Regular expression flags, limited to `i`, `m`, `s` and `u`. */
+  flags: string;
+}
+
+/**
+ * How a censor rule matches: `word` only whole words, `substring` anywhere
+ * inside a word, and `regex` as a regular expression.
+ */
+export type CensorMatchMode = "word" | "substring" | "regex";
+
+export interface CensorRule {
+  pattern: string;
+  mode: CensorMatchMode;
+}
 
 export type AllowedMentionType = "roles" | "users" | "everyone";
 
@@ -11,10 +40,21 @@ export interface CubyzConnectionConfig {
   version: string;
 }
 
+export interface OutboundQueueConfig {
+  enabled: boolean;
+  maxSize: number;
+  maxAgeMs: number;
+}
+
 export interface ConnectionRetryConfig {
   reconnect: boolean;
   maxRetries: number;
   retryDelayMs: number;
+  backoffMultiplier: number;
+  maxDelayMs: number;
+  /** Random spread applied to each delay, as a ratio between 0 and 1. */
+  jitter: number;
+  queue: OutboundQueueConfig;
 }
 
 export interface CubyzListSiteConfig {
@@ -28,29 +68,220 @@ export interface CubyzListSiteConfig {
   customClientDownloadUrl?: string;
 }
 
+export interface IntegrationPluginConfig {
+  module: string;
+  enabled: boolean;
+  config: Record<string, unknown>;
+}
+
+export type WebhookEventType = EventType | "players" | "status" | "gamemode";
+
+export interface WebhookEndpointConfig {
+  url: string;
+  /** Key for the HMAC-SHA256 signature sent with every delivery. */
+  secret: string;
+  events: WebhookEventType[];
+}
+
+export interface WebhooksConfig {
+  enabled: boolean;
+  endpoints: WebhookEndpointConfig[];
+  maxRetries: number;
+  retryDelayMs: number;
+  maxQueueSize: number;
+}
+
+export interface IrcConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+  tls: boolean;
+  nick: string;
+  username: string;
+  realname: string;
+  channel: string;
+  /** Server password sent with PASS before registering. */
+  password?: string;
+  nickservPassword?: string;
+  reconnectDelayMs: number;
+}
+
+export interface MatrixConfig {
+  enabled: boolean;
+  /** Base URL of the homeserver, e.g. `https://matrix.example.org`. */
+  homeserverUrl: string;
+  accessToken: string;
+  /** Room id (`!abc:example.org`) or alias (`#cubyz:example.org`) to bridge. */
+  roomId: string;
+  enableReplies: boolean;
+  syncTimeoutMs: number;
+}
+
 export interface IntegrationConfig {
   cubyzlistSite: CubyzListSiteConfig;
+  plugins: IntegrationPluginConfig[];
+  webhooks: WebhooksConfig;
+  irc: IrcConfig;
+  matrix: MatrixConfig;
+}
+
+export type EventChannelMap = Partial<Record<EventType, string>>;
+
+export interface ServerDiscordConfig {
+  channelId: string;
+  channels: EventChannelMap;
+  statusChannelId?: string;
+}
+
+export interface DiscordWebhookConfig {
+  enabled: boolean;
+  name: string;
+  avatarUrlTemplate?: string;
+}
+
+export interface DiscordEmbedsConfig {
+  /** Posts events other than chat, and status changes, as rich embeds. */
+  enabled: boolean;
+}
+
+export interface DiscordLinkingConfig {
+  /** Enables `/link` and `/whois` and shows linked players by their in-game name. */
+  enabled: boolean;
+  /** How long a `/link` code stays valid; at most 15 minutes. */
+  codeTtlMs: number;
+}
+
+export type AdminCommandName = "kick" | "ban" | "tp" | "time" | "cmd";
+
+export interface DiscordAdminConfig {
+  /** Registers `/kick`, `/ban`, `/tp`, `/time` and `/cmd`. */
+  enabled: boolean;
+  /** Roles allowed to run every admin command. */
+  roleIds: string[];
+  /** Roles for individual commands, replacing `roleIds` for that command. */
+  commandRoleIds: Partial<Record<AdminCommandName, string[]>>;
+  /** Audit log channel; defaults to the status channel. */
+  auditChannelId?: string;
+  /** How long to collect the server's response lines after a command. */
+  responseWindowMs: number;
+}
+
+export interface DiscordConfig extends ServerDiscordConfig {
+  enabled: boolean;
+  token: string;
+  allowedMentions: AllowedMentionType[];
+  enableReactions: boolean;
+  enableReplies: boolean;
+  /** In-game names mapped to the Discord user IDs that `@name` should ping. */
+  mentionAliases: Record<string, string>;
+  webhook: DiscordWebhookConfig;
+  embeds: DiscordEmbedsConfig;
+  linking: DiscordLinkingConfig;
+  admin: DiscordAdminConfig;
+}
+
+export interface ServerConfig {
+  name: string;
+  cubyz: CubyzConnectionConfig;
+  connection: ConnectionRetryConfig;
+  discord: ServerDiscordConfig;
+  integration: IntegrationConfig;
+}
+
+export interface StatsConfig {
+  enabled: boolean;
+  weeklyDeathSummary: boolean;
+}
+
+export type GameCommandName =
+  | "discord"
+  | "online"
+  | "playtime"
+  | "rules"
+  | "help";
+
+export interface GameCommandsConfig {
+  enabled: boolean;
+  /** Text that starts a command in game chat, e.g. `!`. */
+  prefix: string;
+  /** Commands players may use; the rest are ignored. */
+  commands: GameCommandName[];
+  /** Time before the same player can use the same command again. */
+  cooldownMs: number;
+  /** Lines sent by the `rules` command. */
+  rules: string[];
+}
+
+export interface ApiTokenConfig {
+  /** Label used in logs and rate limiting. */
+  name: string;
+  token: string;
+  requestsPerMinute: number;
+}
+
+export interface HttpApiConfig {
+  enabled: boolean;
+  tokens: ApiTokenConfig[];
+}
+
+export interface HttpServerConfig {
+  enabled: boolean;
+  host: string;
+  port: number;
+  api: HttpApiConfig;
 }
 
 export interface Config {
   logLevel: LogLevel;
+  dataDirectory: string;
+  stats: StatsConfig;
+  gameCommands: GameCommandsConfig;
+  http: HttpServerConfig;
+  serverName?: string;
   cubyz: CubyzConnectionConfig;
   connection: ConnectionRetryConfig;
-  discord: {
-    enabled: boolean;
-    token: string;
-    channelId: string;
-    allowedMentions: AllowedMentionType[];
-    enableReactions: boolean;
-    enableReplies: boolean;
-  };
+  discord: DiscordConfig;
   startupMessages: string[];
   startupMessageDelay: number;
   events: EventType[];
-  censorlist: string[];
+  parseRules: ChatParseRule[];
+  /** Unrecognized lines matching any of these are not emitted as `system`. */
+  systemIgnorePatterns: string[];
+  censorlist: CensorRule[];
+  /** Text that replaces each censored span. */
+  censorReplacement: string;
+  templates: MessageTemplates;
   excludeBotFromCount: boolean;
   excludedUsernames: string[];
   integration: IntegrationConfig;
+  servers: ServerConfig[];
+}
+
+export interface StatusTemplates {
+  botJoined: string;
+  botLeft: string;
+  connected: string;
+  disconnected: string;
+  connectionFailed: string;
+  reconnectFailed: string;
+}
+
+/**
+ * Payloads sent into Cubyz for Discord replies and reactions. The reply
+ * template follows the author's name.
+ */
+export interface RelayTemplates {
+  reply: string;
+  reaction: string;
+  reactionWithoutContext: string;
+}
+
+export interface MessageTemplates {
+  /** Keyed by event type; custom types without a template use a default. */
+  events: Partial<Record<EventType, string>>;
+  status: StatusTemplates;
+  relay: RelayTemplates;
+  presence: string;
 }
 
 export interface ChatMessage {
@@ -60,4 +291,5 @@ export interface ChatMessage {
   message?: string;
   timestamp: Date;
   metadata?: Record<string, string>;
+  server?: string;
 }
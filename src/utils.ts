@@ -1,3 +1,54 @@
+import path from "node:path";
+import process from "node:process";
+
 export function delay(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
+
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  if (totalMinutes < 1) {
+    return "<1m";
+  }
+
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) {
+    return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  }
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  }
+  return `${minutes}m`;
+}
+
+/**
+ * Maps the numeric Cubyz gamemode to its name, or null for unknown values.
+ */
+export function gamemodeName(gamemode: number): string | null {
+  switch (gamemode) {
+    case 0:
+      return "survival";
+    case 1:
+      return "creative";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolves a file inside the data directory. Relays for named servers keep
+ * their files in a per-server subdirectory.
+ */
+export function resolveDataFile(
+  dataDirectory: string,
+  fileName: string,
+  serverName?: string,
+): string {
+  const serverDirectory = serverName
+    ? serverName.toLowerCase().replace(/[^a-z0-9_-]+/g, "-")
+    : "";
+  return path.resolve(process.cwd(), dataDirectory, serverDirectory, fileName);
+}
@@ -0,0 +1,56 @@
+import { strict as assert } from "node:assert";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { AccountLinkStore } from "../src/accountLinks.js";
+
+const noopLog = () => {};
+const TTL_MS = 10 * 60 * 1000;
+
+test("AccountLinkStore links a player who types their code", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-links-"));
+  const filePath = path.join(directory, "links.json");
+  const store = new AccountLinkStore(filePath, noopLog);
+
+  try {
+    await store.load();
+    const code = store.createCode("1001", "Alice", TTL_MS, 0);
+    assert.match(code, /^[A-Z2-9]{6}$/);
+    assert.ok(store.isPendingCode(` ${code.toLowerCase()} `, 0));
+
+    assert.equal(store.confirm("Bob", code, 1000), null);
+    const link = store.confirm("alice", code, 1000);
+    assert.deepEqual(link, {
+      discordId: "1001",
+      cubyzName: "alice",
+      linkedAt: new Date(1000),
+    });
+    assert.ok(!store.isPendingCode(code, 1000));
+    assert.equal(store.getByCubyzName("ALICE")?.discordId, "1001");
+
+    await store.close();
+    const reloaded = new AccountLinkStore(filePath, noopLog);
+    await reloaded.load();
+    assert.equal(reloaded.getByDiscordId("1001")?.cubyzName, "alice");
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("AccountLinkStore expires codes and moves relinked players", () => {
+  const store = new AccountLinkStore("unused.json", noopLog);
+
+  const expired = store.createCode("1001", "Alice", TTL_MS, 0);
+  assert.equal(store.confirm("Alice", expired, TTL_MS), null);
+
+  const first = store.createCode("1001", "Alice", TTL_MS, 0);
+  const replaced = store.createCode("1001", "Alice", TTL_MS, 0);
+  assert.equal(store.confirm("Alice", first, 0), null);
+  assert.ok(store.confirm("Alice", replaced, 0));
+
+  const other = store.createCode("2002", "Alice", TTL_MS, 0);
+  store.confirm("Alice", other, 0);
+  assert.equal(store.getByDiscordId("1001"), null);
+  assert.equal(store.getByCubyzName("Alice")?.discordId, "2002");
+});
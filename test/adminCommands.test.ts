@@ -0,0 +1,92 @@
+import { strict as assert } from "node:assert";
+import { EventEmitter } from "node:events";
+import test from "node:test";
+import {
+  buildServerCommand,
+  captureServerResponses,
+  formatAdminReply,
+  hasAdminRole,
+} from "../src/adminCommands.js";
+import { BotConnectionManager } from "../src/botConnection.js";
+import type { DiscordAdminConfig } from "../src/types.js";
+
+const admin: DiscordAdminConfig = {
+  enabled: true,
+  roleIds: ["100000000000000001"],
+  commandRoleIds: { cmd: ["100000000000000002"] },
+  responseWindowMs: 0,
+};
+
+test("hasAdminRole lets per-command roles replace the shared roles", () => {
+  assert.ok(hasAdminRole(["100000000000000001"], "kick", admin));
+  assert.ok(!hasAdminRole(["100000000000000001"], "cmd", admin));
+  assert.ok(hasAdminRole(["100000000000000002"], "cmd", admin));
+  assert.ok(!hasAdminRole([], "time", admin));
+});
+
+test("buildServerCommand flattens options into one server command", () => {
+  assert.equal(
+    buildServerCommand("kick", { player: "Alice", reason: "spam\n/ban Bob" }),
+    "/kick Alice spam /ban Bob",
+  );
+  assert.equal(
+    buildServerCommand("tp", { player: "Alice", destination: "0 64 0" }),
+    "/tp Alice 0 64 0",
+  );
+  assert.equal(
+    buildServerCommand("cmd", { command: "gamemode creative" }),
+    "/gamemode creative",
+  );
+  assert.throws(() => buildServerCommand("time", { value: " " }), /value/);
+});
+
+test("captureServerResponses collects system lines sent during the window", async () => {
+  const bot = new BotConnectionManager(
+    { host: "127.0.0.1", port: 47649, version: "0.0.0" },
+    {
+      reconnect: false,
+      maxRetries: 0,
+      retryDelayMs: 0,
+      backoffMultiplier: 2,
+      maxDelayMs: 0,
+      jitter: 0,
+      queue: { enabled: false, maxSize: 0, maxAgeMs: 0 },
+    },
+    "silent",
+    true,
+    [],
+  );
+  // Lines emitted on the fake connection go through the real chat handler.
+  const connection = new EventEmitter();
+  (
+    bot as unknown as { attachListeners(connection: EventEmitter): void }
+  ).attachListeners(connection);
+
+  const lines = await captureServerResponses(bot, 10, async () => {
+    connection.emit("chat", "Kicked Alice");
+    connection.emit("chat", "[Bob] lol");
+  });
+  connection.emit("chat", "too late");
+
+  assert.deepEqual(lines, ["Kicked Alice"]);
+  assert.equal(bot.listenerCount("chat"), 0);
+});
+
+test("formatAdminReply fits long responses into one message", () => {
+  assert.equal(
+    formatAdminReply("/time day", [], 2000),
+    "🛡️ Sent `/time day`\nNo response from the server within 2s.",
+  );
+
+  const reply = formatAdminReply(
+    "/cmd list",
+    Array.from(
+      { length: 100 },
+      (_, index) => `line ${index} ${"x".repeat(40)}`,
+    ),
+    2000,
+  );
+  assert.ok(reply.length <= 2000);
+  assert.match(reply, /^🛡️ Sent `\/cmd list`\n```\nline 0 /);
+  assert.match(reply, /\n…\n```$/);
+});
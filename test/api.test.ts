@@ -0,0 +1,161 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { type ApiRelay, createApiHandler } from "../src/api.js";
+import { startHttpServer } from "../src/httpServer.js";
+
+const noopLog = () => {};
+const TOKEN = "0123456789abcdef0123";
+
+const createRelay = (
+  server: string,
+  sent: string[],
+  audited: string[] = [],
+): ApiRelay => ({
+  server,
+  sendChat: async (message) => {
+    sent.push(`${server}: ${message}`);
+    return "sent";
+  },
+  notify: async () => {},
+  audit: async (message) => {
+    audited.push(`${server}: ${message}`);
+  },
+  getSnapshot: () => ({
+    status: "online",
+    players: ["Alice"],
+    gamemode: "survival",
+  }),
+});
+
+const startApi = async (relays: ApiRelay[], requestsPerMinute = 60) => {
+  const server = await startHttpServer(
+    {
+      enabled: true,
+      host: "127.0.0.1",
+      port: 0,
+      api: { enabled: true, tokens: [] },
+    },
+    {
+      getHealth: () => [],
+      renderMetrics: () => "",
+      handleRequest: createApiHandler(
+        {
+          enabled: true,
+          tokens: [{ name: "website", token: TOKEN, requestsPerMinute }],
+        },
+        () => relays,
+        noopLog,
+      ),
+    },
+    noopLog,
+  );
+  const request = (path: string, init: RequestInit = {}, token = TOKEN) =>
+    fetch(`http://127.0.0.1:${server.port}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+    });
+  return { server, request };
+};
+
+test("API rejects requests without a valid token", async () => {
+  const { server, request } = await startApi([createRelay("", [])]);
+
+  try {
+    const response = await request("/players", {}, "wrong-token");
+    assert.equal(response.status, 401);
+    assert.equal(response.headers.get("www-authenticate"), "Bearer");
+  } finally {
+    await server.close();
+  }
+});
+
+test("API sends chat to the selected server", async () => {
+  const sent: string[] = [];
+  const { server, request } = await startApi([
+    createRelay("Survival", sent),
+    createRelay("Creative", sent),
+  ]);
+
+  try {
+    const response = await request("/chat?server=creative", {
+      method: "POST",
+      body: JSON.stringify({ message: " Restart in 5 minutes " }),
+    });
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), {
+      results: [{ server: "Creative", result: "sent" }],
+    });
+    assert.deepEqual(sent, ["Creative: Restart in 5 minutes"]);
+
+    const unknown = await request("/chat?server=Lobby", {
+      method: "POST",
+      body: JSON.stringify({ message: "hi" }),
+    });
+    assert.equal(unknown.status, 404);
+  } finally {
+    await server.close();
+  }
+});
+
+test("API refuses server commands and audits chat", async () => {
+  const sent: string[] = [];
+  const audited: string[] = [];
+  const { server, request } = await startApi([
+    createRelay("Survival", sent, audited),
+  ]);
+
+  try {
+    const command = await request("/chat", {
+      method: "POST",
+      body: JSON.stringify({ message: "/ban Alice" }),
+    });
+    assert.equal(command.status, 403);
+    assert.deepEqual(await command.json(), {
+      error: "Server commands cannot be sent through the API",
+    });
+
+    const chat = await request("/chat", {
+      method: "POST",
+      body: JSON.stringify({ message: "hello" }),
+    });
+    assert.equal(chat.status, 200);
+
+    assert.deepEqual(sent, ["Survival: hello"]);
+    assert.deepEqual(audited, [
+      "Survival: API token **website** was denied `/ban Alice`",
+      "Survival: API token **website** sent `hello`",
+    ]);
+  } finally {
+    await server.close();
+  }
+});
+
+test("API reports players for every server", async () => {
+  const { server, request } = await startApi([createRelay("", [])]);
+
+  try {
+    const response = await request("/players");
+    assert.deepEqual(await response.json(), {
+      servers: [{ server: "", players: ["Alice"] }],
+    });
+  } finally {
+    await server.close();
+  }
+});
+
+test("API rate limits each token", async () => {
+  const { server, request } = await startApi([createRelay("", [])], 2);
+
+  try {
+    assert.equal((await request("/status")).status, 200);
+    assert.equal((await request("/gamemode")).status, 200);
+    const limited = await request("/status");
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get("retry-after")) > 0);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,54 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { computeBackoffDelay, ReconnectBackoff } from "../src/backoff.js";
+
+const config = {
+  maxRetries: 0,
+  retryDelayMs: 1_000,
+  backoffMultiplier: 2,
+  maxDelayMs: 5_000,
+  jitter: 0,
+};
+
+test("ReconnectBackoff grows the delay per attempt up to the cap", () => {
+  const backoff = new ReconnectBackoff(config);
+  const delays = Array.from({ length: 5 }, () => backoff.next()?.delayMs);
+  assert.deepEqual(delays, [1_000, 2_000, 4_000, 5_000, 5_000]);
+});
+
+test("ReconnectBackoff starts over after a reset", () => {
+  const backoff = new ReconnectBackoff(config);
+  backoff.next();
+  backoff.next();
+  backoff.reset();
+
+  assert.deepEqual(backoff.next(), {
+    attempt: 1,
+    maxRetries: null,
+    delayMs: 1_000,
+  });
+});
+
+test("ReconnectBackoff stops once maxRetries attempts are used", () => {
+  const backoff = new ReconnectBackoff({ ...config, maxRetries: 2 });
+  assert.equal(backoff.next()?.attempt, 1);
+  assert.equal(backoff.next()?.attempt, 2);
+  assert.equal(backoff.next(), null);
+  assert.equal(backoff.attempts, 2);
+});
+
+test("computeBackoffDelay spreads delays by the jitter ratio", () => {
+  const jittered = { ...config, jitter: 0.5 };
+  assert.equal(
+    computeBackoffDelay(jittered, 2, () => 0),
+    1_000,
+  );
+  assert.equal(
+    computeBackoffDelay(jittered, 2, () => 0.5),
+    2_000,
+  );
+  assert.equal(
+    computeBackoffDelay(jittered, 3, () => 1),
+    5_000,
+  );
+});
@@ -0,0 +1,81 @@
+import { strict as assert } from "node:assert";
+import { EventEmitter } from "node:events";
+import test from "node:test";
+import { BotConnectionManager } from "../src/botConnection.js";
+import type { ChatMessage, ChatParseRule } from "../src/types.js";
+
+/**
+ * Creates a manager wired to a fake connection, so lines emitted on the
+ * connection go through the real chat handler.
+ */
+const createManager = (parseRules: ChatParseRule[] = []) => {
+  const manager = new BotConnectionManager(
+    { host: "127.0.0.1", port: 47649, version: "0.0.0", botName: "Relay" },
+    {
+      reconnect: false,
+      maxRetries: 0,
+      retryDelayMs: 0,
+      backoffMultiplier: 2,
+      maxDelayMs: 0,
+      jitter: 0,
+      queue: { enabled: false, maxSize: 0, maxAgeMs: 0 },
+    },
+    "silent",
+    true,
+    [],
+    "Survival",
+    { parseRules, systemIgnorePatterns: ["^ignored"] },
+  );
+  const connection = new EventEmitter();
+  (
+    manager as unknown as { attachListeners(connection: EventEmitter): void }
+  ).attachListeners(connection);
+
+  const messages: ChatMessage[] = [];
+  manager.on("chat", (chatMessage) => messages.push(chatMessage));
+  return { manager, connection, messages };
+};
+
+test("BotConnectionManager emits unmatched lines as system events", () => {
+  const { connection, messages } = createManager();
+
+  connection.emit("chat", "Server restarting in 5 minutes");
+  connection.emit("chat", "ignored line");
+  connection.emit("chat", "[§#ffffff] nameless chat");
+
+  assert.deepEqual(
+    messages.map(({ type, username, message, server }) => ({
+      type,
+      username,
+      message,
+      server,
+    })),
+    [
+      {
+        type: "system",
+        username: "",
+        message: "Server restarting in 5 minutes",
+        server: "Survival",
+      },
+    ],
+  );
+});
+
+test("BotConnectionManager emits parse rule events without a username", () => {
+  const { connection, messages } = createManager([
+    {
+      type: "broadcast",
+      pattern: "^\\[Broadcast\\] (?<message>.+)$",
+      flags: "",
+    },
+    { type: "join", pattern: "^(?<who>\\S+) arrived$", flags: "" },
+  ]);
+
+  connection.emit("chat", "[Broadcast] Event starts at spawn");
+  connection.emit("chat", "Alice arrived");
+
+  assert.equal(messages.length, 1);
+  assert.equal(messages[0].type, "broadcast");
+  assert.equal(messages[0].username, "");
+  assert.equal(messages[0].message, "Event starts at spawn");
+});
@@ -0,0 +1,48 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { censorText, normalizeCensorText } from "../src/censor.js";
+
+test("normalizeCensorText folds case, accents, leetspeak and homoglyphs", () => {
+  // The first letters are Cyrillic.
+  assert.equal(normalizeCensorText("Ѕесrét"), "secret");
+  assert.equal(normalizeCensorText("P@$$w0rd"), "password");
+  assert.equal(normalizeCensorText("ＦＵＬＬ"), "full");
+});
+
+test("censorText matches whole words by default mode", () => {
+  const rules = [{ pattern: "ass", mode: "word" as const }];
+  assert.equal(censorText("a class act", rules), "a class act");
+  assert.equal(censorText("you @$$!", rules, "***"), "you ***!");
+});
+
+test("censorText supports substring and regex rules", () => {
+  assert.equal(
+    censorText("Badword-ish badWORDS", [
+      { pattern: "badword", mode: "substring" },
+    ]),
+    "||beep||-ish ||beep||S",
+  );
+  assert.equal(
+    censorText("visit spam.example now", [
+      { pattern: "\\w+\\.example", mode: "regex" },
+    ]),
+    "visit ||beep|| now",
+  );
+  assert.equal(
+    censorText("call 555-1234 or see https://spam.example/x", [
+      { pattern: "\\d{3}-\\d{4}", mode: "regex" },
+      { pattern: "https?://\\S+", mode: "regex" },
+    ]),
+    "call ||beep|| or see ||beep||",
+  );
+});
+
+test("censorText merges overlapping matches", () => {
+  assert.equal(
+    censorText("abcdef", [
+      { pattern: "abcd", mode: "substring" },
+      { pattern: "cdef", mode: "substring" },
+    ]),
+    "||beep||",
+  );
+});
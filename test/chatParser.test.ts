@@ -1,6 +1,11 @@
 import { strict as assert } from "node:assert";
 import test from "node:test";
-import { parseChatMessage } from "../src/chatParser.js";
+import {
+  compileIgnorePatterns,
+  compileParseRules,
+  createSystemMessage,
+  parseChatMessage,
+} from "../src/chatParser.js";
 
 test("parseChatMessage captures multiline chat bodies", () => {
   const raw =
@@ -13,3 +18,68 @@ test("parseChatMessage captures multiline chat bodies", () => {
   assert.equal(chat?.message, "hello\nworld");
   assert.ok(chat?.timestamp instanceof Date);
 });
+
+test("parseChatMessage records the death cause in metadata", () => {
+  const death = parseChatMessage("Bob died of fall damage");
+
+  assert.equal(death?.type, "death");
+  assert.equal(death?.username, "Bob");
+  assert.equal(death?.message, "died of fall damage");
+  assert.deepEqual(death?.metadata, { cause: "of fall damage" });
+});
+
+test("parseChatMessage omits the cause for bare deaths", () => {
+  const death = parseChatMessage("Bob died");
+
+  assert.equal(death?.message, "died");
+  assert.equal(death?.metadata, undefined);
+});
+
+test("parseChatMessage applies parse rules before the built-in patterns", () => {
+  const rules = compileParseRules([
+    {
+      type: "broadcast",
+      pattern: "^\\[Server\\] (?<message>.+)$",
+      flags: "",
+    },
+    {
+      type: "achievement",
+      pattern:
+        "^(?<username>\\S+) completed (?<message>(?<achievement>.+?))(?: in (?<time>\\S+))?$",
+      flags: "i",
+    },
+  ]);
+
+  const broadcast = parseChatMessage("[Server] Restarting in 5 minutes", rules);
+  assert.equal(broadcast?.type, "broadcast");
+  assert.equal(broadcast?.username, "");
+  assert.equal(broadcast?.message, "Restarting in 5 minutes");
+  assert.equal(broadcast?.metadata, undefined);
+
+  const achievement = parseChatMessage("Bob COMPLETED Stone Age", rules);
+  assert.equal(achievement?.type, "achievement");
+  assert.equal(achievement?.username, "Bob");
+  assert.equal(achievement?.message, "Stone Age");
+  assert.deepEqual(achievement?.metadata, { achievement: "Stone Age" });
+
+  assert.equal(parseChatMessage("Bob joined", rules)?.type, "join");
+  assert.equal(parseChatMessage("something unrecognised", rules), null);
+});
+
+test("createSystemMessage wraps unrecognized lines unless ignored", () => {
+  const ignorePatterns = compileIgnorePatterns(["^Unknown command", "saved"]);
+
+  const system = createSystemMessage(
+    "Server restarting in 5 minutes",
+    ignorePatterns,
+  );
+  assert.equal(system?.type, "system");
+  assert.equal(system?.username, "");
+  assert.equal(system?.message, "Server restarting in 5 minutes");
+
+  assert.equal(
+    createSystemMessage("unknown command: /foo", ignorePatterns),
+    null,
+  );
+  assert.equal(createSystemMessage("World SAVED", ignorePatterns), null);
+});
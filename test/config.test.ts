@@ -3,10 +3,14 @@ import { mkdtemp, rm, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import path from "node:path";
 import test from "node:test";
-import { loadConfig } from "../src/config.js";
+import { diffConfig, loadConfig, resolveServerConfigs } from "../src/config.js";
 
 const createConfigFile = async (overrides?: {
   cubyz?: { botName?: string };
+  discord?: Record<string, unknown>;
+  gameCommands?: Record<string, unknown>;
+  integration?: Record<string, unknown>;
+  servers?: unknown[];
 }) => {
   const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-config-"));
   const filePath = path.join(directory, "config.json");
@@ -25,6 +29,7 @@ const createConfigFile = async (overrides?: {
       allowedMentions: [],
       enableReactions: true,
       enableReplies: true,
+      ...overrides?.discord,
     },
     events: ["join", "leave", "death", "chat"],
     censorlist: [],
@@ -43,7 +48,12 @@ const createConfigFile = async (overrides?: {
         serverName: "",
         serverIp: "",
       },
+      ...overrides?.integration,
     },
+    ...(overrides?.gameCommands
+      ? { gameCommands: overrides.gameCommands }
+      : {}),
+    ...(overrides?.servers ? { servers: overrides.servers } : {}),
   };
 
   await writeFile(filePath, JSON.stringify(config, null, 2));
@@ -90,3 +100,587 @@ test("loadConfig preserves explicit cubyz.botName", async () => {
     await rm(directory, { recursive: true, force: true });
   }
 });
+
+test("loadConfig derives a single server from top-level settings", async () => {
+  const { directory, filePath } = await createConfigFile({
+    cubyz: { botName: "RelayBot" },
+  });
+
+  try {
+    const config = await loadConfig(filePath);
+    assert.equal(config.servers.length, 1);
+    assert.equal(config.servers[0].name, "");
+    assert.equal(config.servers[0].cubyz.botName, "RelayBot");
+    assert.equal(resolveServerConfigs(config)[0].serverName, undefined);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig inherits top-level settings for each server", async () => {
+  const { directory, filePath } = await createConfigFile({
+    servers: [
+      { name: "Survival", cubyz: { botName: "SurvivalBot" } },
+      {
+        name: "Creative",
+        cubyz: { port: 47650 },
+        connection: { maxRetries: 5 },
+        discord: { channelId: "creative-channel" },
+      },
+    ],
+  });
+
+  try {
+    const config = await loadConfig(filePath);
+    const [survival, creative] = resolveServerConfigs(config);
+    assert.equal(survival.serverName, "Survival");
+    assert.equal(survival.cubyz.port, 47649);
+    assert.equal(survival.cubyz.botName, "SurvivalBot");
+    assert.equal(creative.serverName, "Creative");
+    assert.equal(creative.cubyz.port, 47650);
+    assert.equal(creative.connection.maxRetries, 5);
+    assert.equal(creative.connection.retryDelayMs, 30000);
+    assert.equal(creative.discord.channelId, "creative-channel");
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig resolves relative plugin paths from the config file", async () => {
+  const { directory, filePath } = await createConfigFile({
+    integration: {
+      plugins: [
+        "./plugins/sink.mjs",
+        { module: "../shared/sink.mjs" },
+        "cubyz-relay-plugin",
+        "/opt/plugins/sink.mjs",
+      ],
+    },
+  });
+
+  try {
+    const config = await loadConfig(filePath);
+    assert.deepEqual(
+      config.integration.plugins.map((plugin) => plugin.module),
+      [
+        path.join(directory, "plugins", "sink.mjs"),
+        path.join(path.dirname(directory), "shared", "sink.mjs"),
+        "cubyz-relay-plugin",
+        "/opt/plugins/sink.mjs",
+      ],
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig keeps bridges per server when several servers are relayed", async () => {
+  const irc = (nick: string, channel: string) => ({
+    enabled: true,
+    host: "irc.example.org",
+    nick,
+    channel,
+  });
+  const { directory, filePath } = await createConfigFile({
+    servers: [
+      {
+        name: "Survival",
+        integration: { irc: irc("SurvivalRelay", "#survival") },
+      },
+      { name: "Creative" },
+    ],
+  });
+  const shared = await createConfigFile({
+    integration: { irc: irc("Relay", "#cubyz") },
+    servers: [{ name: "Survival" }, { name: "Creative" }],
+  });
+  const sharedListing = await createConfigFile({
+    integration: {
+      cubyzlistSite: {
+        enabled: true,
+        serverName: "Cubyz",
+        serverIp: "play.example.org",
+      },
+    },
+    servers: [{ name: "Survival" }, { name: "Creative" }],
+  });
+  const sameNick = await createConfigFile({
+    servers: [
+      { name: "Survival", integration: { irc: irc("Relay", "#survival") } },
+      { name: "Creative", integration: { irc: irc("relay", "#creative") } },
+    ],
+  });
+
+  try {
+    const [survival, creative] = resolveServerConfigs(
+      await loadConfig(filePath),
+    );
+    assert.equal(survival.integration.irc.enabled, true);
+    assert.equal(survival.integration.irc.channel, "#survival");
+    assert.equal(creative.integration.irc.enabled, false);
+    await assert.rejects(
+      loadConfig(shared.filePath),
+      /"integration\.irc" would run once per server/,
+    );
+    await assert.rejects(
+      loadConfig(sharedListing.filePath),
+      /"integration\.cubyzlistSite" would run once per server/,
+    );
+    await assert.rejects(
+      loadConfig(sameNick.filePath),
+      /same IRC nick "relay"/,
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+    await rm(shared.directory, { recursive: true, force: true });
+    await rm(sharedListing.directory, { recursive: true, force: true });
+    await rm(sameNick.directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig rejects duplicate server names", async () => {
+  const { directory, filePath } = await createConfigFile({
+    servers: [{ name: "Survival" }, { name: "survival" }],
+  });
+
+  try {
+    await assert.rejects(loadConfig(filePath), /duplicate server name/);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig merges per-server event channels over top-level ones", async () => {
+  const { directory, filePath } = await createConfigFile({
+    discord: {
+      channels: { death: "graveyard", join: "activity" },
+      statusChannelId: "ops",
+    },
+    servers: [
+      { name: "Survival" },
+      { name: "Creative", discord: { channels: { death: "creative-deaths" } } },
+    ],
+  });
+
+  try {
+    const config = await loadConfig(filePath);
+    const [survival, creative] = resolveServerConfigs(config);
+    assert.deepEqual(survival.discord.channels, {
+      death: "graveyard",
+      join: "activity",
+    });
+    assert.equal(creative.discord.channels.death, "creative-deaths");
+    assert.equal(creative.discord.channels.join, "activity");
+    assert.equal(creative.discord.statusChannelId, "ops");
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig rejects channels for unknown event types", async () => {
+  const { directory, filePath } = await createConfigFile({
+    discord: { channels: { weather: "channel" } },
+  });
+
+  try {
+    await assert.rejects(loadConfig(filePath), /unsupported event types/);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("diffConfig reports changed settings as dotted paths", async () => {
+  const first = await createConfigFile();
+  const second = await createConfigFile({
+    cubyz: { botName: "RelayBot" },
+    discord: { enableReactions: false },
+  });
+
+  try {
+    const previous = await loadConfig(first.filePath);
+    const next = await loadConfig(second.filePath);
+    next.censorlist = [{ pattern: "secret", mode: "word" }];
+
+    assert.deepEqual(diffConfig(previous, next).sort(), [
+      "censorlist",
+      "cubyz",
+      "discord.enableReactions",
+      "servers",
+    ]);
+    assert.deepEqual(diffConfig(previous, previous), []);
+  } finally {
+    await rm(first.directory, { recursive: true, force: true });
+    await rm(second.directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig merges partial outbound queue settings per server", async () => {
+  const { directory, filePath } = await createConfigFile({
+    servers: [
+      { name: "Survival" },
+      { name: "Creative", connection: { queue: { maxSize: 5 } } },
+    ],
+  });
+
+  try {
+    const config = await loadConfig(filePath);
+    const [survival, creative] = resolveServerConfigs(config);
+    assert.deepEqual(survival.connection.queue, {
+      enabled: true,
+      maxSize: 50,
+      maxAgeMs: 300000,
+    });
+    assert.equal(creative.connection.queue.enabled, true);
+    assert.equal(creative.connection.queue.maxSize, 5);
+    assert.equal(creative.connection.queue.maxAgeMs, 300000);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig rejects short API tokens", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-config-"));
+  const filePath = path.join(directory, "config.json");
+  await writeFile(
+    filePath,
+    JSON.stringify({
+      cubyz: { host: "127.0.0.1", port: 47649, version: "0.0.0" },
+      discord: { enabled: false },
+      http: {
+        enabled: true,
+        api: { enabled: true, tokens: [{ name: "website", token: "short" }] },
+      },
+    }),
+  );
+
+  try {
+    await assert.rejects(
+      loadConfig(filePath),
+      /"http\.api\.tokens\[0\]\.token" must be at least 16 characters/,
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig accepts custom event types declared by parse rules", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-config-"));
+  const filePath = path.join(directory, "config.json");
+  await writeFile(
+    filePath,
+    JSON.stringify({
+      cubyz: { host: "127.0.0.1", port: 47649, version: "0.0.0" },
+      discord: { enabled: false, channels: { achievement: "achievements" } },
+      events: ["chat", "achievement"],
+      parseRules: [
+        {
+          type: "achievement",
+          pattern: "^(?<username>\\S+) earned (?<message>.+)$",
+        },
+      ],
+    }),
+  );
+
+  try {
+    const config = await loadConfig(filePath);
+    assert.deepEqual(config.events, ["chat", "achievement"]);
+    assert.deepEqual(config.parseRules, [
+      {
+        type: "achievement",
+        pattern: "^(?<username>\\S+) earned (?<message>.+)$",
+        flags: "",
+      },
+    ]);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig rejects parse rules with invalid patterns", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-config-"));
+  const filePath = path.join(directory, "config.json");
+  const write = (parseRules: unknown[]) =>
+    writeFile(
+      filePath,
+      JSON.stringify({
+        cubyz: { host: "127.0.0.1", port: 47649, version: "0.0.0" },
+        discord: { enabled: false },
+        parseRules,
+      }),
+    );
+
+  try {
+    await write([{ type: "broadcast", pattern: "^(?<message>.+" }]);
+    await assert.rejects(
+      loadConfig(filePath),
+      /"parseRules\[0\]\.pattern" is not a valid regular expression/,
+    );
+
+    await write([{ type: "broadcast", pattern: "^\\[Server\\] .+$" }]);
+    await assert.rejects(
+      loadConfig(filePath),
+      /must capture a "username" or "message" named group/,
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig keeps system events opt-in", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-config-"));
+  const filePath = path.join(directory, "config.json");
+  const write = (overrides: Record<string, unknown>) =>
+    writeFile(
+      filePath,
+      JSON.stringify({
+        cubyz: { host: "127.0.0.1", port: 47649, version: "0.0.0" },
+        discord: { enabled: false },
+        ...overrides,
+      }),
+    );
+
+  try {
+    await write({});
+    assert.ok(!(await loadConfig(filePath)).events.includes("system"));
+
+    await write({
+      events: ["chat", "system"],
+      systemIgnorePatterns: ["^Saved the world"],
+    });
+    const config = await loadConfig(filePath);
+    assert.deepEqual(config.events, ["chat", "system"]);
+    assert.deepEqual(config.systemIgnorePatterns, ["^Saved the world"]);
+
+    await write({ events: ["system"], systemIgnorePatterns: ["(unclosed"] });
+    await assert.rejects(
+      loadConfig(filePath),
+      /"systemIgnorePatterns\[0\]" is not a valid regular expression/,
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig validates template placeholders", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-config-"));
+  const filePath = path.join(directory, "config.json");
+  const write = (overrides: Record<string, unknown>) =>
+    writeFile(
+      filePath,
+      JSON.stringify({
+        cubyz: { host: "127.0.0.1", port: 47649, version: "0.0.0" },
+        discord: { enabled: false },
+        ...overrides,
+      }),
+    );
+
+  try {
+    await write({
+      parseRules: [
+        {
+          type: "achievement",
+          pattern: "^(?<username>\\S+) earned (?<title>.+)$",
+        },
+      ],
+      templates: {
+        events: { achievement: "🏆 {username} earned {title}" },
+        presence: "{playerCount} mining",
+      },
+    });
+    const config = await loadConfig(filePath);
+    assert.equal(
+      config.templates.events.achievement,
+      "🏆 {username} earned {title}",
+    );
+    assert.equal(
+      config.templates.events.join,
+      "👋 **{username} joined the game**",
+    );
+    assert.equal(config.templates.presence, "{playerCount} mining");
+    assert.equal(
+      config.templates.status.botJoined,
+      "**🤖 Bot has joined chat**",
+    );
+
+    await write({ templates: { relay: { reaction: "{username} {emote}" } } });
+    await assert.rejects(
+      loadConfig(filePath),
+      /"templates\.relay\.reaction" uses unknown placeholders: \{emote\}/,
+    );
+
+    await write({ templates: { events: { weather: "{message}" } } });
+    await assert.rejects(
+      loadConfig(filePath),
+      /"templates\.events\.weather" is not a supported event type/,
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig normalizes censor rules", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-config-"));
+  const filePath = path.join(directory, "config.json");
+  const write = (overrides: Record<string, unknown>) =>
+    writeFile(
+      filePath,
+      JSON.stringify({
+        cubyz: { host: "127.0.0.1", port: 47649, version: "0.0.0" },
+        discord: { enabled: false },
+        ...overrides,
+      }),
+    );
+
+  try {
+    await write({
+      censorlist: [" secret ", "", { pattern: "spam\\d+", mode: "regex" }],
+      censorReplacement: "***",
+    });
+    const config = await loadConfig(filePath);
+    assert.deepEqual(config.censorlist, [
+      { pattern: "secret", mode: "word" },
+      { pattern: "spam\\d+", mode: "regex" },
+    ]);
+    assert.equal(config.censorReplacement, "***");
+
+    await write({ censorlist: [{ pattern: "x", mode: "fuzzy" }] });
+    await assert.rejects(
+      loadConfig(filePath),
+      /"censorlist\[0\]\.mode" must be one of: word, substring, regex/,
+    );
+
+    await write({ censorlist: [{ pattern: "(unclosed", mode: "regex" }] });
+    await assert.rejects(
+      loadConfig(filePath),
+      /"censorlist\[0\]\.pattern" is not a valid regular expression/,
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig validates mention aliases", async () => {
+  const { directory, filePath } = await createConfigFile({
+    discord: { mentionAliases: { Miner: " 123456789012345678 " } },
+  });
+
+  try {
+    const config = await loadConfig(filePath);
+    assert.deepEqual(config.discord.mentionAliases, {
+      Miner: "123456789012345678",
+    });
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+
+  const invalid = await createConfigFile({
+    discord: { mentionAliases: { Miner: "@miner" } },
+  });
+  try {
+    await assert.rejects(
+      loadConfig(invalid.filePath),
+      /"discord\.mentionAliases\.Miner" must be a Discord user ID/,
+    );
+  } finally {
+    await rm(invalid.directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig limits account link code lifetimes", async () => {
+  const { directory, filePath } = await createConfigFile({
+    discord: { linking: { enabled: true } },
+  });
+  const invalid = await createConfigFile({
+    discord: { linking: { enabled: true, codeTtlMs: 60 * 60 * 1000 } },
+  });
+
+  try {
+    const config = await loadConfig(filePath);
+    assert.deepEqual(config.discord.linking, {
+      enabled: true,
+      codeTtlMs: 600000,
+    });
+    await assert.rejects(
+      loadConfig(invalid.filePath),
+      /"discord\.linking\.codeTtlMs" must be between 60000 and 900000/,
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+    await rm(invalid.directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig requires roles for admin commands", async () => {
+  const { directory, filePath } = await createConfigFile({
+    discord: {
+      admin: {
+        enabled: true,
+        roleIds: ["100000000000000001"],
+        commandRoleIds: { cmd: ["100000000000000002"] },
+      },
+    },
+  });
+  const withoutRoles = await createConfigFile({
+    discord: { admin: { enabled: true } },
+  });
+  const unknownCommand = await createConfigFile({
+    discord: {
+      admin: { commandRoleIds: { restart: ["100000000000000001"] } },
+    },
+  });
+
+  try {
+    const config = await loadConfig(filePath);
+    assert.equal(config.discord.admin.responseWindowMs, 2000);
+    assert.deepEqual(config.discord.admin.commandRoleIds, {
+      cmd: ["100000000000000002"],
+    });
+    await assert.rejects(
+      loadConfig(withoutRoles.filePath),
+      /"discord\.admin\.roleIds" must list at least one role ID/,
+    );
+    await assert.rejects(
+      loadConfig(unknownCommand.filePath),
+      /"discord\.admin\.commandRoleIds\.restart" is not an admin command/,
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+    await rm(withoutRoles.directory, { recursive: true, force: true });
+    await rm(unknownCommand.directory, { recursive: true, force: true });
+  }
+});
+
+test("loadConfig validates in-game commands", async () => {
+  const { directory, filePath } = await createConfigFile({
+    gameCommands: { enabled: true, commands: ["Help", "rules"], rules: [" "] },
+  });
+  const unknownCommand = await createConfigFile({
+    gameCommands: { commands: ["help", "tpa"] },
+  });
+  const badPrefix = await createConfigFile({
+    gameCommands: { prefix: "!!!!" },
+  });
+
+  try {
+    const config = await loadConfig(filePath);
+    assert.deepEqual(config.gameCommands, {
+      enabled: true,
+      prefix: "!",
+      commands: ["help", "rules"],
+      cooldownMs: 10000,
+      rules: [],
+    });
+    await assert.rejects(
+      loadConfig(unknownCommand.filePath),
+      /"gameCommands\.commands" contains unknown commands: tpa/,
+    );
+    await assert.rejects(
+      loadConfig(badPrefix.filePath),
+      /"gameCommands\.prefix" must be 1 to 3 characters/,
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+    await rm(unknownCommand.directory, { recursive: true, force: true });
+    await rm(badPrefix.directory, { recursive: true, force: true });
+  }
+});
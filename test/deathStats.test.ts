@@ -0,0 +1,66 @@
+import { strict as assert } from "node:assert";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { DeathStatsStore, UNKNOWN_DEATH_CAUSE } from "../src/deathStats.js";
+
+const noopLog = () => {};
+
+test("DeathStatsStore tallies deaths per player and cause", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-deaths-"));
+  const filePath = path.join(directory, "deaths.json");
+  const store = new DeathStatsStore(filePath, noopLog);
+
+  try {
+    await store.load();
+    store.recordDeath("Alice", "of fall damage");
+    store.recordDeath("alice", "Of Fall Damage");
+    store.recordDeath("Alice");
+    store.recordDeath("Bob", "of fall damage");
+
+    const alice = store.getPlayer("ALICE");
+    assert.ok(alice);
+    assert.equal(alice.total, 3);
+    assert.deepEqual(alice.causes, [
+      { cause: "of fall damage", count: 2 },
+      { cause: UNKNOWN_DEATH_CAUSE, count: 1 },
+    ]);
+    assert.equal(store.getTotals().total, 4);
+    assert.deepEqual(store.getTopDeaths(1), [{ name: "Alice", total: 3 }]);
+
+    await store.close();
+    const reloaded = new DeathStatsStore(filePath, noopLog);
+    await reloaded.load();
+    assert.equal(reloaded.getPlayer("bob")?.total, 1);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("DeathStatsStore resets the weekly tally without touching totals", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-deaths-"));
+  const store = new DeathStatsStore(
+    path.join(directory, "deaths.json"),
+    noopLog,
+  );
+
+  try {
+    await store.load();
+    store.recordDeath("Alice");
+    store.recordDeath("Bob");
+    store.recordDeath("Bob");
+    assert.deepEqual(store.getWeeklyTop(3), [
+      { name: "Bob", total: 2 },
+      { name: "Alice", total: 1 },
+    ]);
+
+    store.startNewWeek(1_000);
+    assert.deepEqual(store.getWeeklyTop(3), []);
+    assert.equal(store.weekStartedAt.getTime(), 1_000);
+    assert.equal(store.getPlayer("Bob")?.total, 2);
+  } finally {
+    await store.close();
+    await rm(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,243 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { ApplicationCommandOptionType, Collection } from "discord.js";
+import {
+  CommandRegistry,
+  type DiscordCommand,
+  formatUsage,
+  parseTextInvocation,
+  syncRegisteredCommands,
+  toApplicationCommand,
+} from "../src/discordCommands.js";
+
+const execute = async () => "ok";
+
+const kick: DiscordCommand = {
+  name: "kick",
+  description: "Kick a player.",
+  options: [
+    { type: "string", name: "player", description: "Player", required: true },
+    { type: "string", name: "reason", description: "Reason" },
+  ],
+  execute,
+};
+
+const deaths: DiscordCommand = {
+  name: "deaths",
+  description: "Show death statistics.",
+  subcommands: [
+    {
+      name: "player",
+      description: "Deaths of one player.",
+      options: [{ type: "string", name: "player", description: "Player" }],
+    },
+    { name: "top", description: "Most deaths." },
+  ],
+  execute,
+};
+
+test("parseTextInvocation maps words to options in order", () => {
+  assert.deepEqual(parseTextInvocation(kick, ["Alice", "too", "loud"]), {
+    subcommand: null,
+    values: { player: "Alice", reason: "too loud" },
+  });
+  assert.deepEqual(parseTextInvocation(kick, ["Alice"]), {
+    subcommand: null,
+    values: { player: "Alice" },
+  });
+  assert.equal(parseTextInvocation(kick, []), null);
+});
+
+test("parseTextInvocation resolves subcommands, choices and user mentions", () => {
+  assert.deepEqual(parseTextInvocation(deaths, ["TOP"]), {
+    subcommand: "top",
+    values: {},
+  });
+  assert.equal(parseTextInvocation(deaths, ["Alice"]), null);
+  assert.deepEqual(parseTextInvocation(deaths, ["player", "Alice"]), {
+    subcommand: "player",
+    values: { player: "Alice" },
+  });
+  assert.equal(parseTextInvocation(deaths, []), null);
+
+  const top: DiscordCommand = {
+    name: "top",
+    description: "Leaderboards.",
+    options: [
+      {
+        type: "string",
+        name: "category",
+        description: "Leaderboard",
+        required: true,
+        choices: ["playtime", "deaths"],
+      },
+    ],
+    execute,
+  };
+  assert.equal(parseTextInvocation(top, ["kills"]), null);
+
+  const whois: DiscordCommand = {
+    name: "whois",
+    description: "Who is it.",
+    options: [
+      { type: "user", name: "user", description: "User" },
+      { type: "string", name: "player", description: "Player" },
+    ],
+    execute,
+  };
+  assert.deepEqual(parseTextInvocation(whois, ["<@!123456789012345678>"]), {
+    subcommand: null,
+    values: { user: "123456789012345678" },
+  });
+  assert.deepEqual(parseTextInvocation(whois, ["Alice"]), {
+    subcommand: null,
+    values: { player: "Alice" },
+  });
+});
+
+test("formatUsage marks required and optional options", () => {
+  assert.equal(formatUsage(kick), "/kick <player> [reason]");
+  assert.equal(formatUsage(deaths), "/deaths player [player] | /deaths top");
+});
+
+test("toApplicationCommand builds slash command data", () => {
+  const data = toApplicationCommand({
+    ...kick,
+    options: [
+      {
+        type: "string",
+        name: "player",
+        description: "Player",
+        required: true,
+        autocomplete: () => [],
+      },
+    ],
+  });
+  assert.deepEqual(data.options, [
+    {
+      type: ApplicationCommandOptionType.String,
+      name: "player",
+      description: "Player",
+      required: true,
+      autocomplete: true,
+    },
+  ]);
+
+  const [player, top] = toApplicationCommand(deaths).options ?? [];
+  assert.equal(player.type, ApplicationCommandOptionType.Subcommand);
+  assert.equal(top.name, "top");
+  assert.equal(
+    toApplicationCommand({ name: "list", description: "List.", execute })
+      .options,
+    undefined,
+  );
+});
+
+test("syncRegisteredCommands syncs commands and removes stale ones", async () => {
+  const calls: string[] = [];
+  const existing = new Collection(
+    ["kick", "old"].map((name) => [
+      `id-${name}`,
+      { id: `id-${name}`, name, equals: () => false },
+    ]),
+  );
+  const guild = {
+    id: "guild-sync",
+    commands: {
+      fetch: async () => existing,
+      create: async (data: { name: string }) =>
+        calls.push(`create ${data.name}`),
+      edit: async (id: string) => calls.push(`edit ${id}`),
+      delete: async (id: string) => calls.push(`delete ${id}`),
+    },
+  };
+
+  const registry = new CommandRegistry(() => {});
+  registry.setCommands([kick, deaths]);
+  registry.register(Promise.resolve(guild as never));
+  await syncRegisteredCommands(() => {});
+
+  assert.deepEqual(calls, ["edit id-kick", "create deaths", "delete id-old"]);
+  assert.ok(registry.has("deaths"));
+  assert.ok(!registry.has("old"));
+});
+
+test("syncRegisteredCommands syncs a shared guild once with every relay's commands", async () => {
+  const calls: string[] = [];
+  const guild = {
+    id: "guild-shared",
+    commands: {
+      fetch: async () => {
+        calls.push("fetch");
+        return new Collection([
+          ["id-kick", { id: "id-kick", name: "kick", equals: () => true }],
+        ]);
+      },
+      create: async (data: { name: string }) =>
+        calls.push(`create ${data.name}`),
+      edit: async (id: string) => calls.push(`edit ${id}`),
+      delete: async (id: string) => calls.push(`delete ${id}`),
+    },
+  };
+
+  // The relay that registers kick finishes resolving its guild last.
+  let resolveFirst: (value: never) => void = () => {};
+  const first = new CommandRegistry(() => {});
+  first.setCommands([kick]);
+  first.register(
+    new Promise((resolve) => {
+      resolveFirst = resolve;
+    }),
+  );
+
+  const second = new CommandRegistry(() => {});
+  second.setCommands([deaths]);
+  second.register(Promise.resolve(guild as never));
+
+  const sync = syncRegisteredCommands(() => {});
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.deepEqual(calls, []);
+
+  resolveFirst(guild as never);
+  await sync;
+  assert.deepEqual(calls, ["fetch", "create deaths"]);
+});
+
+test("CommandRegistry answers text invocations and checks permissions", async () => {
+  const replies: string[] = [];
+  const denied: string[] = [];
+  const message = (content: string, roles: string[] = []) =>
+    ({
+      content,
+      channelId: "channel",
+      author: { id: "user-1", username: "alice" },
+      member: { roles: { cache: new Map(roles.map((role) => [role, {}])) } },
+      reply: async ({ content: reply }: { content: string }) =>
+        replies.push(reply),
+    }) as never;
+
+  const registry = new CommandRegistry(() => {});
+  registry.setCommands([
+    {
+      ...kick,
+      isAllowed: (context) => context.memberRoleIds.includes("mod"),
+      onDenied: async (context) => {
+        denied.push(context.user.username);
+      },
+      execute: async (context) =>
+        `kicked ${context.getString("player")} (${context.source})`,
+    },
+  ]);
+
+  assert.equal(await registry.handleText(message("/hello")), false);
+  assert.ok(await registry.handleText(message("/kick")));
+  assert.ok(await registry.handleText(message("/kick Bob")));
+  assert.ok(await registry.handleText(message("/KICK Bob", ["mod"])));
+
+  assert.deepEqual(replies, [
+    "Usage: /kick <player> [reason]",
+    "You are not allowed to use /kick",
+    "kicked Bob (text)",
+  ]);
+  assert.deepEqual(denied, ["alice"]);
+});
@@ -0,0 +1,87 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { buildEventEmbed, buildStatusEmbed } from "../src/discordEmbeds.js";
+import { DEFAULT_TEMPLATES } from "../src/templates.js";
+import type { Config } from "../src/types.js";
+
+const config = {
+  serverName: "Survival",
+  censorlist: [],
+  templates: DEFAULT_TEMPLATES,
+} as unknown as Config;
+
+test("buildEventEmbed shows the player count after a join", () => {
+  const embed = buildEventEmbed(
+    {
+      type: "join",
+      username: "Alice",
+      rawUsername: "Alice",
+      timestamp: new Date(0),
+    },
+    { config, playerCount: 3 },
+  );
+
+  assert.deepEqual(embed, {
+    color: 0x57f287,
+    title: "👋 Player joined",
+    description: "👋 **Alice joined the game**",
+    fields: [{ name: "Players online", value: "3", inline: true }],
+    footer: { text: "Survival" },
+    timestamp: "1970-01-01T00:00:00.000Z",
+  });
+});
+
+test("buildEventEmbed lists death causes and custom event metadata", () => {
+  const death = buildEventEmbed(
+    {
+      type: "death",
+      username: "Bob",
+      rawUsername: "Bob",
+      message: "fell into lava",
+      metadata: { cause: "lava" },
+      timestamp: new Date(0),
+    },
+    { config },
+  );
+  assert.equal(death.description, "💀 **Bob fell into lava**");
+  assert.deepEqual(death.fields, [
+    { name: "Cause", value: "lava", inline: true },
+  ]);
+
+  const achievement = buildEventEmbed(
+    {
+      type: "achievement",
+      username: "Carol",
+      rawUsername: "Carol",
+      metadata: { title: "Diamonds!" },
+      timestamp: new Date(0),
+    },
+    { config },
+  );
+  assert.equal(achievement.title, "✨ Achievement");
+  assert.deepEqual(achievement.fields, [
+    { name: "Title", value: "Diamonds!", inline: true },
+  ]);
+});
+
+test("buildStatusEmbed shows the disconnect reason and attempts", () => {
+  const embed = buildStatusEmbed(
+    "reconnectFailed",
+    "❌ **Failed to reconnect after 5 attempts**",
+    { reason: "retries-exhausted", attempts: 5 },
+    "Survival",
+  );
+
+  assert.equal(embed.title, "❌ Reconnect failed");
+  assert.deepEqual(embed.fields, [
+    { name: "Reason", value: "Retries exhausted", inline: true },
+    { name: "Attempts", value: "5", inline: true },
+  ]);
+  assert.deepEqual(embed.footer, { text: "Survival" });
+
+  const connected = buildStatusEmbed("connected", "🟢 **Bot connected**", {
+    reason: "connected",
+  });
+  assert.equal(connected.fields, undefined);
+  assert.equal(connected.footer, undefined);
+});
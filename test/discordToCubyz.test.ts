@@ -0,0 +1,75 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import {
+  convertDiscordMarkdown,
+  discordToCubyz,
+  shortenUrl,
+} from "../src/discordToCubyz.js";
+
+test("convertDiscordMarkdown turns custom emoji into names", () => {
+  assert.equal(
+    convertDiscordMarkdown("gg <:pepe:1234> <a:party:5678>"),
+    "gg :pepe: :party:",
+  );
+});
+
+test("convertDiscordMarkdown translates italics and marks spoilers", () => {
+  assert.equal(
+    convertDiscordMarkdown("**bold** _italic_ __underline__ snake_case_name"),
+    "**bold** *italic* __underline__ snake_case_name",
+  );
+  assert.equal(
+    convertDiscordMarkdown("the end: ||he wins||"),
+    "the end: [spoiler: he wins]",
+  );
+});
+
+test("convertDiscordMarkdown strips code, quote and heading markers", () => {
+  assert.equal(
+    convertDiscordMarkdown("run `/home` or\n```js\nlet _x_ = 1;\n```"),
+    "run /home or\nlet _x_ = 1;",
+  );
+  assert.equal(
+    convertDiscordMarkdown("> quoted\n# Title\n-# small"),
+    "quoted\nTitle\nsmall",
+  );
+});
+
+test("shortenUrl keeps short links and trims long ones", () => {
+  assert.equal(shortenUrl("https://cubyz.io"), "https://cubyz.io");
+  assert.equal(
+    shortenUrl("https://www.youtube.com/watch?v=dQw4w9WgXcQ"),
+    "youtube.com/watch?v=dQw4w9WgXcQ",
+  );
+  assert.equal(
+    shortenUrl("https://example.com/a/very/long/path/that/keeps/going/on"),
+    "example.com/a/very/long/path/that/keeps…",
+  );
+  assert.equal(
+    convertDiscordMarkdown(
+      "see [the wiki](<https://github.com/PixelGuys/Cubyz/wiki/Getting-Started>)",
+    ),
+    "see the wiki (github.com/PixelGuys/Cubyz/wiki/Getting…)",
+  );
+});
+
+test("discordToCubyz summarizes attachments and stickers", () => {
+  assert.equal(
+    discordToCubyz({
+      content: "",
+      attachments: [
+        { name: "cat.png", contentType: "image/png" },
+        { name: "notes.txt", contentType: null },
+      ],
+      stickers: ["Wave"],
+    }),
+    "[image: cat.png] [file: notes.txt] [sticker: Wave]",
+  );
+  assert.equal(
+    discordToCubyz({
+      content: "look",
+      attachments: [{ name: "clip.mp4", contentType: "video/mp4" }],
+    }),
+    "look [video: clip.mp4]",
+  );
+});
@@ -0,0 +1,115 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { GameCommandHandler } from "../src/gameCommands.js";
+import type { ChatMessage, Config } from "../src/types.js";
+
+const createConfig = (gameCommands: Record<string, unknown> = {}) =>
+  ({
+    cubyz: { botName: "RelayBot" },
+    integration: {
+      cubyzlistSite: { discordServer: "https://discord.gg/cubyz" },
+    },
+    gameCommands: {
+      enabled: true,
+      prefix: "!",
+      commands: ["discord", "online", "playtime", "rules", "help"],
+      cooldownMs: 10000,
+      rules: ["Be nice", "No griefing"],
+      ...gameCommands,
+    },
+  }) as unknown as Config;
+
+const chat = (username: string, message: string) =>
+  ({
+    type: "chat",
+    username,
+    rawUsername: username,
+    message,
+  }) as ChatMessage;
+
+const createHandler = (
+  config: Config,
+  activeUsers = [{ integration: "Discord", users: ["alice", "bob"] }],
+) => {
+  const sent: string[] = [];
+  const handler = new GameCommandHandler(config, {
+    bot: {
+      sendChat: async (message: string) => {
+        sent.push(message);
+        return "sent";
+      },
+    },
+    sessions: {
+      getPlayer: (name: string) =>
+        name === "Steve"
+          ? { name: "Steve", totalPlaytimeMs: 90 * 60 * 1000 }
+          : null,
+    } as never,
+    getActiveUsers: () => activeUsers,
+    log: () => {},
+  });
+  return { handler, sent };
+};
+
+test("GameCommandHandler answers commands through the bot", async () => {
+  const { handler, sent } = createHandler(createConfig());
+
+  assert.ok(handler.handle(chat("Steve", "!discord")));
+  assert.ok(handler.handle(chat("Steve", "!ONLINE")));
+  assert.ok(handler.handle(chat("Alex", "!active")));
+  assert.ok(handler.handle(chat("Steve", "!playtime")));
+  assert.ok(handler.handle(chat("Alex", "!playtime Steve")));
+  assert.ok(handler.handle(chat("Steve", "!rules")));
+  assert.ok(handler.handle(chat("Steve", "!help")));
+  await new Promise((resolve) => setImmediate(resolve));
+
+  assert.deepEqual(sent, [
+    "Join us on Discord: https://discord.gg/cubyz",
+    "Recently active on Discord (2): alice, bob",
+    "Recently active on Discord (2): alice, bob",
+    "Steve has played 1h 30m",
+    "Steve has played 1h 30m",
+    "1. Be nice",
+    "2. No griefing",
+    "Commands: !discord, !online, !playtime [player], !rules, !help",
+  ]);
+});
+
+test("GameCommandHandler ignores other chat, disabled commands and the bot", () => {
+  const { handler, sent } = createHandler(createConfig({ commands: ["help"] }));
+
+  assert.ok(!handler.handle(chat("Steve", "hello !help")));
+  assert.ok(!handler.handle(chat("Steve", "!rules")));
+  assert.ok(!handler.handle(chat("RelayBot", "!help")));
+  assert.ok(
+    !handler.handle({ ...chat("Steve", "!help"), type: "join" } as ChatMessage),
+  );
+  assert.deepEqual(sent, []);
+});
+
+test("GameCommandHandler applies cooldowns per player and command", async () => {
+  const { handler, sent } = createHandler(createConfig());
+
+  assert.ok(handler.handle(chat("Steve", "!discord"), 0));
+  assert.ok(handler.handle(chat("Steve", "!discord"), 5000));
+  assert.ok(handler.handle(chat("Alex", "!discord"), 5000));
+  assert.ok(handler.handle(chat("Steve", "!help"), 5000));
+  assert.ok(handler.handle(chat("Steve", "!discord"), 10000));
+
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(sent.length, 4);
+});
+
+test("GameCommandHandler explains when nobody wrote on Discord", async () => {
+  const idle = createHandler(createConfig(), [
+    { integration: "Discord", users: [] },
+  ]);
+  idle.handler.handle(chat("Steve", "!online"));
+
+  const unbridged = createHandler(createConfig(), []);
+  unbridged.handler.handle(chat("Steve", "!active"));
+
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.deepEqual(idle.sent, ["Nobody has written on Discord recently"]);
+  assert.deepEqual(unbridged.sent, ["This server is not bridged to Discord"]);
+});
@@ -0,0 +1,79 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { type ServerHealth, startHttpServer } from "../src/httpServer.js";
+
+const noopLog = () => {};
+
+const startWith = (servers: ServerHealth[]) =>
+  startHttpServer(
+    {
+      enabled: true,
+      host: "127.0.0.1",
+      port: 0,
+      api: { enabled: false, tokens: [] },
+    },
+    {
+      getHealth: () => servers,
+      renderMetrics: () => "cubyz_relay_players 3\n",
+    },
+    noopLog,
+  );
+
+test("healthz reports ok when every relay is connected and healthy", async () => {
+  const server = await startWith([
+    {
+      server: "",
+      cubyz: "connected",
+      integrations: [{ name: "discord", healthy: true }],
+    },
+  ]);
+
+  try {
+    const response = await fetch(`http://127.0.0.1:${server.port}/healthz`);
+    assert.equal(response.status, 200);
+    const body = (await response.json()) as { status: string };
+    assert.equal(body.status, "ok");
+  } finally {
+    await server.close();
+  }
+});
+
+test("healthz answers 503 while a relay is disconnected", async () => {
+  const server = await startWith([
+    { server: "Survival", cubyz: "connected", integrations: [] },
+    {
+      server: "Creative",
+      cubyz: "connecting",
+      integrations: [{ name: "discord", healthy: true }],
+    },
+  ]);
+
+  try {
+    const response = await fetch(`http://127.0.0.1:${server.port}/healthz`);
+    assert.equal(response.status, 503);
+    const body = (await response.json()) as {
+      status: string;
+      servers: ServerHealth[];
+    };
+    assert.equal(body.status, "degraded");
+    assert.equal(body.servers[1].cubyz, "connecting");
+  } finally {
+    await server.close();
+  }
+});
+
+test("metrics are served in the Prometheus text format", async () => {
+  const server = await startWith([]);
+
+  try {
+    const response = await fetch(`http://127.0.0.1:${server.port}/metrics`);
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get("content-type") ?? "", /text\/plain/);
+    assert.equal(await response.text(), "cubyz_relay_players 3\n");
+
+    const missing = await fetch(`http://127.0.0.1:${server.port}/missing`);
+    assert.equal(missing.status, 404);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,194 @@
+import { strict as assert } from "node:assert";
+import { type AddressInfo, createServer, type Socket } from "node:net";
+import test from "node:test";
+import {
+  IrcIntegration,
+  markdownToIrc,
+  parseIrcLine,
+} from "../src/integrations/irc.js";
+import { metrics } from "../src/metrics.js";
+import type { Config } from "../src/types.js";
+
+/**
+ * Minimal IRC server stand-in: welcomes the client once it registers and
+ * confirms JOINs. Every line the client sends is recorded.
+ */
+const startIrcServer = async () => {
+  const lines: string[] = [];
+  const waiters: { match: (line: string) => boolean; resolve: () => void }[] =
+    [];
+  const sockets = new Set<Socket>();
+  let nick = "";
+
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.setEncoding("utf8");
+    let buffer = "";
+    socket.on("data", (data: string) => {
+      buffer += data;
+      const received = buffer.split("\r\n");
+      buffer = received.pop() ?? "";
+      for (const line of received) {
+        lines.push(line);
+        const [command, argument] = line.split(" ");
+        if (command === "NICK") {
+          nick = argument;
+        } else if (command === "USER") {
+          socket.write(`:irc.test 001 ${nick} :Welcome\r\n`);
+        } else if (command === "JOIN") {
+          socket.write(`:${nick}!u@h JOIN ${argument}\r\n`);
+        }
+        for (const waiter of [...waiters]) {
+          if (waiter.match(line)) {
+            waiters.splice(waiters.indexOf(waiter), 1);
+            waiter.resolve();
+          }
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    port,
+    lines,
+    waitFor: (match: (line: string) => boolean) =>
+      lines.some(match)
+        ? Promise.resolve()
+        : new Promise<void>((resolve) => waiters.push({ match, resolve })),
+    broadcast: (line: string) => {
+      for (const socket of sockets) {
+        socket.write(`${line}\r\n`);
+      }
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        server.close(() => resolve());
+      }),
+  };
+};
+
+const createIntegration = (port: number) =>
+  new IrcIntegration({
+    logLevel: "silent",
+    events: ["chat", "join"],
+    cubyz: { botName: "Relay" },
+    integration: {
+      irc: {
+        enabled: true,
+        host: "127.0.0.1",
+        port,
+        tls: false,
+        nick: "relay",
+        username: "relay",
+        realname: "Relay",
+        channel: "#cubyz",
+        nickservPassword: "hunter2",
+        reconnectDelayMs: 1000,
+      },
+    },
+  } as unknown as Config);
+
+test("parseIrcLine splits prefix, command and trailing parameter", () => {
+  assert.deepEqual(parseIrcLine(":alice!a@host PRIVMSG #cubyz :hello there"), {
+    prefix: "alice!a@host",
+    command: "PRIVMSG",
+    params: ["#cubyz", "hello there"],
+  });
+  assert.deepEqual(parseIrcLine("@time=x PING :irc.test"), {
+    prefix: undefined,
+    command: "PING",
+    params: ["irc.test"],
+  });
+  assert.equal(parseIrcLine(":prefix-only"), null);
+});
+
+test("markdownToIrc converts formatting to IRC control codes", () => {
+  assert.equal(
+    markdownToIrc("👋 **Alice joined the game**"),
+    "👋 \x02Alice joined the game\x02",
+  );
+  assert.equal(
+    markdownToIrc("*soft* __under__ ~~gone~~ `code` ||secret||"),
+    "\x1dsoft\x1d \x1funder\x1f \x1egone\x1e \x11code\x11 secret",
+  );
+  assert.equal(markdownToIrc("2 \\* 3"), "2 * 3");
+});
+
+test("IrcIntegration identifies, joins and bridges the channel", async (t) => {
+  const server = await startIrcServer();
+  const integration = createIntegration(server.port);
+  const sent: string[] = [];
+  integration.setBotConnection({
+    sendChat: async (message: string) => {
+      sent.push(message);
+      return "sent";
+    },
+  } as never);
+  t.after(async () => {
+    await integration.stop();
+    await server.close();
+  });
+
+  await integration.start();
+  await server.waitFor((line) => line === "JOIN #cubyz");
+  assert.ok(server.lines.includes("PRIVMSG NickServ :IDENTIFY hunter2"));
+  assert.ok(
+    server.lines.indexOf("PRIVMSG NickServ :IDENTIFY hunter2") <
+      server.lines.indexOf("JOIN #cubyz"),
+  );
+  // Give the JOIN confirmation time to arrive.
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assert.deepEqual(integration.getStatus(), { healthy: true });
+
+  await integration.relayChatMessage({
+    type: "join",
+    username: "Bob",
+    rawUsername: "Bob",
+    timestamp: new Date(0),
+  });
+  await server.waitFor(
+    (line) => line === "PRIVMSG #cubyz :👋 \x02Bob joined the game\x02",
+  );
+
+  // Relayed lines echoed back by the Cubyz bot are not sent again.
+  await integration.relayChatMessage({
+    type: "chat",
+    username: "Relay",
+    rawUsername: "Relay",
+    message: "alice: hello",
+    timestamp: new Date(0),
+  });
+  const relayed = (event: string) =>
+    metrics.relayedMessages.get({ server: "", event, direction: "from_cubyz" });
+  assert.equal(relayed("join"), 1);
+  assert.equal(relayed("chat"), 0);
+
+  server.broadcast(":alice!a@host PRIVMSG #cubyz :\x02hello\x02 world");
+  server.broadcast(":alice!a@host PRIVMSG #cubyz :\x01ACTION waves\x01");
+  server.broadcast(":alice!a@host PRIVMSG relay :private");
+  server.broadcast(":[m|a^]!m@host PRIVMSG #cubyz :hi");
+  server.broadcast(":^|!x@host PRIVMSG #cubyz :hey");
+  await integration.updatePlayers(["Bob", "Carol"]);
+  server.broadcast(":alice!a@host PRIVMSG #cubyz :!list");
+  await server.waitFor((line) => line.includes("Players online"));
+
+  assert.deepEqual(sent, [
+    "alice: hello world",
+    "alice: *waves*",
+    "ma: hi",
+    "irc: hey",
+  ]);
+  assert.deepEqual(
+    server.lines.filter((line) => line.startsWith("PRIVMSG #cubyz")),
+    [
+      "PRIVMSG #cubyz :👋 \x02Bob joined the game\x02",
+      "PRIVMSG #cubyz :Players online (2): Bob, Carol",
+    ],
+  );
+});
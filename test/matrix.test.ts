@@ -0,0 +1,230 @@
+import { strict as assert } from "node:assert";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import test from "node:test";
+import {
+  MatrixIntegration,
+  markdownToMatrixHtml,
+  stripReplyFallback,
+} from "../src/integrations/matrix.js";
+import { DEFAULT_TEMPLATES } from "../src/templates.js";
+import type { Config } from "../src/types.js";
+
+const ROOM_ID = "!room:test";
+const TOKEN = "syt_test_token";
+
+interface SentEvent {
+  msgtype: string;
+  body: string;
+  format: string;
+  formatted_body: string;
+}
+
+const message = (
+  sender: string,
+  body: string,
+  extra: Record<string, unknown> = {},
+) => ({
+  type: "m.room.message",
+  sender,
+  event_id: `$${Math.random()}`,
+  content: { msgtype: "m.text", body, ...extra },
+});
+
+/**
+ * Mock homeserver: answers whoami, join, sync and send. `push` queues events
+ * for the next incremental sync.
+ */
+const startHomeserver = async () => {
+  const sent: SentEvent[] = [];
+  const batches: unknown[][] = [];
+  const waiters: (() => void)[] = [];
+  let unauthorized = 0;
+
+  const server = createServer(async (request, response) => {
+    let body = "";
+    for await (const chunk of request) {
+      body += chunk;
+    }
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const reply = (payload: unknown) => {
+      response.setHeader("Content-Type", "application/json");
+      response.end(JSON.stringify(payload));
+    };
+
+    if (request.headers.authorization !== `Bearer ${TOKEN}`) {
+      unauthorized += 1;
+      response.statusCode = 401;
+      reply({ errcode: "M_UNKNOWN_TOKEN" });
+      return;
+    }
+
+    const path = decodeURIComponent(url.pathname).replace(
+      "/_matrix/client/v3",
+      "",
+    );
+    if (path === "/account/whoami") {
+      reply({ user_id: "@relay:test" });
+    } else if (path === "/join/#cubyz:test") {
+      reply({ room_id: ROOM_ID });
+    } else if (path === "/sync" && !url.searchParams.has("since")) {
+      reply({
+        next_batch: "s0",
+        rooms: {
+          join: {
+            [ROOM_ID]: {
+              state: {
+                events: [
+                  {
+                    type: "m.room.member",
+                    sender: "@alice:test",
+                    state_key: "@alice:test",
+                    content: { membership: "join", displayname: "Alice" },
+                  },
+                ],
+              },
+              timeline: { events: [message("@alice:test", "old backlog")] },
+            },
+          },
+        },
+      });
+    } else if (path === "/sync") {
+      const events = batches.shift();
+      if (!events) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      reply({
+        next_batch: `s${Date.now()}`,
+        rooms: events
+          ? { join: { [ROOM_ID]: { timeline: { events } } } }
+          : undefined,
+      });
+    } else if (
+      request.method === "PUT" &&
+      path.startsWith(`/rooms/${ROOM_ID}/send/m.room.message/`)
+    ) {
+      sent.push(JSON.parse(body));
+      reply({ event_id: `$sent${sent.length}` });
+      waiters.shift()?.();
+    } else {
+      response.statusCode = 404;
+      reply({ errcode: "M_UNRECOGNIZED" });
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    sent,
+    push: (...events: unknown[]) => batches.push(events),
+    nextSend: () => new Promise<void>((resolve) => waiters.push(resolve)),
+    unauthorized: () => unauthorized,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+};
+
+const waitUntil = async (condition: () => boolean) => {
+  while (!condition()) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+test("markdownToMatrixHtml escapes HTML and converts formatting", () => {
+  assert.equal(
+    markdownToMatrixHtml("**Bob**: <b>hi</b> *there* ||spoiler||"),
+    "<strong>Bob</strong>: &lt;b&gt;hi&lt;/b&gt; <em>there</em> <span data-mx-spoiler>spoiler</span>",
+  );
+});
+
+test("stripReplyFallback removes the quoted reply fallback", () => {
+  assert.equal(
+    stripReplyFallback("> <@relay:test> **Bob**: hi\n> more\n\nsure thing"),
+    "\nsure thing",
+  );
+  assert.equal(stripReplyFallback("no quote"), "no quote");
+});
+
+test("MatrixIntegration bridges a room through the client-server API", async (t) => {
+  const homeserver = await startHomeserver();
+  const integration = new MatrixIntegration({
+    logLevel: "silent",
+    events: ["chat", "join"],
+    cubyz: { botName: "Relay" },
+    templates: DEFAULT_TEMPLATES,
+    integration: {
+      matrix: {
+        enabled: true,
+        homeserverUrl: homeserver.url,
+        accessToken: TOKEN,
+        roomId: "#cubyz:test",
+        enableReplies: true,
+        syncTimeoutMs: 0,
+      },
+    },
+  } as unknown as Config);
+  const relayed: string[] = [];
+  integration.setBotConnection({
+    sendChat: async (text: string) => {
+      relayed.push(text);
+      return "sent";
+    },
+  } as never);
+  t.after(async () => {
+    await integration.stop();
+    await homeserver.close();
+  });
+
+  await integration.start();
+  await waitUntil(() => integration.getStatus().healthy);
+
+  await integration.relayChatMessage({
+    type: "chat",
+    username: "Bob",
+    rawUsername: "Bob",
+    message: "anyone around?",
+    timestamp: new Date(0),
+  });
+  assert.deepEqual(homeserver.sent[0], {
+    msgtype: "m.notice",
+    body: "**Bob**: anyone around?",
+    format: "org.matrix.custom.html",
+    formatted_body: "<strong>Bob</strong>: anyone around?",
+  });
+
+  await integration.updatePlayers(["Bob", "Carol"]);
+  const listed = homeserver.nextSend();
+  homeserver.push(
+    message("@alice:test", "hello"),
+    message("@alice:test", "> <@relay:test> **Bob**: anyone around?\n\nme!", {
+      "m.relates_to": { "m.in_reply_to": { event_id: "$sent1" } },
+    }),
+    message("@dave:test", "waves", { msgtype: "m.emote" }),
+    {
+      type: "m.room.member",
+      sender: "@mallory:test",
+      state_key: "@mallory:test",
+      content: { membership: "join", displayname: "/kick Alice" },
+    },
+    message("@mallory:test", "hi"),
+    message("@/op:test", "hey"),
+    message("@bot:test", "ignored", { msgtype: "m.notice" }),
+    message("@relay:test", "own message"),
+    message("@alice:test", "!list"),
+  );
+  await listed;
+
+  assert.deepEqual(relayed, [
+    "Alice: hello",
+    'Alice: replying to Bob: *"anyone around?"* - me!',
+    "dave: *waves*",
+    "kick Alice: hi",
+    "op: hey",
+  ]);
+  assert.equal(homeserver.sent[1].body, "**Players online (2):** Bob, Carol");
+  assert.equal(homeserver.unauthorized(), 0);
+});
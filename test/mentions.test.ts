@@ -0,0 +1,52 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { extractMentionNames, resolveMentions } from "../src/mentions.js";
+
+const candidates = [
+  { id: "111111111111111111", names: ["Alice", "alice_w", null] },
+  { id: "222222222222222222", names: ["Sam", "sam.one"] },
+  { id: "333333333333333333", names: ["sam", "sam.two"] },
+];
+
+test("extractMentionNames finds distinct @names without trailing punctuation", () => {
+  assert.deepEqual(
+    extractMentionNames("@Alice, @alice and @sam.one! but not a@b.c"),
+    ["Alice", "sam.one"],
+  );
+});
+
+test("resolveMentions links unique names and aliases", () => {
+  assert.equal(
+    resolveMentions("hi @alice and @sam.one, ask @Miner", candidates, {
+      allowedMentions: ["users"],
+      aliases: { miner: "444444444444444444" },
+    }),
+    "hi <@111111111111111111> and <@222222222222222222>, ask <@444444444444444444>",
+  );
+});
+
+test("resolveMentions leaves ambiguous and unknown names as text", () => {
+  assert.equal(
+    resolveMentions("@Sam @nobody", candidates, { allowedMentions: ["users"] }),
+    "@Sam @nobody",
+  );
+});
+
+test("resolveMentions respects allowed mentions", () => {
+  assert.equal(
+    resolveMentions(
+      "@Alice @everyone @here <@111111111111111111>",
+      candidates,
+      {
+        allowedMentions: [],
+      },
+    ),
+    "@Alice @\u200beveryone @\u200bhere <@\u200b111111111111111111>",
+  );
+  assert.equal(
+    resolveMentions("@everyone look", candidates, {
+      allowedMentions: ["users", "everyone"],
+    }),
+    "@everyone look",
+  );
+});
@@ -1,6 +1,11 @@
 import { strict as assert } from "node:assert";
 import test from "node:test";
-import { cleanUsername, formatMessage } from "../src/messageFormatter.js";
+import {
+  cleanUsername,
+  formatMessage,
+  formatStatusMessage,
+} from "../src/messageFormatter.js";
+import { DEFAULT_TEMPLATES } from "../src/templates.js";
 import type { ChatMessage, Config } from "../src/types.js";
 
 const baseConfig: Config = {
@@ -138,9 +143,125 @@ test("censors configured chat words", () => {
 
   const config: Config = {
     ...baseConfig,
-    censorlist: ["secret"],
+    censorlist: [{ pattern: "secret", mode: "word" }],
   };
 
   const result = formatMessage(message, config);
   assert.equal(result, "**Player123**: This ||beep|| is safe");
+  assert.equal(
+    formatMessage({ ...message, message: "Secrets, s3cr3t!" }, config),
+    "**Player123**: Secrets, ||beep||!",
+  );
+});
+
+test("tags messages with their source server", () => {
+  const message: ChatMessage = {
+    type: "join",
+    rawUsername: "Player123",
+    username: "Player123",
+    timestamp,
+    server: "Survival",
+  };
+
+  const result = formatMessage(message);
+  assert.equal(result, "[Survival] 👋 **Player123 joined the game**");
+});
+
+test("formats custom event types with and without a username", () => {
+  const achievement: ChatMessage = {
+    type: "achievement",
+    rawUsername: "Player123",
+    username: "Player123",
+    message: "Stone Age",
+    timestamp,
+  };
+  const broadcast: ChatMessage = {
+    type: "broadcast",
+    rawUsername: "",
+    username: "",
+    message: "Restarting in 5 minutes",
+    timestamp,
+  };
+
+  assert.equal(formatMessage(achievement), "**Player123**: Stone Age");
+  assert.equal(formatMessage(broadcast), "Restarting in 5 minutes");
+});
+
+test("formats system lines without a username", () => {
+  const message: ChatMessage = {
+    type: "system",
+    rawUsername: "",
+    username: "",
+    message: "#ff0000Server restarting soon",
+    timestamp,
+    server: "Survival",
+  };
+
+  assert.equal(
+    formatMessage(message, baseConfig),
+    "[Survival] 📢 Server restarting soon",
+  );
+});
+
+test("formats events with configured templates", () => {
+  const config = {
+    ...baseConfig,
+    templates: {
+      ...DEFAULT_TEMPLATES,
+      events: {
+        ...DEFAULT_TEMPLATES.events,
+        join: "➡️ {username} is here",
+        achievement: "🏆 **{username}** earned *{achievement}*",
+      },
+    },
+  } as Config;
+
+  assert.equal(
+    formatMessage(
+      { type: "join", rawUsername: "Bob", username: "Bob", timestamp },
+      config,
+    ),
+    "➡️ Bob is here",
+  );
+  assert.equal(
+    formatMessage(
+      {
+        type: "achievement",
+        rawUsername: "Bob",
+        username: "Bob",
+        message: "Stone Age",
+        metadata: { achievement: "Stone Age" },
+        timestamp,
+      },
+      config,
+    ),
+    "🏆 **Bob** earned *Stone Age*",
+  );
+});
+
+test("formatStatusMessage uses status templates", () => {
+  const config = {
+    ...baseConfig,
+    templates: {
+      ...DEFAULT_TEMPLATES,
+      status: {
+        ...DEFAULT_TEMPLATES.status,
+        reconnectFailed: "Gave up after {attempts} tries",
+      },
+    },
+  } as Config;
+
+  assert.equal(
+    formatStatusMessage(
+      "offline",
+      { reason: "retries-exhausted", attempts: 5 },
+      config,
+    ),
+    "Gave up after 5 tries",
+  );
+  assert.equal(
+    formatStatusMessage("online", { reason: "connected" }),
+    "🟢 **Bot connected to server**",
+  );
+  assert.equal(formatStatusMessage("offline", { reason: "stopped" }), null);
 });
@@ -0,0 +1,30 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { MetricsRegistry } from "../src/metrics.js";
+
+test("MetricsRegistry renders labelled counters and gauges", () => {
+  const registry = new MetricsRegistry();
+  const messages = registry.counter("messages_total", "Messages relayed.");
+  const players = registry.gauge("players", "Players online.");
+
+  messages.inc({ server: "Survival", event: "chat" });
+  messages.inc({ server: "Survival", event: "chat" });
+  messages.inc({ server: 'Say "hi"', event: "join" });
+  players.set({ server: "Survival" }, 4);
+  players.set({ server: "Survival" }, 2);
+
+  assert.equal(messages.get({ server: "Survival", event: "chat" }), 2);
+  assert.equal(
+    registry.render(),
+    [
+      "# HELP messages_total Messages relayed.",
+      "# TYPE messages_total counter",
+      'messages_total{server="Survival",event="chat"} 2',
+      'messages_total{server="Say \\"hi\\"",event="join"} 1',
+      "# HELP players Players online.",
+      "# TYPE players gauge",
+      'players{server="Survival"} 2',
+      "",
+    ].join("\n"),
+  );
+});
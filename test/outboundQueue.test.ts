@@ -0,0 +1,65 @@
+import { strict as assert } from "node:assert";
+import test from "node:test";
+import { OutboundQueue } from "../src/outboundQueue.js";
+
+const config = { enabled: true, maxSize: 2, maxAgeMs: 1_000 };
+
+test("OutboundQueue delivers queued messages in order", () => {
+  const queue = new OutboundQueue(config);
+  const delivered: string[] = [];
+  const sent: string[] = [];
+
+  assert.equal(
+    queue.enqueue("first", { onDelivered: () => delivered.push("first") }, 0),
+    true,
+  );
+  assert.equal(queue.enqueue("second", {}, 10), true);
+  assert.equal(queue.enqueue("third", {}, 20), false);
+
+  assert.equal(
+    queue.drain((text) => sent.push(text), 100),
+    2,
+  );
+  assert.deepEqual(sent, ["first", "second"]);
+  assert.deepEqual(delivered, ["first"]);
+  assert.equal(queue.size, 0);
+});
+
+test("OutboundQueue expires messages older than maxAgeMs", () => {
+  const queue = new OutboundQueue(config);
+  const expired: string[] = [];
+
+  queue.enqueue("stale", { onExpired: () => expired.push("stale") }, 0);
+  queue.enqueue("fresh", { onExpired: () => expired.push("fresh") }, 500);
+
+  const sent: string[] = [];
+  queue.drain((text) => sent.push(text), 1_200);
+  assert.deepEqual(expired, ["stale"]);
+  assert.deepEqual(sent, ["fresh"]);
+});
+
+test("OutboundQueue keeps the failing message when sending throws", () => {
+  const queue = new OutboundQueue(config);
+  queue.enqueue("first", {}, 0);
+  queue.enqueue("second", {}, 0);
+
+  assert.throws(
+    () =>
+      queue.drain(() => {
+        throw new Error("connection lost");
+      }, 0),
+    /connection lost/,
+  );
+  assert.equal(queue.size, 2);
+  queue.clear();
+});
+
+test("OutboundQueue drops everything when disabled", () => {
+  const queue = new OutboundQueue(config);
+  let expired = 0;
+  queue.enqueue("message", { onExpired: () => expired++ }, 0);
+
+  queue.configure({ ...config, enabled: false }, 0);
+  assert.equal(expired, 1);
+  assert.equal(queue.enqueue("another", {}, 0), false);
+});
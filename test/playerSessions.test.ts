@@ -0,0 +1,91 @@
+import { strict as assert } from "node:assert";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import { PlayerSessionStore } from "../src/playerSessions.js";
+
+const noopLog = () => {};
+
+const createStore = async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-sessions-"));
+  const filePath = path.join(directory, "sessions.json");
+  return { directory, filePath };
+};
+
+test("PlayerSessionStore accumulates playtime across sessions", async () => {
+  const { directory, filePath } = await createStore();
+  const store = new PlayerSessionStore(filePath, noopLog);
+
+  try {
+    await store.load();
+    store.recordJoin("Alice", 0);
+    store.recordLeave("alice", 60_000);
+    store.recordJoin("Alice", 120_000);
+
+    const stats = store.getPlayer("ALICE", 150_000);
+    assert.ok(stats);
+    assert.equal(stats.name, "Alice");
+    assert.equal(stats.totalPlaytimeMs, 90_000);
+    assert.equal(stats.sessionCount, 2);
+    assert.equal(stats.online, true);
+  } finally {
+    await store.close();
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("PlayerSessionStore reconciles sessions with the roster", async () => {
+  const { directory, filePath } = await createStore();
+  const store = new PlayerSessionStore(filePath, noopLog);
+
+  try {
+    await store.load();
+    store.syncRoster(["Alice", "Bob"], 0);
+    store.syncRoster(["Bob"], 30_000);
+    store.closeAll(90_000);
+
+    assert.equal(store.getPlayer("Alice")?.totalPlaytimeMs, 30_000);
+    assert.equal(store.getPlayer("Bob")?.totalPlaytimeMs, 90_000);
+    assert.deepEqual(
+      store.getTopPlaytime(1).map((stats) => stats.name),
+      ["Bob"],
+    );
+  } finally {
+    await store.close();
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("PlayerSessionStore closes sessions left open by a crash at last heartbeat", async () => {
+  const { directory, filePath } = await createStore();
+  await writeFile(
+    filePath,
+    JSON.stringify({
+      version: 1,
+      players: {
+        alice: {
+          name: "Alice",
+          totalPlaytimeMs: 1_000,
+          sessionCount: 1,
+          firstSeen: 0,
+          lastSeen: 61_000,
+          openSince: 1_000,
+        },
+      },
+    }),
+  );
+  const store = new PlayerSessionStore(filePath, noopLog);
+
+  try {
+    await store.load();
+    const stats = store.getPlayer("Alice");
+    assert.ok(stats);
+    assert.equal(stats.online, false);
+    assert.equal(stats.totalPlaytimeMs, 61_000);
+    assert.equal(stats.lastSeen.getTime(), 61_000);
+  } finally {
+    await store.close();
+    await rm(directory, { recursive: true, force: true });
+  }
+});
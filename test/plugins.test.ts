@@ -0,0 +1,91 @@
+import { strict as assert } from "node:assert";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import type { BotConnectionManager } from "../src/botConnection.js";
+import { loadIntegrationPlugins } from "../src/integrations/plugins.js";
+import type { Config, IntegrationPluginConfig } from "../src/types.js";
+
+const validPlugin = `
+export function createIntegration({ config }) {
+  return {
+    name: "Sink:" + config.label,
+    setBotConnection() {},
+    async start() {},
+    async stop() {},
+    async updatePlayers() {},
+    async updateStatus() {},
+    async updateGamemode() {},
+    async relayChatMessage() {},
+    async sendMessage() {},
+  };
+}
+`;
+
+const createConfig = (plugins: IntegrationPluginConfig[]): Config =>
+  ({
+    logLevel: "silent",
+    integration: { plugins },
+  }) as unknown as Config;
+
+const bot = {} as BotConnectionManager;
+
+test("loadIntegrationPlugins instantiates plugins with their config", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-plugin-"));
+  const pluginPath = path.join(directory, "sink.mjs");
+  await writeFile(pluginPath, validPlugin);
+
+  try {
+    const integrations = await loadIntegrationPlugins(
+      createConfig([
+        { module: pluginPath, enabled: true, config: { label: "a" } },
+        { module: pluginPath, enabled: false, config: { label: "b" } },
+      ]),
+      bot,
+    );
+
+    assert.deepEqual(
+      integrations.map((integration) => integration.name),
+      ["Sink:a"],
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("loadIntegrationPlugins skips invalid plugins", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-plugin-"));
+  const noFactoryPath = path.join(directory, "no-factory.mjs");
+  const badResultPath = path.join(directory, "bad-result.mjs");
+  const validPath = path.join(directory, "valid.mjs");
+  await writeFile(noFactoryPath, "export const value = 1;\n");
+  await writeFile(
+    badResultPath,
+    "export default () => ({ name: 'Broken' });\n",
+  );
+  await writeFile(validPath, validPlugin);
+
+  try {
+    const integrations = await loadIntegrationPlugins(
+      createConfig([
+        {
+          module: path.join(directory, "missing.mjs"),
+          enabled: true,
+          config: {},
+        },
+        { module: noFactoryPath, enabled: true, config: {} },
+        { module: badResultPath, enabled: true, config: {} },
+        { module: validPath, enabled: true, config: { label: "ok" } },
+      ]),
+      bot,
+    );
+
+    assert.deepEqual(
+      integrations.map((integration) => integration.name),
+      ["Sink:ok"],
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,177 @@
+import { strict as assert } from "node:assert";
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import test from "node:test";
+import {
+  SIGNATURE_HEADER,
+  signWebhookPayload,
+  WebhookIntegration,
+} from "../src/integrations/webhook.js";
+import type { Config, WebhookEventType } from "../src/types.js";
+
+interface ReceivedRequest {
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+const SECRET = "s3cret";
+
+/**
+ * Local endpoint answering with the given status codes in turn (200 once
+ * they run out).
+ */
+const startEndpoint = async (statusCodes: number[] = []) => {
+  const received: ReceivedRequest[] = [];
+  const waiters: (() => void)[] = [];
+  const server = createServer(async (request, response) => {
+    let body = "";
+    for await (const chunk of request) {
+      body += chunk;
+    }
+    received.push({ headers: request.headers, body });
+    response.statusCode = statusCodes.shift() ?? 200;
+    response.end();
+    waiters.shift()?.();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    nextRequest: () => new Promise<void>((resolve) => waiters.push(resolve)),
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+};
+
+const createIntegration = (
+  dataDirectory: string,
+  urls: string | string[],
+  events: WebhookEventType[] = ["join", "chat"],
+) =>
+  new WebhookIntegration({
+    logLevel: "silent",
+    dataDirectory,
+    serverName: "Survival",
+    integration: {
+      webhooks: {
+        enabled: true,
+        endpoints: [urls]
+          .flat()
+          .map((url) => ({ url, secret: SECRET, events })),
+        maxRetries: 3,
+        retryDelayMs: 0,
+        maxQueueSize: 10,
+      },
+    },
+  } as unknown as Config);
+
+const chatMessage = (type: "join" | "death") => ({
+  type,
+  username: "Alice",
+  rawUsername: "Alice",
+  timestamp: new Date(0),
+});
+
+test("WebhookIntegration posts signed envelopes for subscribed events", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-webhook-"));
+  const endpoint = await startEndpoint();
+  const integration = createIntegration(directory, endpoint.url);
+
+  try {
+    await integration.start();
+    const delivered = endpoint.nextRequest();
+    await integration.relayChatMessage(chatMessage("death"));
+    await integration.relayChatMessage(chatMessage("join"));
+    await delivered;
+
+    assert.equal(endpoint.received.length, 1);
+    const [{ headers, body }] = endpoint.received;
+    assert.equal(headers["x-relay-event"], "join");
+    assert.equal(
+      headers[SIGNATURE_HEADER.toLowerCase()],
+      signWebhookPayload(SECRET, body),
+    );
+    const envelope = JSON.parse(body);
+    assert.equal(envelope.version, 1);
+    assert.equal(envelope.event, "join");
+    assert.equal(envelope.server, "Survival");
+    assert.equal(envelope.data.username, "Alice");
+  } finally {
+    await integration.stop();
+    await endpoint.close();
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("WebhookIntegration retries failed deliveries", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-webhook-"));
+  const endpoint = await startEndpoint([500, 503]);
+  const integration = createIntegration(directory, endpoint.url);
+
+  try {
+    await integration.start();
+    const attempts = [
+      endpoint.nextRequest(),
+      endpoint.nextRequest(),
+      endpoint.nextRequest(),
+    ];
+    await integration.relayChatMessage(chatMessage("join"));
+    await Promise.all(attempts);
+
+    assert.equal(endpoint.received.length, 3);
+    const ids = new Set(
+      endpoint.received.map(({ headers }) => headers["x-relay-delivery"]),
+    );
+    assert.equal(ids.size, 1);
+  } finally {
+    await integration.stop();
+    await endpoint.close();
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test("WebhookIntegration delivers to endpoints independently", async () => {
+  const directory = await mkdtemp(path.join(tmpdir(), "cubyz-relay-webhook-"));
+  // The first endpoint holds every request until the test releases it.
+  const held: (() => void)[] = [];
+  const stalled = createServer((_request, response) => {
+    held.push(() => response.end());
+  });
+  await new Promise<void>((resolve) => stalled.listen(0, "127.0.0.1", resolve));
+  const { port } = stalled.address() as AddressInfo;
+  const endpoint = await startEndpoint();
+  const integration = createIntegration(directory, [
+    `http://127.0.0.1:${port}/hook`,
+    endpoint.url,
+  ]);
+
+  try {
+    await integration.start();
+    const delivered = [endpoint.nextRequest(), endpoint.nextRequest()];
+    await integration.relayChatMessage(chatMessage("join"));
+    await integration.relayChatMessage(chatMessage("join"));
+    await Promise.all(delivered);
+
+    assert.equal(endpoint.received.length, 2);
+    assert.equal(held.length, 1);
+  } finally {
+    for (const release of held) {
+      release();
+    }
+    await integration.stop();
+    await new Promise<void>((resolve) => {
+      stalled.close(() => resolve());
+      stalled.closeAllConnections();
+    });
+    await endpoint.close();
+    await rm(directory, { recursive: true, force: true });
+  }
+});